@@ -114,6 +114,52 @@ describe('reporting routes', () => {
     expect(html).toContain('Create a GitHub issue');
   });
 
+  test('GET /runs/:runId/events replays the outcome of a finished run', async () => {
+    const resp = await fetch(`${baseUrl}/runs/${RUN_ID}/events`);
+    expect(resp.status).toBe(200);
+    expect(resp.headers.get('content-type')).toContain('text/event-stream');
+
+    const body = await resp.text();
+    const events = body.trim().split('\n\n').map(chunk => {
+      const [eventLine, dataLine] = chunk.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+
+    expect(events.map(e => e.event)).toEqual(['status', 'finding', 'complete']);
+    expect(events[1].data.finding.screenshotUrl).toBe(`${baseUrl}/runs/${RUN_ID}/artifacts/screens/step000.png`);
+    expect(events[2].data).toMatchObject({ status: 'fail', reason: 'Discoverability block' });
+  });
+
+  test('GET /runs/:runId/events returns 404 for unknown runs', async () => {
+    const resp = await fetch(`${baseUrl}/runs/does-not-exist/events`);
+    expect(resp.status).toBe(404);
+  });
+
+  test('POST /runs/:runId/cancel rejects finished and unknown runs', async () => {
+    const finished = await fetch(`${baseUrl}/runs/${RUN_ID}/cancel`, { method: 'POST' });
+    expect(finished.status).toBe(409);
+    expect((await finished.json() as any).error).toContain('"fail"');
+
+    const unknown = await fetch(`${baseUrl}/runs/does-not-exist/pause`, { method: 'POST' });
+    expect(unknown.status).toBe(404);
+  });
+
+  test('POST /runs/:runId/reply validates the body and needs a waiting run', async () => {
+    const empty = await fetch(`${baseUrl}/runs/${RUN_ID}/reply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: '   ' }),
+    });
+    expect(empty.status).toBe(400);
+
+    const finished = await fetch(`${baseUrl}/runs/${RUN_ID}/reply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Try the footer' }),
+    });
+    expect(finished.status).toBe(409);
+  });
+
   test('POST /runs/:runId/issues/github creates issue using mocked GitHub API', async () => {
     process.env.GITHUB_REPO = 'owner/repo';
     process.env.GITHUB_TOKEN = 'test-token';
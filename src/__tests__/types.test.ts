@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { RunCreateRequestSchema } from '../types.js';
+import { PersonaQuestionGenRequestSchema, RunCreateRequestSchema } from '../types.js';
 
 describe('RunCreateRequestSchema', () => {
   it('validates minimal request', () => {
@@ -14,6 +14,7 @@ describe('RunCreateRequestSchema', () => {
       expect(result.data.budgets.maxSteps).toBe(40);
       expect(result.data.budgets.maxMinutes).toBe(6);
       expect(result.data.options.headless).toBe(true);
+      expect(result.data.options.vision).toBe(false);
     }
   });
 
@@ -52,6 +53,61 @@ describe('RunCreateRequestSchema', () => {
     }
   });
 
+  it('accepts per-run provider and model selection', () => {
+    const result = RunCreateRequestSchema.safeParse({
+      baseUrl: 'https://example.com',
+      goal: 'Find pricing',
+      options: { llm: { provider: 'claude-cli', model: 'claude-sonnet-4-20250514' } },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.options.llm?.provider).toBe('claude-cli');
+    }
+  });
+
+  it('rejects unknown providers and unsafe model names', () => {
+    const base = { baseUrl: 'https://example.com', goal: 'Find pricing' };
+    expect(RunCreateRequestSchema.safeParse({ ...base, options: { llm: { provider: 'gpt' } } }).success).toBe(false);
+    expect(RunCreateRequestSchema.safeParse({ ...base, options: { llm: { model: 'x; rm -rf /' } } }).success).toBe(false);
+  });
+
+  it('fills human-in-the-loop defaults when the mode is enabled', () => {
+    const result = RunCreateRequestSchema.safeParse({
+      baseUrl: 'https://example.com',
+      goal: 'Find pricing',
+      options: { humanInTheLoop: {} },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.options.humanInTheLoop).toEqual({ autoEscalateAfter: 6, maxWaitMinutes: 10 });
+    }
+  });
+
+  it('fills settle defaults and keeps partial overrides', () => {
+    const result = RunCreateRequestSchema.safeParse({
+      baseUrl: 'https://example.com',
+      goal: 'Find pricing',
+      options: { settle: { maxMs: 4000, networkQuietMs: 0 } },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.options.settle).toEqual({
+        maxMs: 4000,
+        networkQuietMs: 0,
+        domQuietMs: 300,
+        waitForAnimations: true,
+        slowMs: 3000,
+      });
+    }
+  });
+
+  it('only accepts plain file names as upload fixtures', () => {
+    const base = { baseUrl: 'https://example.com', goal: 'Upload a photo' };
+    expect(RunCreateRequestSchema.safeParse({ ...base, options: { uploadFixtures: ['avatar.png', 'Q1 report.pdf'] } }).success).toBe(true);
+    expect(RunCreateRequestSchema.safeParse({ ...base, options: { uploadFixtures: ['../secrets.env'] } }).success).toBe(false);
+    expect(RunCreateRequestSchema.safeParse({ ...base, options: { uploadFixtures: ['/etc/passwd'] } }).success).toBe(false);
+  });
+
   it('rejects invalid baseUrl', () => {
     const request = {
       baseUrl: 'not-a-url',
@@ -86,3 +142,15 @@ describe('RunCreateRequestSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('PersonaQuestionGenRequestSchema', () => {
+  it('keeps the llm options for question generation alongside the other run options', () => {
+    const result = PersonaQuestionGenRequestSchema.parse({
+      baseUrl: 'https://example.com',
+      persona: { description: 'A new admin setting up accounts for a small team.' },
+      options: { llm: { provider: 'openai-compatible', model: 'local-model' }, headless: true },
+    });
+    expect(result.options).toEqual({ llm: { provider: 'openai-compatible', model: 'local-model' }, headless: true });
+    expect(PersonaQuestionGenRequestSchema.safeParse({ ...result, options: { llm: { provider: 'gpt' } } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { callOpenAiCompatible } from '../openaiCompatible.js';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function mockCompletion(content: string, status = 200) {
+  const mockFetch = vi.fn(async () => new Response(
+    JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  ));
+  (globalThis as any).fetch = mockFetch;
+  return mockFetch;
+}
+
+describe('callOpenAiCompatible', () => {
+  test('posts a chat completion and returns the message content', async () => {
+    const mockFetch = mockCompletion('{"action": {"type": "back"}}');
+
+    const text = await callOpenAiCompatible('pick an action', {
+      baseUrl: 'http://localhost:8000/v1/',
+      apiKey: 'local-key',
+      model: 'qwen2.5-7b',
+      json: true,
+    });
+
+    expect(text).toBe('{"action": {"type": "back"}}');
+    const [url, opts] = mockFetch.mock.calls[0] as any[];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(opts.headers.Authorization).toBe('Bearer local-key');
+    const body = JSON.parse(opts.body);
+    expect(body.model).toBe('qwen2.5-7b');
+    expect(body.messages).toEqual([{ role: 'user', content: 'pick an action' }]);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  test('omits JSON mode for text prompts', async () => {
+    const mockFetch = mockCompletion('hello');
+    await callOpenAiCompatible('say hi', { baseUrl: 'http://localhost:8000' });
+    const body = JSON.parse((mockFetch.mock.calls[0] as any[])[1].body);
+    expect(body.response_format).toBeUndefined();
+  });
+
+  test('surfaces HTTP errors', async () => {
+    mockCompletion('nope', 500);
+    await expect(callOpenAiCompatible('x', { baseUrl: 'http://localhost:8000' })).rejects.toThrow('OpenAI-compatible API error (500)');
+  });
+
+  test('times out like the other providers', async () => {
+    (globalThis as any).fetch = vi.fn((_url: string, opts: any) => new Promise((_resolve, reject) => {
+      opts.signal.addEventListener('abort', () => {
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+
+    await expect(callOpenAiCompatible('x', { baseUrl: 'http://localhost:8000', timeoutMs: 20 }))
+      .rejects.toThrow('OpenAI-compatible API timed out after 0.02 seconds');
+  });
+
+  test('stops when the caller aborts', async () => {
+    (globalThis as any).fetch = vi.fn((_url: string, opts: any) => new Promise((_resolve, reject) => {
+      opts.signal.addEventListener('abort', () => {
+        const error = new Error('aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+
+    const controller = new AbortController();
+    const pending = callOpenAiCompatible('x', { baseUrl: 'http://localhost:8000', signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow('OpenAI-compatible API call aborted');
+  });
+
+  test('requires a base URL', async () => {
+    const saved = process.env.OPENAI_BASE_URL;
+    delete process.env.OPENAI_BASE_URL;
+    try {
+      await expect(callOpenAiCompatible('x')).rejects.toThrow('Missing OPENAI_BASE_URL');
+    } finally {
+      if (saved !== undefined) process.env.OPENAI_BASE_URL = saved;
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from 'vitest';
+import { getDefaultProviderName, getProvider, listProviders, registerProvider } from '../providers.js';
+import { createScriptedProvider } from '../scriptedProvider.js';
+
+const ENV_KEYS = ['LLM_PROVIDER', 'ANTHROPIC_API_KEY', 'OPENAI_BASE_URL', 'CLAUDE_CODE_OAUTH_TOKEN', 'USE_TMUX'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe('provider registry', () => {
+  test('registers the built-in providers', () => {
+    expect(listProviders()).toEqual(expect.arrayContaining(['anthropic-sdk', 'claude-cli', 'claude-tmux', 'openai-compatible']));
+    expect(getProvider('anthropic-sdk').callTool).toBeTypeOf('function');
+    expect(getProvider('claude-cli').callTool).toBeUndefined();
+  });
+
+  test('picks the default provider from the environment', () => {
+    for (const key of ENV_KEYS) delete process.env[key];
+    expect(getDefaultProviderName()).toBe('claude-cli');
+
+    process.env.USE_TMUX = '1';
+    expect(getDefaultProviderName()).toBe('claude-tmux');
+
+    process.env.OPENAI_BASE_URL = 'http://localhost:8000';
+    expect(getDefaultProviderName()).toBe('openai-compatible');
+
+    process.env.ANTHROPIC_API_KEY = 'sk-test';
+    expect(getDefaultProviderName()).toBe('anthropic-sdk');
+
+    process.env.LLM_PROVIDER = 'claude-cli';
+    expect(getDefaultProviderName()).toBe('claude-cli');
+  });
+
+  test('rejects unknown providers', () => {
+    expect(() => getProvider('nope')).toThrow('Unknown LLM provider "nope"');
+  });
+
+  test('accepts custom providers', async () => {
+    registerProvider('scripted-test', () => createScriptedProvider(['hello'], { name: 'scripted-test' }));
+    const provider = getProvider('scripted-test');
+    expect(await provider.complete('hi')).toBe('hello');
+  });
+});
+
+describe('createScriptedProvider', () => {
+  test('replays replies in order and records prompts and models', async () => {
+    const provider = createScriptedProvider(['one', 'two']);
+    expect(await provider.complete('a', { model: 'm1' })).toBe('one');
+    expect(await provider.complete('b')).toBe('two');
+    expect(await provider.complete('c')).toBe('two');
+    expect(provider.prompts).toEqual(['a', 'b', 'c']);
+    expect(provider.models).toEqual(['m1', undefined, undefined]);
+  });
+
+  test('answers tool prompts with scripted tool calls', async () => {
+    const provider = createScriptedProvider([{ name: 'click', input: { target: 'btn_1' } }], { useTools: true });
+    const call = await provider.callTool!('pick', []);
+    expect(call).toEqual({ name: 'click', input: { target: 'btn_1' } });
+  });
+});
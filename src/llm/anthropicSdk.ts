@@ -1,4 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type { LlmPrompt } from './prompt.js';
+import { promptImages, promptText } from './prompt.js';
+import type { ToolCall, ToolDefinition } from './tools.js';
 
 let client: Anthropic | null = null;
 
@@ -14,9 +17,53 @@ export interface AnthropicOptions {
   timeoutMs?: number;
   model?: string;
   maxTokens?: number;
+  signal?: AbortSignal;  // abandon the request early (cancel, run deadline)
 }
 
-export async function callAnthropic(prompt: string, options: AnthropicOptions = {}): Promise<string> {
+export async function callAnthropic(prompt: LlmPrompt, options: AnthropicOptions = {}): Promise<string> {
+  const response = await createMessage(prompt, options);
+
+  // Extract text from response
+  const textBlock = response.content.find(block => block.type === 'text');
+  if (!textBlock || textBlock.type !== 'text') {
+    throw new Error('No text response from Claude');
+  }
+  return textBlock.text;
+}
+
+/**
+ * Ask the model to answer by calling exactly one of the given tools.
+ * Returns the tool name and its (schema-shaped) input.
+ */
+export async function callAnthropicTool(
+  prompt: LlmPrompt,
+  tools: ToolDefinition[],
+  options: AnthropicOptions = {}
+): Promise<ToolCall> {
+  const response = await createMessage(prompt, options, {
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    })),
+    tool_choice: { type: 'any', disable_parallel_tool_use: true },
+  });
+
+  const toolBlock = response.content.find(block => block.type === 'tool_use');
+  if (!toolBlock || toolBlock.type !== 'tool_use') {
+    throw new Error('No tool call in response from Claude');
+  }
+  const input = toolBlock.input && typeof toolBlock.input === 'object'
+    ? toolBlock.input as Record<string, unknown>
+    : {};
+  return { name: toolBlock.name, input };
+}
+
+async function createMessage(
+  prompt: LlmPrompt,
+  options: AnthropicOptions,
+  extra: Pick<Anthropic.MessageCreateParamsNonStreaming, 'tools' | 'tool_choice'> = {}
+): Promise<Anthropic.Message> {
   const {
     model = 'claude-sonnet-4-20250514',
     maxTokens = 4096,
@@ -25,28 +72,36 @@ export async function callAnthropic(prompt: string, options: AnthropicOptions =
 
   const anthropic = getClient();
 
+  // Images go first so the text can refer to "the screenshot above"
+  const content: Anthropic.ContentBlockParam[] = [
+    ...promptImages(prompt).map((image): Anthropic.ImageBlockParam => ({
+      type: 'image',
+      source: { type: 'base64', media_type: image.mediaType, data: image.base64 },
+    })),
+    { type: 'text', text: promptText(prompt) },
+  ];
+
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
 
   try {
     const response = await anthropic.messages.create({
       model,
       max_tokens: maxTokens,
-      messages: [{ role: 'user', content: prompt }],
+      messages: [{ role: 'user', content }],
+      ...extra,
     }, {
-      signal: controller.signal,
+      signal,
     });
 
     clearTimeout(timeout);
-
-    // Extract text from response
-    const textBlock = response.content.find(block => block.type === 'text');
-    if (!textBlock || textBlock.type !== 'text') {
-      throw new Error('No text response from Claude');
-    }
-    return textBlock.text;
+    return response;
   } catch (error: unknown) {
     clearTimeout(timeout);
+    if (options.signal?.aborted) {
+      throw new Error('Anthropic API call aborted');
+    }
     if (error instanceof Error && error.name === 'AbortError') {
       throw new Error(`Anthropic API timed out after ${timeoutMs / 1000} seconds`);
     }
@@ -3,11 +3,23 @@ import { spawn } from 'child_process';
 export interface ClaudeCliOptions {
   timeoutMs?: number;
   outputFormat?: 'text' | 'json';
+  model?: string;
+  signal?: AbortSignal;  // kill the CLI early (cancel, run deadline)
 }
 
+// Model names are interpolated into a shell command, so only allow plain identifiers
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9._:\/-]+$/;
+
 export async function callClaudeCli(prompt: string, options: ClaudeCliOptions = {}): Promise<string> {
   const TIMEOUT_MS = options.timeoutMs ?? 90_000;
   const outputFormat = options.outputFormat ?? 'text';
+  if (options.model && !MODEL_NAME_PATTERN.test(options.model)) {
+    throw new Error(`Invalid model name for Claude CLI: ${options.model}`);
+  }
+  const modelFlag = options.model ? ` --model ${options.model}` : '';
+  if (options.signal?.aborted) {
+    throw new Error('Claude CLI call aborted');
+  }
 
   const { writeFileSync, unlinkSync } = await import('fs');
   const { tmpdir } = await import('os');
@@ -23,7 +35,7 @@ export async function callClaudeCli(prompt: string, options: ClaudeCliOptions =
     };
 
     // Use -p (print mode) for non-interactive use, and --dangerously-skip-permissions to avoid prompts
-    const child = spawn('sh', ['-c', `cat "${tempFile}" | claude -p --dangerously-skip-permissions --output-format ${outputFormat}`], {
+    const child = spawn('sh', ['-c', `cat "${tempFile}" | claude -p --dangerously-skip-permissions --output-format ${outputFormat}${modelFlag}`], {
       stdio: ['ignore', 'pipe', 'pipe'],
       env: { ...process.env },
     });
@@ -39,6 +51,15 @@ export async function callClaudeCli(prompt: string, options: ClaudeCliOptions =
       reject(new Error(`Claude CLI timed out after ${TIMEOUT_MS / 1000} seconds`));
     }, TIMEOUT_MS);
 
+    const onAbort = () => {
+      clearTimeout(timeout);
+      timedOut = true;  // ignore the exit that follows the kill
+      child.kill('SIGTERM');
+      cleanup();
+      reject(new Error('Claude CLI call aborted'));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
     child.stdout.on('data', (data) => {
       stdout += data.toString();
     });
@@ -49,6 +70,7 @@ export async function callClaudeCli(prompt: string, options: ClaudeCliOptions =
 
     child.on('close', (code) => {
       clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', onAbort);
       cleanup();
       if (timedOut) return;
 
@@ -63,6 +85,7 @@ export async function callClaudeCli(prompt: string, options: ClaudeCliOptions =
 
     child.on('error', (err) => {
       clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', onAbort);
       cleanup();
       reject(new Error(`Failed to spawn Claude CLI: ${err.message}`));
     });
@@ -39,6 +39,7 @@ function releaseLock(): void {
 export interface ClaudeTmuxOptions {
   timeoutMs?: number;
   workDir?: string;
+  signal?: AbortSignal;  // stop waiting for the response (cancel, run deadline)
 }
 
 /**
@@ -194,7 +195,7 @@ function capturePane(lines: number = 200): string {
 /**
  * Wait for Claude to finish responding and extract the response
  */
-async function waitForResponse(timeoutMs: number): Promise<string> {
+async function waitForResponse(timeoutMs: number, signal?: AbortSignal): Promise<string> {
   const deadline = Date.now() + timeoutMs;
   let lastContent = '';
   let stableCount = 0;
@@ -203,6 +204,9 @@ async function waitForResponse(timeoutMs: number): Promise<string> {
   await sleep(1000);
   
   while (Date.now() < deadline) {
+    if (signal?.aborted) {
+      throw new Error('Claude tmux call aborted');
+    }
     const content = capturePane(100);
     
     // Check if Claude is at prompt (ready for next input)
@@ -293,7 +297,7 @@ function extractResponse(content: string): string {
  * 3. Waits for and returns the response
  */
 export async function callClaudeTmux(prompt: string, options: ClaudeTmuxOptions = {}): Promise<string> {
-  const { timeoutMs = 90_000, workDir } = options;
+  const { timeoutMs = 90_000, workDir, signal } = options;
   
   if (!hasTmux()) {
     throw new Error('tmux is not installed. Install with: brew install tmux');
@@ -318,7 +322,7 @@ export async function callClaudeTmux(prompt: string, options: ClaudeTmuxOptions
     await sendPrompt(prompt);
     
     // Wait for and return the response
-    const response = await waitForResponse(timeoutMs);
+    const response = await waitForResponse(timeoutMs, signal);
     
     if (!response) {
       throw new Error('No response from Claude. Check tmux session: tmux attach -t cold-agent-claude');
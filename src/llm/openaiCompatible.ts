@@ -0,0 +1,94 @@
+import type { LlmPrompt } from './prompt.js';
+import { promptText } from './prompt.js';
+
+/**
+ * Provider for any server that speaks the OpenAI `/v1/chat/completions`
+ * protocol (vLLM, llama.cpp server, Ollama, LM Studio, ...).
+ *
+ * Configuration:
+ * - OPENAI_BASE_URL: server root, with or without the trailing `/v1` (required)
+ * - OPENAI_API_KEY: bearer token, if the server wants one
+ * - OPENAI_MODEL: model name when the run doesn't pick one
+ */
+
+export interface OpenAiCompatibleOptions {
+  timeoutMs?: number;
+  model?: string;
+  maxTokens?: number;
+  json?: boolean;      // ask for a JSON object response (response_format: json_object)
+  baseUrl?: string;
+  apiKey?: string;
+  signal?: AbortSignal;  // abandon the request early (cancel, run deadline)
+}
+
+const DEFAULT_MODEL = 'default';
+
+export async function callOpenAiCompatible(prompt: LlmPrompt, options: OpenAiCompatibleOptions = {}): Promise<string> {
+  const {
+    model = process.env.OPENAI_MODEL || DEFAULT_MODEL,
+    maxTokens = 4096,
+    timeoutMs = 90_000,
+    json = false,
+    baseUrl = process.env.OPENAI_BASE_URL,
+    apiKey = process.env.OPENAI_API_KEY,
+  } = options;
+
+  if (!baseUrl) {
+    throw new Error('Missing OPENAI_BASE_URL env var (e.g. http://localhost:8000)');
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const body: Record<string, unknown> = {
+    model,
+    max_tokens: maxTokens,
+    messages: [{ role: 'user', content: promptText(prompt) }],
+  };
+  if (json) {
+    body.response_format = { type: 'json_object' };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
+
+  try {
+    const resp = await fetch(chatCompletionsUrl(baseUrl), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    const text = await resp.text();
+    clearTimeout(timeout);
+
+    if (!resp.ok) {
+      throw new Error(`OpenAI-compatible API error (${resp.status}): ${text.slice(0, 500)}`);
+    }
+
+    const data = JSON.parse(text);
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new Error(`No text response from OpenAI-compatible API: ${text.slice(0, 300)}`);
+    }
+    return content;
+  } catch (error: unknown) {
+    clearTimeout(timeout);
+    if (options.signal?.aborted) {
+      throw new Error('OpenAI-compatible API call aborted');
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`OpenAI-compatible API timed out after ${timeoutMs / 1000} seconds`);
+    }
+    throw error;
+  }
+}
+
+function chatCompletionsUrl(baseUrl: string): string {
+  const root = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+  return `${root}/v1/chat/completions`;
+}
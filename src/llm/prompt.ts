@@ -0,0 +1,21 @@
+export interface PromptImage {
+  mediaType: 'image/png' | 'image/jpeg';
+  base64: string;
+}
+
+/**
+ * A prompt is either plain text or text plus images (vision mode).
+ * Providers that can't send images fall back to the text part.
+ */
+export type LlmPrompt = string | {
+  text: string;
+  images?: PromptImage[];
+};
+
+export function promptText(prompt: LlmPrompt): string {
+  return typeof prompt === 'string' ? prompt : prompt.text;
+}
+
+export function promptImages(prompt: LlmPrompt): PromptImage[] {
+  return typeof prompt === 'string' ? [] : prompt.images ?? [];
+}
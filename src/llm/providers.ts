@@ -0,0 +1,109 @@
+import { callAnthropic, callAnthropicTool } from './anthropicSdk.js';
+import { callClaudeCli } from './claudeCli.js';
+import { callClaudeTmux } from './claudeTmux.js';
+import { callOpenAiCompatible } from './openaiCompatible.js';
+import type { LlmPrompt } from './prompt.js';
+import { promptText } from './prompt.js';
+import type { ToolCall, ToolDefinition } from './tools.js';
+
+export interface ProviderCallOptions {
+  model?: string;
+  timeoutMs?: number;
+  json?: boolean;  // the caller expects a JSON object; providers that support a JSON mode enable it
+  signal?: AbortSignal;  // abandon the call (run cancelled or out of time)
+}
+
+/**
+ * A backend that can answer agent and persona prompts.
+ * Providers without callTool are asked for JSON text and parsed leniently.
+ */
+export interface DecisionProvider {
+  name: string;
+  supportsVision: boolean;
+  complete(prompt: LlmPrompt, options?: ProviderCallOptions): Promise<string>;
+  callTool?(prompt: LlmPrompt, tools: ToolDefinition[], options?: ProviderCallOptions): Promise<ToolCall>;
+}
+
+export type ProviderFactory = () => DecisionProvider;
+
+const registry = new Map<string, ProviderFactory>();
+
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  registry.set(name, factory);
+}
+
+export function listProviders(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Look up a provider by name, or pick the default from the environment.
+ */
+export function getProvider(name?: string): DecisionProvider {
+  const resolved = name ?? getDefaultProviderName();
+  const factory = registry.get(resolved);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${resolved}" (available: ${listProviders().join(', ')})`);
+  }
+  return factory();
+}
+
+// Priority: 0) LLM_PROVIDER, 1) API key → SDK, 2) OpenAI-compatible server, 3) CLI pipe mode with OAuth,
+// 4) tmux (if enabled), 5) CLI pipe mode
+export function getDefaultProviderName(): string {
+  if (process.env.LLM_PROVIDER) {
+    return process.env.LLM_PROVIDER;
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    return 'anthropic-sdk';
+  }
+  // Local/offline inference server
+  if (process.env.OPENAI_BASE_URL) {
+    return 'openai-compatible';
+  }
+  // CLI pipe mode is faster than tmux when OAuth token is available
+  if (process.env.CLAUDE_CODE_OAUTH_TOKEN) {
+    return 'claude-cli';
+  }
+  // Fall back to tmux if explicitly enabled
+  if (process.env.USE_TMUX === '1') {
+    return 'claude-tmux';
+  }
+  return 'claude-cli';
+}
+
+registerProvider('anthropic-sdk', () => ({
+  name: 'anthropic-sdk',
+  supportsVision: true,
+  complete: (prompt, options) => callAnthropic(prompt, options),
+  callTool: (prompt, tools, options) => callAnthropicTool(prompt, tools, options),
+}));
+
+registerProvider('claude-cli', () => ({
+  name: 'claude-cli',
+  supportsVision: false,
+  complete: (prompt, options) => callClaudeCli(promptText(prompt), {
+    outputFormat: 'text',
+    model: options?.model,
+    timeoutMs: options?.timeoutMs,
+    signal: options?.signal,
+  }),
+}));
+
+// The tmux session is shared and long-lived, so per-call model selection is not supported
+registerProvider('claude-tmux', () => ({
+  name: 'claude-tmux',
+  supportsVision: false,
+  complete: (prompt, options) => callClaudeTmux(promptText(prompt), { timeoutMs: options?.timeoutMs, signal: options?.signal }),
+}));
+
+registerProvider('openai-compatible', () => ({
+  name: 'openai-compatible',
+  supportsVision: false,
+  complete: (prompt, options) => callOpenAiCompatible(prompt, {
+    model: options?.model,
+    timeoutMs: options?.timeoutMs,
+    json: options?.json,
+    signal: options?.signal,
+  }),
+}));
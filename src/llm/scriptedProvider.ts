@@ -0,0 +1,61 @@
+import type { DecisionProvider } from './providers.js';
+import type { LlmPrompt } from './prompt.js';
+import type { ToolCall } from './tools.js';
+
+export type ScriptedReply = string | ToolCall | Error;
+
+export interface ScriptedProvider extends DecisionProvider {
+  prompts: LlmPrompt[];
+  models: (string | undefined)[];
+}
+
+/**
+ * Test double that replays canned replies in order. Strings answer text
+ * prompts, ToolCalls answer tool prompts, Errors are thrown. When the script
+ * runs out, the last reply repeats.
+ */
+export function createScriptedProvider(
+  replies: ScriptedReply[],
+  options: { name?: string; supportsVision?: boolean; useTools?: boolean } = {}
+): ScriptedProvider {
+  const prompts: LlmPrompt[] = [];
+  const models: (string | undefined)[] = [];
+  let index = 0;
+
+  const next = (prompt: LlmPrompt, model?: string): string | ToolCall => {
+    prompts.push(prompt);
+    models.push(model);
+    if (replies.length === 0) {
+      throw new Error('Scripted provider has no replies');
+    }
+    const reply = replies[Math.min(index, replies.length - 1)];
+    index++;
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  };
+
+  const provider: ScriptedProvider = {
+    name: options.name ?? 'scripted',
+    supportsVision: options.supportsVision ?? false,
+    prompts,
+    models,
+    async complete(prompt, callOptions) {
+      const reply = next(prompt, callOptions?.model);
+      return typeof reply === 'string' ? reply : JSON.stringify({ action: { type: reply.name, ...reply.input } });
+    },
+  };
+
+  if (options.useTools) {
+    provider.callTool = async (prompt, _tools, callOptions) => {
+      const reply = next(prompt, callOptions?.model);
+      if (typeof reply === 'string') {
+        throw new Error(`Scripted provider expected a tool call, got text: ${reply.slice(0, 100)}`);
+      }
+      return reply;
+    };
+  }
+
+  return provider;
+}
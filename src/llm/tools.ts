@@ -0,0 +1,18 @@
+/**
+ * Provider-neutral tool definitions for structured output.
+ * inputSchema is plain JSON Schema (object type).
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface ToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
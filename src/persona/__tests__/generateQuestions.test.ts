@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'vitest';
 import { parseQuestionsFromClaude, generatePersonaQuestions } from '../generateQuestions.js';
+import { createScriptedProvider } from '../../llm/scriptedProvider.js';
 
 describe('persona question generation', () => {
   test('parses strict JSON questions (with code fences)', () => {
@@ -32,5 +33,19 @@ describe('persona question generation', () => {
     expect(res.questions.length).toBe(2);
     expect(res.questions[0]).toBe('Find pricing');
   });
-});
 
+  test('generatePersonaQuestions uses an injected provider and model', async () => {
+    const provider = createScriptedProvider([JSON.stringify({ questions: ['Find the refund policy'] })]);
+    const res = await generatePersonaQuestions(
+      {
+        baseUrl: 'https://example.com',
+        persona: { description: 'A shopper comparing return policies before a large purchase.' },
+        count: 1,
+      },
+      { provider, model: 'claude-test-model' }
+    );
+
+    expect(res.questions).toEqual(['Find the refund policy']);
+    expect(provider.models).toEqual(['claude-test-model']);
+  });
+});
@@ -1,36 +1,22 @@
 import { z } from 'zod';
 import type { Persona, PersonaQuestionGenRequest, PersonaQuestionGenResponse } from '../types.js';
 import { PersonaQuestionGenResponseSchema } from '../types.js';
-import { callClaudeCli } from '../llm/claudeCli.js';
-import { callAnthropic } from '../llm/anthropicSdk.js';
-import { callClaudeTmux } from '../llm/claudeTmux.js';
+import type { DecisionProvider } from '../llm/providers.js';
+import { getProvider } from '../llm/providers.js';
 
 const RawClaudeResponseSchema = z.object({
   questions: z.array(z.string()).default([]),
 });
 
-// Priority: 1) API key → SDK, 2) CLI pipe mode with OAuth, 3) tmux (Gastown-style fallback)
-function getDefaultClaude(): (prompt: string) => Promise<string> {
-  if (process.env.ANTHROPIC_API_KEY) {
-    return (prompt: string) => callAnthropic(prompt);
-  }
-  // Prefer CLI pipe mode (faster) when OAuth token is set
-  if (process.env.CLAUDE_CODE_OAUTH_TOKEN) {
-    return (prompt: string) => callClaudeCli(prompt, { outputFormat: 'text' });
-  }
-  // Fall back to tmux if USE_TMUX is explicitly enabled
-  if (process.env.USE_TMUX === '1') {
-    return (prompt: string) => callClaudeTmux(prompt);
-  }
-  // Default to CLI pipe mode
-  return (prompt: string) => callClaudeCli(prompt, { outputFormat: 'text' });
-}
-
 export async function generatePersonaQuestions(
   req: PersonaQuestionGenRequest,
-  deps?: { callClaude?: (prompt: string) => Promise<string> }
+  deps?: {
+    callClaude?: (prompt: string) => Promise<string>;
+    provider?: DecisionProvider;
+    model?: string;
+  }
 ): Promise<PersonaQuestionGenResponse> {
-  const callClaude = deps?.callClaude ?? getDefaultClaude();
+  const callClaude = deps?.callClaude ?? providerCall(deps?.provider ?? getProvider(), deps?.model);
   const prompt = buildPrompt(req.baseUrl, req.persona, req.count, req.focus, req.siteDescription);
 
   const text = await callClaude(prompt);
@@ -56,6 +42,10 @@ export async function generatePersonaQuestions(
   return final.data;
 }
 
+function providerCall(provider: DecisionProvider, model?: string): (prompt: string) => Promise<string> {
+  return (prompt: string) => provider.complete(prompt, { model, json: true });
+}
+
 function buildPrompt(baseUrl: string, persona: Persona, count: number, focus?: string, siteDescription?: string): string {
   const lines: string[] = [];
   lines.push(`You are helping generate test missions for a web exploration agent.`);
@@ -38,6 +38,7 @@ function makeReport(runId: string): RunReport {
       stuckEvents: 0,
       consoleErrors: 0,
       failedRequests: 0,
+      repairAttempts: 0,
       durationMs: 1000,
     },
   };
@@ -88,6 +89,122 @@ describe('renderRunReportHtml', () => {
     expect(html).toContain('search(&quot;&lt;missing query&gt;&quot;)');
   });
 
+  test('marks steps that used vision', () => {
+    const steps = makeSteps();
+    steps[0].usedVision = true;
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps });
+    expect(html).toContain('>vision</span>');
+
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps, format: 'github-issue-markdown' });
+    expect(md).toContain('(progress: none, vision)');
+  });
+
+  test('explains what changed on each step', () => {
+    const steps = makeSteps();
+    steps[0].result = { ...steps[0].result, progress: 'some', diff: { headingsAdded: ['Results'], alertsAdded: ['3 matches'] } };
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps });
+    expect(html).toContain('<ul class="diff"><li>Headings added: &quot;Results&quot;</li><li>New alerts: &quot;3 matches&quot;</li></ul>');
+
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps, format: 'github-issue-markdown' });
+    expect(md).toContain('  - Changed:\n    - Headings added: "Results"\n    - New alerts: "3 matches"');
+
+    steps[0].result = { ...steps[0].result, progress: 'none', diff: {} };
+    expect(renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps })).toContain('<b>Changed</b>: nothing visible');
+  });
+
+  test('shows how long each step took to settle', () => {
+    const steps = makeSteps();
+    steps[0].result = { ...steps[0].result, settle: { ms: 10_000, timedOut: true, waitingOn: ['network'] } };
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps });
+    expect(html).toContain('Still busy after 10.0s (network)');
+
+    steps[0].result.settle = { ms: 820, timedOut: false };
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps, format: 'github-issue-markdown' });
+    expect(md).toContain('(progress: none, settled in 0.8s)');
+  });
+
+  test('shows page timing for steps and the run', () => {
+    const steps = makeSteps();
+    steps[0].performance = {
+      navigation: { url: 'https://example.com/', ttfbMs: 320, domContentLoadedMs: 900, lcpMs: 1840 },
+      cls: 0.12,
+      longTasks: 2,
+      blockingMs: 180,
+      transferBytes: 1_240_000,
+    };
+    const report = makeReport('r1');
+    report.metrics!.performance = {
+      pageLoads: 1,
+      medianTtfbMs: 320,
+      maxTtfbMs: 320,
+      medianLcpMs: 1840,
+      maxLcpMs: 1840,
+      maxCls: 0.12,
+      longTasks: 2,
+      blockingMs: 180,
+      transferBytes: 1_240_000,
+    };
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report, steps });
+    expect(html).toContain('<b>Performance</b>: page load TTFB 320ms, LCP 1.8s, CLS 0.12, 2 long tasks (180ms blocking), 1.2 MB');
+    expect(html).toContain('<div class="k">medianLcpMs</div><div class="v">1840</div>');
+
+    steps[0].performance = { cls: 0, longTasks: 0, blockingMs: 0, transferBytes: 0 };
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report, steps, format: 'github-issue-markdown' });
+    expect(md).not.toContain('Performance:');
+  });
+
+  test('lists accessibility violations under the step', () => {
+    const steps = makeSteps();
+    steps[0].accessibility = [
+      { rule: 'button-name', message: 'Button has no accessible name', target: '<button class="icon-close">' },
+      { rule: 'landmark-main', message: 'Page has no main landmark' },
+    ];
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps });
+    expect(html).toContain('<b>Accessibility</b>:<ul class="diff"><li>Button has no accessible name: &lt;button class=&quot;icon-close&quot;&gt;</li><li>Page has no main landmark</li></ul>');
+
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r1'), steps, format: 'github-issue-markdown' });
+    expect(md).toContain('  - Accessibility:\n    - Button has no accessible name: <button class="icon-close">\n    - Page has no main landmark');
+  });
+
+  test('labels the run mode and summarizes reading-order problems', () => {
+    const report = makeReport('r1');
+    report.mode = 'screenReader';
+    report.readingOrder = {
+      pages: 2,
+      problems: [{
+        kind: 'image-alt',
+        title: 'Images without text alternatives',
+        count: 2,
+        pages: 2,
+        examples: ['<img src="/logo.png">: Image has no text alternative (Home)'],
+      }],
+    };
+    const html = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report, steps: makeSteps() });
+    expect(html).toContain('<span class="badge neutral">screen reader</span>');
+    expect(html).toContain('<span class="muted">Mode:</span> <span>Screen reader: the agent only heard the page read out in reading order, with no screenshots</span>');
+    expect(html).toContain('<div class="title">Reading order</div>');
+    expect(html).toContain('<b>Images without text alternatives</b>: 2 on 2 pages');
+
+    const md = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report, steps: makeSteps(), format: 'github-issue-markdown' });
+    expect(md).toContain('- **Mode**: Screen reader:');
+    expect(md).toContain('### Reading order\nRead 2 pages as a screen reader and found 2 reading problems:\n- **Images without text alternatives**: 2 on 2 pages\n  - <img src="/logo.png">: Image has no text alternative (Home)');
+    expect(md).toContain('"options":{"mode":"screenReader"}');
+
+    report.mode = 'standard';
+    report.readingOrder = undefined;
+    expect(renderRunReportHtml({ baseUrl: 'http://localhost:3000', report, steps: makeSteps() })).not.toContain('Mode:');
+  });
+
+  test('subscribes to live events only while the run is in progress', () => {
+    const running = { ...makeReport('r2'), status: 'running' as const };
+    const live = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: running, steps: [] });
+    expect(live).toContain("new EventSource('/runs/r2/events')");
+    expect(live).toContain('id="noSteps"');
+
+    const done = renderRunReportHtml({ baseUrl: 'http://localhost:3000', report: makeReport('r2'), steps: makeSteps() });
+    expect(done).not.toContain('EventSource');
+  });
+
   test('renders GitHub issue markdown with evidence and steps', () => {
     const runId = '20260131_testmd';
     const md = renderRunReportHtml({
@@ -1,7 +1,20 @@
-import type { RunReport, StepLog } from '../types.js';
+import type { A11yViolation, ReadingOrderSummary, RunMode, RunReport, SettleTiming, StepLog, StepPerformance } from '../types.js';
+import { formatDiffLines } from '../run/snapshotDiff.js';
 
 type RenderFormat = 'html' | 'github-issue-markdown';
 
+// How a non-standard run perceived the page, for the report header
+const MODE_LABELS: Record<Exclude<RunMode, 'standard'>, { badge: string; description: string }> = {
+  keyboard: {
+    badge: 'keyboard only',
+    description: 'Keyboard only: the agent could only press Tab, Shift+Tab, Enter, Space and the arrow keys',
+  },
+  screenReader: {
+    badge: 'screen reader',
+    description: 'Screen reader: the agent only heard the page read out in reading order, with no screenshots',
+  },
+};
+
 export function renderRunReportHtml(args: {
   baseUrl: string; // e.g. http://localhost:3000
   report: RunReport;
@@ -32,6 +45,8 @@ function renderGitHubIssueMarkdown(baseUrl: string, report: RunReport, steps: St
   lines.push(`- **Goal**: ${report.goal}`);
   lines.push(`- **Base URL**: ${report.baseUrl}`);
   if (report.summary?.reason) lines.push(`- **Reason**: ${report.summary.reason}`);
+  if (report.llm) lines.push(`- **Model**: ${formatLlm(report.llm)}`);
+  if (report.mode && report.mode !== 'standard') lines.push(`- **Mode**: ${MODE_LABELS[report.mode].description}`);
   lines.push('');
   lines.push(`### Evidence`);
   lines.push(`- **HTML report**: ${reportUrl}`);
@@ -51,11 +66,24 @@ function renderGitHubIssueMarkdown(baseUrl: string, report: RunReport, steps: St
     lines.push('');
   }
 
+  if (report.readingOrder) {
+    lines.push('### Reading order');
+    lines.push(formatReadingSummary(report.readingOrder));
+    for (const problem of report.readingOrder.problems) {
+      lines.push(`- **${problem.title}**: ${problem.count} on ${problem.pages} page${problem.pages === 1 ? '' : 's'}`);
+      for (const example of problem.examples) lines.push(`  - ${example}`);
+    }
+    lines.push('');
+  }
+
   lines.push('### Repro (run Cold Agent)');
   lines.push('```bash');
   lines.push(`curl -X POST ${baseUrl}/runs \\`);
   lines.push('  -H "Content-Type: application/json" \\');
-  lines.push(`  -d '${JSON.stringify({ baseUrl: report.baseUrl, goal: report.goal })}'`);
+  const repro = report.mode && report.mode !== 'standard'
+    ? { baseUrl: report.baseUrl, goal: report.goal, options: { mode: report.mode } }
+    : { baseUrl: report.baseUrl, goal: report.goal };
+  lines.push(`  -d '${JSON.stringify(repro)}'`);
   lines.push('```');
   lines.push('');
 
@@ -64,9 +92,24 @@ function renderGitHubIssueMarkdown(baseUrl: string, report: RunReport, steps: St
     lines.push('');
     for (const step of steps) {
       const shot = `${baseUrl}/runs/${encodeURIComponent(runId)}/artifacts/${step.evidence.screenshot}`;
-      lines.push(`- **Step ${step.i}**: \`${formatAction(step.action)}\` → \`${step.url}\` (progress: ${step.result.progress})`);
+      lines.push(`- **Step ${step.i}**: \`${formatAction(step.action)}\` → \`${step.url}\` (progress: ${step.result.progress}${step.result.settle ? `, ${formatSettle(step.result.settle)}` : ''}${step.usedVision ? ', vision' : ''})`);
       if (step.result.notes) lines.push(`  - Notes: ${step.result.notes}`);
+      if (step.result.diff) {
+        const changes = formatDiffLines(step.result.diff);
+        lines.push(changes.length > 0 ? '  - Changed:' : '  - Changed: nothing visible');
+        for (const change of changes) lines.push(`    - ${change}`);
+      }
+      const perf = step.performance ? formatPerformance(step.performance) : '';
+      if (perf) lines.push(`  - Performance: ${perf}`);
+      if (step.accessibility?.length) {
+        lines.push('  - Accessibility:');
+        for (const issue of formatViolations(step.accessibility)) lines.push(`    - ${issue}`);
+      }
+      if (step.repairs?.length) lines.push(`  - Repaired after ${step.repairs.length} rejected repl${step.repairs.length === 1 ? 'y' : 'ies'}: ${step.repairs.map(r => r.error).join(' | ')}`);
       lines.push(`  - Screenshot: ${shot}`);
+      for (const download of step.downloads ?? []) {
+        lines.push(`  - Download: ${download.error ? `${download.filename} (failed: ${download.error})` : `${baseUrl}/runs/${encodeURIComponent(runId)}/artifacts/downloads/${encodeURIComponent(download.filename)}`}`);
+      }
       if (step.errors.console?.length) lines.push(`  - Console: ${step.errors.console.slice(0, 3).join(' | ')}${step.errors.console.length > 3 ? ' | …' : ''}`);
       if (step.errors.network?.length) lines.push(`  - Network: ${step.errors.network.slice(0, 3).join(' | ')}${step.errors.network.length > 3 ? ' | …' : ''}`);
       if (step.errors.exception) lines.push(`  - Exception: ${step.errors.exception}`);
@@ -123,10 +166,32 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
       ${metric('searchUsed', metrics.searchUsed)}
       ${metric('consoleErrors', metrics.consoleErrors)}
       ${metric('failedRequests', metrics.failedRequests)}
+      ${metric('repairAttempts', metrics.repairAttempts ?? 0)}
       ${metric('durationMs', metrics.durationMs)}
+      ${metrics.performance ? `
+        ${metric('pageLoads', metrics.performance.pageLoads)}
+        ${metric('medianTtfbMs', metrics.performance.medianTtfbMs ?? '—')}
+        ${metric('medianLcpMs', metrics.performance.medianLcpMs ?? '—')}
+        ${metric('maxCls', metrics.performance.maxCls)}
+        ${metric('blockingMs', metrics.performance.blockingMs)}
+        ${metric('transfer', formatBytes(metrics.performance.transferBytes))}
+      ` : ''}
     </div>
   ` : `<div class="muted">No metrics yet.</div>`;
 
+  const mode = report.mode && report.mode !== 'standard' ? MODE_LABELS[report.mode] : null;
+
+  const readingHtml = report.readingOrder ? `
+      <div class="panel section">
+        <div class="title">Reading order</div>
+        <div class="muted" style="margin-top: 6px;">${esc(formatReadingSummary(report.readingOrder))}</div>
+        ${report.readingOrder.problems.length > 0 ? `<ul class="diff">${report.readingOrder.problems.map(problem => `
+          <li><b>${esc(problem.title)}</b>: ${esc(`${problem.count} on ${problem.pages} page${problem.pages === 1 ? '' : 's'}`)}
+            <ul class="diff">${problem.examples.map(example => `<li>${esc(example)}</li>`).join('')}</ul>
+          </li>`).join('')}</ul>` : ''}
+      </div>
+  ` : '';
+
   const videoTag = report.artifacts.video
     ? `<video controls preload="metadata" src="${artifactsBase}/video.webm" style="width:100%; max-width: 900px; border-radius: 12px; border: 1px solid #222;"></video>`
     : `<div class="muted">No video artifact.</div>`;
@@ -144,6 +209,25 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
     const consoleErr = step.errors.console?.length ? `<div class="err"><b>Console</b>: ${esc(step.errors.console.slice(0, 3).join(' | '))}${step.errors.console.length > 3 ? ' | …' : ''}</div>` : '';
     const netErr = step.errors.network?.length ? `<div class="err"><b>Network</b>: ${esc(step.errors.network.slice(0, 3).join(' | '))}${step.errors.network.length > 3 ? ' | …' : ''}</div>` : '';
     const excErr = step.errors.exception ? `<div class="err"><b>Exception</b>: ${esc(step.errors.exception)}</div>` : '';
+    const settled = step.result.settle ? `<div class="muted">${esc(capitalize(formatSettle(step.result.settle)))}</div>` : '';
+    const perf = step.performance ? formatPerformance(step.performance) : '';
+    const performance = perf ? `<div class="muted"><b>Performance</b>: ${esc(perf)}</div>` : '';
+    const accessibility = step.accessibility?.length
+      ? `<div class="muted"><b>Accessibility</b>:<ul class="diff">${formatViolations(step.accessibility).map(v => `<li>${esc(v)}</li>`).join('')}</ul></div>`
+      : '';
+    const changes = step.result.diff ? formatDiffLines(step.result.diff) : [];
+    const changed = !step.result.diff
+      ? ''
+      : changes.length > 0
+        ? `<div class="muted"><b>Changed</b>:<ul class="diff">${changes.map(c => `<li>${esc(c)}</li>`).join('')}</ul></div>`
+        : `<div class="muted"><b>Changed</b>: nothing visible</div>`;
+    const repairs = step.repairs?.length ? `<div class="muted"><b>Repairs</b>: ${esc(step.repairs.map(r => `#${r.attempt} ${r.error}`).join(' | '))}</div>` : '';
+    const downloads = step.downloads?.length
+      ? `<div class="muted"><b>Downloads</b>: ${step.downloads.map(d => (d.error
+        ? `${esc(d.filename)} (failed: ${esc(d.error)})`
+        : `<a href="${artifactsBase}/downloads/${esc(encodeURIComponent(d.filename))}">${esc(d.filename)}</a>`)).join(', ')}</div>`
+      : '';
+    const visionBadge = step.usedVision ? `<span class="badge neutral" title="Viewport screenshot was sent to the model">vision</span>` : '';
     const stepId = `step-${String(step.i)}`;
     const stepPermalink = `${reportPageUrl}#${stepId}`;
 
@@ -151,7 +235,7 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
       <div class="step" id="${esc(stepId)}">
         <div class="stepHeader">
           <div class="stepTitle">Step ${esc(String(step.i))}: <code>${esc(actionText)}</code></div>
-          <span class="badge ${progressClass}">${esc(step.result.progress)}</span>
+          <div class="row">${visionBadge}<span class="badge ${progressClass}">${esc(step.result.progress)}</span></div>
         </div>
         <div class="muted"><a href="${esc(step.url)}" target="_blank" rel="noreferrer">${esc(step.url)}</a></div>
         <div class="muted">${esc(step.result.notes)}</div>
@@ -159,7 +243,7 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
           <a href="#${esc(stepId)}">permalink</a>
           <button class="btn btnSmall" type="button" onclick="copyText('${esc(stepPermalink)}')">copy link</button>
         </div>
-        ${consoleErr}${netErr}${excErr}
+        ${settled}${performance}${accessibility}${changed}${repairs}${downloads}${consoleErr}${netErr}${excErr}
         <div class="row">
           <a href="${screenshotUrl}" target="_blank" rel="noreferrer">Open screenshot</a>
           <img class="thumb" src="${screenshotUrl}" alt="Step ${esc(String(step.i))} screenshot" loading="lazy" />
@@ -168,6 +252,73 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
     `;
   }).join('');
 
+  // Runs still in progress follow the live event stream instead of needing a refresh
+  const isLive = ['pending', 'running', 'paused', 'awaiting_input'].includes(report.status);
+  const liveScript = isLive ? `
+    <script>
+      (function () {
+        var source = new EventSource('/runs/${esc(encodeURIComponent(runId))}/events');
+
+        function el(tag, className, text) {
+          var node = document.createElement(tag);
+          if (className) node.className = className;
+          if (text !== undefined) node.textContent = text;
+          return node;
+        }
+
+        function describeAction(action) {
+          var args = Object.keys(action).filter(function (k) { return k !== 'type'; })
+            .map(function (k) { return JSON.stringify(action[k]); });
+          return action.type + '(' + args.join(', ') + ')';
+        }
+
+        source.addEventListener('status', function (e) {
+          var data = JSON.parse(e.data);
+          var badge = document.getElementById('runStatus');
+          if (badge) badge.textContent = data.status;
+        });
+
+        source.addEventListener('step', function (e) {
+          var step = JSON.parse(e.data).step;
+          if (document.getElementById('step-' + step.i)) return;
+          var empty = document.getElementById('noSteps');
+          if (empty) empty.remove();
+
+          var card = el('div', 'step');
+          card.id = 'step-' + step.i;
+          var header = el('div', 'stepHeader');
+          var title = el('div', 'stepTitle', 'Step ' + step.i + ': ');
+          title.appendChild(el('code', '', describeAction(step.action)));
+          header.appendChild(title);
+          header.appendChild(el('span', 'badge p-' + step.result.progress, step.result.progress));
+          card.appendChild(header);
+          card.appendChild(el('div', 'muted', step.url));
+          card.appendChild(el('div', 'muted', step.result.notes));
+          var img = el('img', 'thumb');
+          img.src = step.screenshotUrl;
+          img.alt = 'Step ' + step.i + ' screenshot';
+          card.appendChild(img);
+          document.getElementById('steps').appendChild(card);
+        });
+
+        source.addEventListener('finding', function (e) {
+          var finding = JSON.parse(e.data).finding;
+          var card = el('div', 'card');
+          card.appendChild(el('span', 'badge ' + finding.severity, finding.severity));
+          card.appendChild(el('div', 'title', finding.title));
+          card.appendChild(el('div', 'muted', finding.details));
+          document.getElementById('findings').appendChild(card);
+        });
+
+        source.addEventListener('complete', function () {
+          source.close();
+          // Reload for the full report (metrics, video, trace)
+          window.location.reload();
+        });
+      })();
+    </script>
+  ` : '';
+
   const issueHelp = `
     <div class="card">
       <div class="title">Create a GitHub issue</div>
@@ -242,6 +393,7 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
       code { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace; font-size: 12px; }
       .thumb { width: 220px; max-width: 100%; border-radius: 10px; border: 1px solid var(--border); margin-left: 8px; }
       .err { margin-top: 6px; color: #ffb4ab; }
+      .diff { margin: 4px 0 0; padding-left: 18px; }
     </style>
   </head>
   <body>
@@ -251,7 +403,7 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
           <div class="title">Cold Agent Report</div>
           <div class="muted">Run <code>${esc(runId)}</code></div>
         </div>
-        <span class="badge ${esc(statusClass)}">${esc(report.status)}</span>
+        <div class="row">${mode ? `<span class="badge neutral">${esc(mode.badge)}</span>` : ''}${isLive ? '<span class="badge neutral">live</span>' : ''}<span id="runStatus" class="badge ${esc(statusClass)}">${esc(report.status)}</span></div>
       </div>
 
       <div class="panel section">
@@ -264,6 +416,8 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
         <div class="row">
           <span class="muted">Reason:</span> <span>${esc(report.summary?.reason ?? '(none)')}</span>
         </div>
+        ${report.llm ? `<div class="row"><span class="muted">Model:</span> <span>${esc(formatLlm(report.llm))}</span></div>` : ''}
+        ${mode ? `<div class="row"><span class="muted">Mode:</span> <span>${esc(mode.description)}</span></div>` : ''}
         <div class="row" style="margin-top: 10px;">
           ${stepsJsonLink}
           ${traceLink}
@@ -281,9 +435,11 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
         <div style="margin-top: 10px;">${metricsHtml}</div>
       </div>
 
+      ${readingHtml}
+
       <div class="panel section">
         <div class="title">Findings</div>
-        <div style="margin-top: 10px; display: grid; grid-template-columns: 1fr; gap: 10px;">
+        <div id="findings" style="margin-top: 10px; display: grid; grid-template-columns: 1fr; gap: 10px;">
           ${findingsHtml || '<div class="muted">No findings.</div>'}
         </div>
       </div>
@@ -291,8 +447,8 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
       <div class="panel section">
         <div class="title">Steps</div>
         <div class="muted" style="margin-top: 6px;">Each step shows the chosen action, perceived progress, and evidence.</div>
-        <div class="steps" style="margin-top: 10px;">
-          ${stepsHtml || '<div class="muted">No steps captured yet.</div>'}
+        <div id="steps" class="steps" style="margin-top: 10px;">
+          ${stepsHtml || '<div class="muted" id="noSteps">No steps captured yet.</div>'}
         </div>
       </div>
 
@@ -352,7 +508,7 @@ function renderHtml(baseUrl: string, report: RunReport, steps: StepLog[]): strin
           if (btn) btn.disabled = false;
         }
       }
-    </script>
+    </script>${liveScript}
   </body>
 </html>`;
 }
@@ -382,11 +538,78 @@ function formatAction(action: any): string {
       return 'openHelp()';
     case 'done':
       return `done("${String(action.reason ?? 'Task completed')}")`;
+    case 'askHuman':
+      return `askHuman("${String(action.question ?? '')}")`;
+    case 'press':
+      return action.target
+        ? `press("${String(action.key ?? '')}", "${String(action.target)}")`
+        : `press("${String(action.key ?? '')}")`;
+    case 'hover':
+    case 'check':
+    case 'uncheck':
+    case 'focus':
+      return `${action.type}("${String(action.target ?? '')}")`;
+    case 'switchTab':
+      return `switchTab("${String(action.tab ?? '')}")`;
+    case 'closeTab':
+      return action.tab ? `closeTab("${String(action.tab)}")` : 'closeTab()';
+    case 'upload':
+      return `upload("${String(action.target ?? '')}", "${String(action.fixture ?? '')}")`;
+    case 'acceptDialog':
+      return action.text !== undefined ? `acceptDialog("${String(action.text)}")` : 'acceptDialog()';
+    case 'dismissDialog':
+      return 'dismissDialog()';
     default:
       return `${String(action.type ?? 'unknown')}()`;
   }
 }
 
+function formatLlm(llm: NonNullable<RunReport['llm']>): string {
+  return llm.model ? `${llm.provider} / ${llm.model}` : `${llm.provider} (default model)`;
+}
+
+function formatSettle(timing: SettleTiming): string {
+  const seconds = (timing.ms / 1000).toFixed(1);
+  if (!timing.timedOut) return `settled in ${seconds}s`;
+  return `still busy after ${seconds}s${timing.waitingOn?.length ? ` (${timing.waitingOn.join(', ')})` : ''}`;
+}
+
+// Only what's worth reading: a quiet step with nothing fetched prints nothing
+function formatPerformance(perf: StepPerformance): string {
+  const parts: string[] = [];
+  if (perf.navigation) {
+    const lcp = perf.navigation.lcpMs !== undefined ? `, LCP ${(perf.navigation.lcpMs / 1000).toFixed(1)}s` : '';
+    parts.push(`page load TTFB ${perf.navigation.ttfbMs}ms${lcp}`);
+  }
+  if (perf.cls > 0) parts.push(`CLS ${perf.cls}`);
+  if (perf.longTasks > 0) parts.push(`${perf.longTasks} long task${perf.longTasks === 1 ? '' : 's'} (${perf.blockingMs}ms blocking)`);
+  if (perf.transferBytes > 0) parts.push(formatBytes(perf.transferBytes));
+  return parts.join(', ');
+}
+
+function formatReadingSummary(summary: ReadingOrderSummary): string {
+  const pages = `${summary.pages} page${summary.pages === 1 ? '' : 's'}`;
+  if (summary.problems.length === 0) return `Read ${pages} as a screen reader. No reading problems found.`;
+  const total = summary.problems.reduce((sum, problem) => sum + problem.count, 0);
+  return `Read ${pages} as a screen reader and found ${total} reading problem${total === 1 ? '' : 's'}:`;
+}
+
+function formatViolations(violations: A11yViolation[]): string[] {
+  const lines = violations.slice(0, 5).map(v => `${v.message}${v.target ? `: ${v.target}` : ''}`);
+  if (violations.length > 5) lines.push(`and ${violations.length - 5} more`);
+  return lines;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+  if (bytes >= 1000) return `${Math.round(bytes / 1000)} kB`;
+  return `${bytes} B`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 function escapeHtml(input: string): string {
   return input
     .replaceAll('&', '&amp;')
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { Page } from 'playwright';
+import { auditAccessibility, runA11yRules } from '../accessibility.js';
+import type { A11yFacts } from '../accessibility.js';
+
+function facts(overrides: Partial<A11yFacts> = {}): A11yFacts {
+  return {
+    unnamedButtons: [],
+    unnamedLinks: [],
+    unlabelledFields: [],
+    headings: [{ level: 1, text: 'Account' }, { level: 2, text: 'Profile' }],
+    landmarks: ['banner', 'navigation', 'main'],
+    links: [],
+    ...overrides,
+  };
+}
+
+describe('runA11yRules', () => {
+  it('passes a well-formed page', () => {
+    expect(runA11yRules(facts())).toEqual([]);
+  });
+
+  it('flags controls without names', () => {
+    const violations = runA11yRules(facts({
+      unnamedButtons: ['<button class="icon-close">'],
+      unnamedLinks: ['<a href="/cart">'],
+      unlabelledFields: [{ element: '<input type="email">', placeholder: 'Email' }, { element: '<select name="size">' }],
+    }));
+    expect(violations).toEqual([
+      { rule: 'button-name', message: 'Button has no accessible name', target: '<button class="icon-close">' },
+      { rule: 'link-name', message: 'Link has no accessible name', target: '<a href="/cart">' },
+      { rule: 'label', message: 'Form field is labelled only by its placeholder ("Email")', target: '<input type="email">' },
+      { rule: 'label', message: 'Form field has no label', target: '<select name="size">' },
+    ]);
+  });
+
+  it('flags heading levels that skip deeper, not ones that step back up', () => {
+    const violations = runA11yRules(facts({
+      headings: [{ level: 1, text: 'Shop' }, { level: 3, text: 'Filters' }, { level: 2, text: 'Results' }, { level: 3, text: 'Shoes' }],
+    }));
+    expect(violations).toEqual([
+      { rule: 'heading-order', message: 'Heading level jumps from h1 to h3', target: 'h3 "Filters"' },
+    ]);
+  });
+
+  it('flags a missing main landmark', () => {
+    expect(runA11yRules(facts({ landmarks: ['navigation'] })).map(v => v.rule)).toEqual(['landmark-main']);
+    expect(runA11yRules(facts({ landmarks: [] }))[0].message).toContain('no landmarks');
+  });
+
+  it('flags one link text used for different destinations', () => {
+    const violations = runA11yRules(facts({
+      links: [
+        { name: 'Learn more', href: 'https://example.com/teams' },
+        { name: 'learn more', href: 'https://example.com/billing' },
+        { name: 'Pricing', href: 'https://example.com/pricing' },
+        { name: 'Pricing', href: 'https://example.com/pricing' },
+      ],
+    }));
+    expect(violations).toEqual([
+      { rule: 'duplicate-link-name', message: '2 links named "Learn more" go to different pages', target: 'link "Learn more"' },
+    ]);
+  });
+
+  it('reports a focus trap found by the Tab probe', () => {
+    const violations = runA11yRules(facts({ focusTrap: ['<button "Accept cookies">', '<a "Settings">'] }));
+    expect(violations).toEqual([{
+      rule: 'focus-trap',
+      message: 'Tab cycles through 2 elements and never reaches the rest of the page',
+      target: '<button "Accept cookies">',
+    }]);
+  });
+});
+
+describe('auditAccessibility', () => {
+  it('stops the focus trap probe before its next Tab press once aborted, leaving focus alone', async () => {
+    const controller = new AbortController();
+    const presses: string[] = [];
+    const restores: unknown[] = [];
+    let probeCalls = 0;
+    const page = {
+      evaluate: async (_fn: unknown, arg?: unknown) => {
+        if (arg && typeof arg === 'object') return facts();  // collecting facts
+        if (typeof arg === 'boolean') {
+          restores.push(arg);
+          return undefined;
+        }
+        probeCalls++;
+        // First the number of focusable elements, then what each Tab focused
+        return probeCalls === 1 ? 20 : { id: probeCalls, element: `<a "Link ${probeCalls}">`, inModal: false };
+      },
+      keyboard: {
+        press: async (key: string) => {
+          presses.push(key);
+          if (presses.length === 2) controller.abort();
+        },
+      },
+    } as unknown as Page;
+
+    const violations = await auditAccessibility(page, { focusTrapProbe: true, signal: controller.signal });
+    expect(violations).toEqual([]);
+    expect(presses).toEqual(['Tab', 'Tab']);
+    expect(restores).toEqual([true]);
+  });
+});
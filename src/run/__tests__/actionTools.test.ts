@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { actionFromToolCall, checkKeyboardAction, checkScreenReaderAction, getActionToolDefinitions, isDestructiveAction, normalizeAction, normalizeKeyCombo, validateActionTarget } from '../actionTools.js';
+
+describe('getActionToolDefinitions', () => {
+  it('exposes one tool per action type with an object schema', () => {
+    const tools = getActionToolDefinitions();
+    expect(tools.map(t => t.name)).toEqual(
+      expect.arrayContaining(['click', 'fill', 'select', 'scroll', 'back', 'wait', 'search', 'openHelp', 'done'])
+    );
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.inputSchema.properties).toHaveProperty('thinking');
+    }
+  });
+});
+
+describe('getActionToolDefinitions askHuman', () => {
+  it('only offers askHuman when an operator is available', () => {
+    expect(getActionToolDefinitions().map(t => t.name)).not.toContain('askHuman');
+    expect(getActionToolDefinitions({ canAskHuman: true }).map(t => t.name)).toContain('askHuman');
+  });
+});
+
+describe('getActionToolDefinitions upload', () => {
+  it('only offers upload when the run has fixtures, and lists them', () => {
+    expect(getActionToolDefinitions().map(t => t.name)).not.toContain('upload');
+    const upload = getActionToolDefinitions({ uploadFixtures: ['avatar.png'] }).find(t => t.name === 'upload');
+    expect(upload?.inputSchema.properties.fixture).toMatchObject({ enum: ['avatar.png'] });
+  });
+});
+
+describe('getActionToolDefinitions dialogs', () => {
+  it('only offers the dialog actions while a dialog is open', () => {
+    expect(getActionToolDefinitions().map(t => t.name)).not.toContain('acceptDialog');
+    expect(getActionToolDefinitions({ hasDialog: true }).map(t => t.name)).toEqual(
+      expect.arrayContaining(['acceptDialog', 'dismissDialog'])
+    );
+  });
+});
+
+describe('getActionToolDefinitions keyboard-only', () => {
+  it('offers only keyboard actions, with press limited to navigation keys', () => {
+    const tools = getActionToolDefinitions({ keyboardOnly: true });
+    expect(tools.map(t => t.name)).toEqual(['fill', 'back', 'wait', 'press', 'switchTab', 'closeTab', 'done']);
+    const press = tools.find(t => t.name === 'press')!;
+    expect((press.inputSchema.properties.key as { enum: string[] }).enum).toContain('Shift+Tab');
+    expect(press.inputSchema.properties).not.toHaveProperty('target');
+  });
+});
+
+describe('getActionToolDefinitions screen-reader', () => {
+  it('leaves out actions that need to see the page', () => {
+    const names = getActionToolDefinitions({ screenReader: true }).map(t => t.name);
+    expect(names).not.toContain('scroll');
+    expect(names).not.toContain('hover');
+    expect(names).toEqual(expect.arrayContaining(['click', 'fill', 'press', 'done']));
+  });
+});
+
+describe('actionFromToolCall', () => {
+  it('converts a tool call into an AgentAction', () => {
+    const action = actionFromToolCall({ name: 'fill', input: { target: 'tex_1', value: 'hello', thinking: 'x' } });
+    expect(action).toEqual({ type: 'fill', target: 'tex_1', value: 'hello' });
+  });
+
+  it('defaults missing done evidence to an empty list', () => {
+    const action = actionFromToolCall({ name: 'done', input: { reason: 'Found it' } });
+    expect(action).toEqual({ type: 'done', reason: 'Found it', evidenceSteps: [] });
+  });
+
+  it('rejects unknown tools', () => {
+    expect(() => actionFromToolCall({ name: 'teleport', input: {} })).toThrow('Unknown action type');
+  });
+});
+
+describe('normalizeAction', () => {
+  it('accepts property aliases', () => {
+    expect(normalizeAction({ type: 'click', ref: 'btn_1' })).toEqual({ type: 'click', target: 'btn_1' });
+    expect(normalizeAction({ type: 'search', term: 'pricing' })).toEqual({ type: 'search', query: 'pricing' });
+  });
+
+  it('accepts askHuman questions and rejects empty ones', () => {
+    expect(normalizeAction({ type: 'askHuman', message: 'Where is billing?' })).toEqual({ type: 'askHuman', question: 'Where is billing?' });
+    expect(() => normalizeAction({ type: 'askHuman' })).toThrow('missing question');
+  });
+
+  it('normalizes press, hover, check, uncheck and focus actions', () => {
+    expect(normalizeAction({ type: 'press', key: 'esc' })).toEqual({ type: 'press', key: 'Escape' });
+    expect(normalizeAction({ type: 'press', keys: 'ctrl+k', target: 'tex_1' })).toEqual({ type: 'press', key: 'Control+k', target: 'tex_1' });
+    expect(normalizeAction({ type: 'hover', element: 'Products' })).toEqual({ type: 'hover', target: 'Products' });
+    expect(normalizeAction({ type: 'check', label: 'Remember me' })).toEqual({ type: 'check', target: 'Remember me' });
+    expect(normalizeAction({ type: 'uncheck', ref: 'che_1' })).toEqual({ type: 'uncheck', target: 'che_1' });
+    expect(normalizeAction({ type: 'focus', target: 'Email' })).toEqual({ type: 'focus', target: 'Email' });
+    expect(() => normalizeAction({ type: 'hover' })).toThrow('missing target');
+  });
+
+  it('normalizes switchTab and closeTab actions', () => {
+    expect(normalizeAction({ type: 'switchTab', id: 'tab2' })).toEqual({ type: 'switchTab', tab: 'tab2' });
+    expect(normalizeAction({ type: 'closeTab' })).toEqual({ type: 'closeTab' });
+    expect(normalizeAction({ type: 'closeTab', tab: 'tab3' })).toEqual({ type: 'closeTab', tab: 'tab3' });
+    expect(() => normalizeAction({ type: 'switchTab' })).toThrow('missing tab');
+  });
+
+  it('normalizes upload actions', () => {
+    expect(normalizeAction({ type: 'upload', target: 'Choose photo', file: 'avatar.png' })).toEqual({ type: 'upload', target: 'Choose photo', fixture: 'avatar.png' });
+    expect(() => normalizeAction({ type: 'upload', target: 'Choose photo' })).toThrow('missing target/fixture');
+  });
+
+  it('normalizes dialog answers', () => {
+    expect(normalizeAction({ type: 'acceptDialog' })).toEqual({ type: 'acceptDialog' });
+    expect(normalizeAction({ type: 'acceptDialog', answer: 'Acme' })).toEqual({ type: 'acceptDialog', text: 'Acme' });
+    expect(normalizeAction({ type: 'dismissDialog', reason: 'no' })).toEqual({ type: 'dismissDialog' });
+  });
+
+  it('clamps wait durations', () => {
+    expect(normalizeAction({ type: 'wait', ms: 60000 })).toEqual({ type: 'wait', ms: 5000 });
+  });
+});
+
+describe('normalizeKeyCombo', () => {
+  it('maps common spellings to Playwright key names', () => {
+    expect(normalizeKeyCombo('Shift + Tab')).toBe('Shift+Tab');
+    expect(normalizeKeyCombo('cmd+shift+p')).toBe('Meta+Shift+p');
+    expect(normalizeKeyCombo('arrowdown')).toBe('ArrowDown');
+    expect(normalizeKeyCombo('Control++')).toBe('Control++');
+  });
+
+  it('rejects unknown keys and non-modifier combos', () => {
+    expect(() => normalizeKeyCombo('Hyper+K')).toThrow('Unknown key');
+    expect(() => normalizeKeyCombo('a+b')).toThrow('Only Control');
+  });
+});
+
+describe('validateActionTarget', () => {
+  const snapshot = {
+    type: 'a11y' as const,
+    url: 'https://example.com/',
+    title: 'Home',
+    headings: [],
+    navLinks: [],
+    interactiveElements: [{ ref: 'btn_k3x9a', role: 'button', name: 'Save' }],
+    text: '',
+    hasSearchBox: false,
+    hasHelpLink: false,
+  };
+
+  it('accepts refs present in the snapshot and plain-text targets', () => {
+    expect(validateActionTarget({ type: 'click', target: 'btn_k3x9a' }, snapshot)).toBeNull();
+    expect(validateActionTarget({ type: 'click', target: 'Contact us' }, snapshot)).toBeNull();
+  });
+
+  it('rejects refs missing from the snapshot', () => {
+    expect(validateActionTarget({ type: 'fill', target: 'tex_00000', value: 'x' }, snapshot)).toContain('not a ref');
+    expect(validateActionTarget({ type: 'check', target: 'che_00000' }, snapshot)).toContain('not a ref');
+    expect(validateActionTarget({ type: 'press', key: 'Enter', target: 'btn_00000' }, snapshot)).toContain('not a ref');
+  });
+
+  it('ignores press actions without a target', () => {
+    expect(validateActionTarget({ type: 'press', key: 'Escape' }, snapshot)).toBeNull();
+  });
+});
+
+describe('checkKeyboardAction', () => {
+  const snapshot = (focused?: { role: string; name: string }) => ({
+    type: 'a11y' as const,
+    url: 'https://example.com/',
+    title: 'Home',
+    headings: [],
+    navLinks: [],
+    interactiveElements: [],
+    keyboard: { focused: focused && { ...focused, element: '<input>' }, tabOrder: [], unreachable: [] },
+    text: '',
+    hasSearchBox: false,
+    hasHelpLink: false,
+  });
+
+  it('allows navigation keys on the focused element', () => {
+    expect(checkKeyboardAction({ type: 'press', key: 'Shift+Tab' }, snapshot())).toBeNull();
+    expect(checkKeyboardAction({ type: 'press', key: 'Space' }, snapshot())).toBeNull();
+    expect(checkKeyboardAction({ type: 'back' }, snapshot())).toBeNull();
+  });
+
+  it('rejects pointer actions, other keys and targeted presses', () => {
+    expect(checkKeyboardAction({ type: 'click', target: 'Save' }, snapshot())).toContain('not available in keyboard-only mode');
+    expect(checkKeyboardAction({ type: 'press', key: 'Escape' }, snapshot())).toContain('Key "Escape"');
+    expect(checkKeyboardAction({ type: 'press', key: 'Tab', target: 'btn_k3x9a' }, snapshot())).toContain('without a target');
+  });
+
+  it('only fills a focused text field', () => {
+    const fill = { type: 'fill' as const, target: 'Email', value: 'a@example.com' };
+    expect(checkKeyboardAction(fill, snapshot({ role: 'textbox', name: 'Email' }))).toBeNull();
+    expect(checkKeyboardAction(fill, snapshot({ role: 'button', name: 'Save' }))).toContain('focus is on button "Save"');
+    expect(checkKeyboardAction(fill, snapshot())).toContain('focus is on the page');
+  });
+});
+
+describe('checkScreenReaderAction', () => {
+  it('rejects scrolling and hovering', () => {
+    expect(checkScreenReaderAction({ type: 'scroll', direction: 'down' })).toContain('not available in screen-reader mode');
+    expect(checkScreenReaderAction({ type: 'click', target: 'btn_k3x9a' })).toBeNull();
+  });
+});
+
+describe('isDestructiveAction', () => {
+  const snapshot = {
+    type: 'a11y' as const,
+    url: 'https://example.com/settings',
+    title: 'Settings',
+    headings: [],
+    navLinks: [],
+    interactiveElements: [{ ref: 'btn_k3x9a', role: 'button', name: 'Delete account' }],
+    refTable: { btn_k3x9a: { framePath: [], css: 'button.danger', role: 'button', name: 'Delete account', nth: 0 } },
+    text: '',
+    hasSearchBox: false,
+    hasHelpLink: false,
+  };
+
+  it('checks refs by the name of the element they point at', () => {
+    expect(isDestructiveAction({ type: 'click', target: 'btn_k3x9a' }, snapshot, 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Enter', target: 'btn_k3x9a' }, snapshot, 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Space', target: 'btn_k3x9a' }, snapshot, 'Update my email')).toBe(true);
+  });
+
+  it('checks the focused element when a keyboard run presses Enter or Space', () => {
+    const focusedOn = (name: string) => ({
+      ...snapshot,
+      keyboard: { focused: { role: 'button', name, element: '<button>' }, tabOrder: [], unreachable: [] },
+    });
+    expect(isDestructiveAction({ type: 'press', key: 'Enter' }, focusedOn('Delete account'), 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Space' }, focusedOn('Delete account'), 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Tab' }, focusedOn('Delete account'), 'Update my email')).toBe(false);
+    expect(isDestructiveAction({ type: 'press', key: 'Enter' }, focusedOn('Save'), 'Update my email')).toBe(false);
+  });
+
+  it('checks the focused element when a standard run presses Enter or Space without a target', () => {
+    const focused = {
+      ...snapshot,
+      interactiveElements: [{ ref: 'btn_k3x9a', role: 'button', name: 'Delete account', focused: true }],
+    };
+    expect(isDestructiveAction({ type: 'press', key: 'Enter' }, focused, 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Control+Enter' }, focused, 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: ' ' }, focused, 'Update my email')).toBe(true);
+    expect(isDestructiveAction({ type: 'press', key: 'Enter' }, snapshot, 'Update my email')).toBe(false);
+  });
+
+  it('allows keys that activate nothing and actions the goal asks for', () => {
+    expect(isDestructiveAction({ type: 'press', key: 'Tab', target: 'btn_k3x9a' }, snapshot, 'Update my email')).toBe(false);
+    expect(isDestructiveAction({ type: 'focus', target: 'btn_k3x9a' }, snapshot, 'Update my email')).toBe(false);
+    expect(isDestructiveAction({ type: 'click', target: 'btn_k3x9a' }, snapshot, 'Delete my account')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parseCopyReview, reviewCopy } from '../copyReview.js';
+import { createScriptedProvider } from '../../llm/scriptedProvider.js';
+import { promptText } from '../../llm/prompt.js';
+import type { PageSnapshot, StepLog } from '../../types.js';
+
+function makeStep(i: number, snapshot: Partial<PageSnapshot>): StepLog {
+  const full: PageSnapshot = {
+    type: 'a11y',
+    url: `https://example.com/page${i}`,
+    title: `Page ${i}`,
+    headings: [],
+    navLinks: [],
+    interactiveElements: [],
+    text: '',
+    hasSearchBox: false,
+    hasHelpLink: false,
+    ...snapshot,
+  };
+  return {
+    i,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString(),
+    url: full.url,
+    pageTitle: full.title,
+    snapshot: full,
+    action: { type: 'scroll', direction: 'down' },
+    result: { ok: true, notes: '', progress: 'some' },
+    evidence: { screenshot: `screens/step${String(i).padStart(3, '0')}.png` },
+    errors: { console: [], network: [], exception: null },
+  };
+}
+
+const steps = [
+  makeStep(0, {
+    headings: ['Your workspaces'],
+    interactiveElements: [
+      { ref: 'btn_a', role: 'button', name: 'Provision tenant' },
+      { ref: 'lin_b', role: 'link', name: 'Click here' },
+    ],
+  }),
+  makeStep(1, {
+    headings: ['Your workspaces'],
+    interactiveElements: [{ ref: 'lin_b', role: 'link', name: 'Click here' }],
+  }),
+  makeStep(2, {
+    headings: ['New project'],
+    interactiveElements: [{ ref: 'btn_c', role: 'button', name: 'Create project' }],
+    content: [{ kind: 'alert', text: 'Error: E_VALIDATION_422' }],
+  }),
+];
+
+describe('reviewCopy', () => {
+  it('lists each piece of text once, under the step that first showed it', async () => {
+    const provider = createScriptedProvider([JSON.stringify({ issues: [] })]);
+    await reviewCopy(steps, { provider, model: 'claude-test-model' });
+
+    const prompt = promptText(provider.prompts[0]);
+    expect(prompt).toContain('Step 0: Page 0 (https://example.com/page0)');
+    expect(prompt).toContain('Controls: button "Provision tenant", link "Click here"');
+    expect(prompt).not.toContain('Step 1:');
+    expect(prompt).toContain('Messages: "Error: E_VALIDATION_422"');
+    expect(provider.models).toEqual(['claude-test-model']);
+  });
+
+  it('turns issues into copy findings citing the step they came from', async () => {
+    const provider = createScriptedProvider([JSON.stringify({
+      issues: [
+        { kind: 'error_copy', step: 2, text: 'E_VALIDATION_422', problem: 'The error code says nothing about what to fix.', suggestion: 'Name the field that is wrong.', severity: 'high' },
+        { kind: 'vague_cta', step: 1, text: 'Click here', problem: 'The link does not say where it goes.', severity: 'med' },
+        { kind: 'inconsistent', step: 2, text: 'project', problem: 'Step 0 calls these workspaces.', severity: 'med' },
+        { kind: 'jargon', step: 0, text: 'Quantum flux', problem: 'Never shown.', severity: 'low' },
+      ],
+    })]);
+
+    const findings = await reviewCopy(steps, { provider });
+    expect(findings).toEqual([
+      {
+        type: 'copy',
+        severity: 'high',
+        title: 'Unhelpful error message: "E_VALIDATION_422"',
+        details: 'The error code says nothing about what to fix. Suggestion: Name the field that is wrong.',
+        evidence: { step: 2, screenshot: 'screens/step002.png' },
+      },
+      // Step 1 didn't list the link, so it's attributed to the step that did
+      expect.objectContaining({ title: 'Vague call to action: "Click here"', evidence: { step: 0, screenshot: 'screens/step000.png' } }),
+      expect.objectContaining({ title: 'Inconsistent naming: "project"', evidence: { step: 2, screenshot: 'screens/step002.png' } }),
+    ]);
+  });
+
+  it('skips the model when there is no text to review', async () => {
+    const provider = createScriptedProvider([]);
+    expect(await reviewCopy([makeStep(0, {})], { provider })).toEqual([]);
+    expect(provider.prompts).toHaveLength(0);
+  });
+});
+
+describe('parseCopyReview', () => {
+  it('keeps well-formed issues and drops malformed ones', () => {
+    const text = '```json\n{"issues": [{"kind": "jargon", "step": "3", "text": "SKU", "problem": "Unexplained", "severity": "urgent"}, {"kind": "tone"}]}\n```';
+    expect(parseCopyReview(text)).toEqual([
+      { kind: 'jargon', step: 3, text: 'SKU', problem: 'Unexplained', severity: 'low' },
+    ]);
+  });
+
+  it('rejects replies without JSON', () => {
+    expect(() => parseCopyReview('The copy looks fine.')).toThrow('No JSON found in copy review');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { abortable, BudgetExceededError, createRunDeadline, isBudgetExceeded } from '../deadline.js';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe('createRunDeadline', () => {
+  it('aborts with a BudgetExceededError once the budget runs out', async () => {
+    const deadline = createRunDeadline(0.0005);  // 30ms
+    expect(deadline.signal.aborted).toBe(false);
+
+    await sleep(60);
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.signal.reason).toBeInstanceOf(BudgetExceededError);
+    expect(isBudgetExceeded(deadline.signal)).toBe(true);
+    expect(deadline.remainingMs()).toBe(0);
+  });
+
+  it('stops the clock while paused', async () => {
+    const deadline = createRunDeadline(0.001);  // 60ms
+    deadline.pause();
+    const before = deadline.remainingMs();
+
+    await sleep(90);
+    expect(deadline.signal.aborted).toBe(false);
+    expect(deadline.remainingMs()).toBe(before);
+
+    deadline.resume();
+    await sleep(90);
+    expect(deadline.signal.aborted).toBe(true);
+  });
+
+  it('never fires after dispose', async () => {
+    const deadline = createRunDeadline(0.0005);
+    deadline.dispose();
+    await sleep(60);
+    expect(deadline.signal.aborted).toBe(false);
+  });
+});
+
+describe('isBudgetExceeded', () => {
+  it('is false for a plain cancel', () => {
+    const controller = new AbortController();
+    controller.abort('Run cancelled');
+    expect(isBudgetExceeded(controller.signal)).toBe(false);
+    expect(isBudgetExceeded(undefined)).toBe(false);
+  });
+});
+
+describe('abortable', () => {
+  it('rejects with the abort reason without waiting for the work', async () => {
+    const controller = new AbortController();
+    const never = new Promise<string>(() => {});
+    const pending = abortable(never, controller.signal);
+
+    controller.abort(new BudgetExceededError('Time budget exhausted (5 minutes)'));
+    await expect(pending).rejects.toThrow('Time budget exhausted (5 minutes)');
+  });
+
+  it('passes results through when the signal never fires', async () => {
+    const controller = new AbortController();
+    await expect(abortable(Promise.resolve(42), controller.signal)).resolves.toBe(42);
+  });
+});
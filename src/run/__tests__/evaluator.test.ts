@@ -0,0 +1,315 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRun, identifyLiveFindings } from '../evaluator.js';
+import type { AgentLoopResult } from '../agentLoop.js';
+import type { AgentAction, FocusStop, KeyboardState, ReadingProblem, RunCreateRequest, StepLog, StepPerformance } from '../../types.js';
+import { RunCreateRequestSchema } from '../../types.js';
+
+function makeStep(i: number, url: string, performance?: StepPerformance): StepLog {
+  return {
+    i,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString(),
+    url,
+    pageTitle: `Page ${i}`,
+    snapshot: {
+      type: 'a11y',
+      url,
+      title: `Page ${i}`,
+      headings: [`Heading ${i}`],
+      navLinks: [],
+      interactiveElements: [],
+      text: '',
+      hasSearchBox: false,
+      hasHelpLink: false,
+    },
+    action: { type: 'scroll', direction: 'down' },
+    result: { ok: true, notes: '', progress: 'some' },
+    evidence: { screenshot: `screens/step${String(i).padStart(3, '0')}.png` },
+    errors: { console: [], network: [], exception: null },
+    performance,
+  };
+}
+
+function load(url: string, ttfbMs: number, lcpMs: number) {
+  return { url, ttfbMs, domContentLoadedMs: ttfbMs + 200, lcpMs };
+}
+
+function evaluate(steps: StepLog[], options: Record<string, unknown> = {}) {
+  const config: RunCreateRequest = RunCreateRequestSchema.parse({ baseUrl: 'https://example.com', goal: 'Look around', options });
+  const result: AgentLoopResult = { steps, finalStatus: 'partial', reason: 'test', completionEvidence: [], llm: { provider: 'claude-cli' } };
+  return evaluateRun('run1', config, result, {});
+}
+
+describe('evaluateRun performance', () => {
+  const steps = [
+    makeStep(0, 'https://example.com/', {
+      navigation: load('https://example.com/', 200, 1200),
+      cls: 0.06, longTasks: 1, blockingMs: 40, transferBytes: 800_000,
+    }),
+    makeStep(1, 'https://example.com/', { cls: 0.07, longTasks: 0, blockingMs: 0, transferBytes: 0 }),
+    makeStep(2, 'https://example.com/search', {
+      navigation: load('https://example.com/search', 1900, 5600),
+      cls: 0, longTasks: 3, blockingMs: 450, transferBytes: 3_400_000,
+    }),
+    makeStep(3, 'https://example.com/search'),
+  ];
+
+  it('aggregates step timing into run metrics', () => {
+    const { metrics } = evaluate(steps);
+    expect(metrics?.performance).toEqual({
+      pageLoads: 2,
+      medianTtfbMs: 1050,
+      maxTtfbMs: 1900,
+      medianLcpMs: 3400,
+      maxLcpMs: 5600,
+      maxCls: 0.13,  // the first page's shifts across steps 0 and 1
+      longTasks: 4,
+      blockingMs: 490,
+      transferBytes: 4_200_000,
+    });
+  });
+
+  it('reports timing over the default thresholds', () => {
+    const findings = evaluate(steps).findings.filter(f => f.type === 'performance');
+    expect(findings.map(f => [f.title, f.severity, f.evidence.step])).toEqual(expect.arrayContaining([
+      ['Slow server response (1 page load over 800ms to first byte)', 'med', 2],
+      ['Slow largest contentful paint (1 page load over 2.5s)', 'med', 2],
+      ['Layout shifts (1 page over CLS 0.1)', 'low', 1],
+      ['Main thread blocked by long tasks (1 step over 300ms)', 'low', 2],
+      ['Heavy page weight (1 step over 3.0 MB)', 'low', 2],
+    ]));
+  });
+
+  it('uses the thresholds configured for the run', () => {
+    const findings = evaluate(steps, {
+      performance: { ttfbMs: 2000, lcpMs: 6000, cls: 0.5, blockingMs: 1000, transferBytes: 5_000_000 },
+    }).findings;
+    expect(findings.filter(f => f.type === 'performance')).toEqual([]);
+  });
+
+  it('leaves performance out of the metrics when the browser reported nothing', () => {
+    const { metrics } = evaluate([makeStep(0, 'https://example.com/')]);
+    expect(metrics?.performance).toBeUndefined();
+  });
+});
+
+describe('evaluateRun copy findings', () => {
+  it('ranks copy findings with the rest and keeps the top seven', () => {
+    const copy = (severity: 'low' | 'high', n: number) => ({
+      type: 'copy' as const,
+      severity,
+      title: `Vague call to action: "Go ${n}"`,
+      details: 'Says nothing about what happens next.',
+      evidence: { step: 0, screenshot: 'screens/step000.png' },
+    });
+    const steps = [makeStep(0, 'https://example.com/', {
+      navigation: load('https://example.com/', 900, 1000),
+      cls: 0, longTasks: 0, blockingMs: 0, transferBytes: 0,
+    })];
+    const config = RunCreateRequestSchema.parse({ baseUrl: 'https://example.com', goal: 'Look around' });
+    const result: AgentLoopResult = { steps, finalStatus: 'partial', reason: 'test', completionEvidence: [], llm: { provider: 'claude-cli' } };
+
+    const { findings } = evaluateRun('run1', config, result, {}, [
+      copy('low', 1), copy('high', 2), copy('low', 3), copy('low', 4), copy('low', 5), copy('low', 6), copy('low', 7),
+    ]);
+    expect(findings).toHaveLength(7);
+    expect(findings[0].title).toBe('Vague call to action: "Go 2"');
+    expect(findings.some(f => f.type === 'performance')).toBe(true);
+    expect(findings.some(f => f.title === 'Vague call to action: "Go 7"')).toBe(false);
+  });
+
+  it('keeps accessibility findings on top of the seven', () => {
+    const copy = (n: number) => ({
+      type: 'copy' as const,
+      severity: 'high' as const,
+      title: `Vague call to action: "Go ${n}"`,
+      details: 'Says nothing about what happens next.',
+      evidence: { step: 0, screenshot: 'screens/step000.png' },
+    });
+    const steps = [{ ...makeStep(0, 'https://example.com/'), accessibility: [{ rule: 'landmark-main' as const, message: 'Page has no main landmark' }] }];
+    const config = RunCreateRequestSchema.parse({ baseUrl: 'https://example.com', goal: 'Look around' });
+    const result: AgentLoopResult = { steps, finalStatus: 'partial', reason: 'test', completionEvidence: [], llm: { provider: 'claude-cli' } };
+
+    const { findings } = evaluateRun('run1', config, result, {}, [1, 2, 3, 4, 5, 6, 7, 8].map(copy));
+    expect(findings).toHaveLength(8);
+    expect(findings.filter(f => f.type === 'copy')).toHaveLength(7);
+    expect(findings[7]).toEqual(expect.objectContaining({ type: 'accessibility', title: 'Pages without a main landmark (1 page)' }));
+  });
+});
+
+describe('evaluateRun validation findings', () => {
+  it('only counts error messages that follow a form action', () => {
+    const step = (i: number, action: AgentAction, notes: string) => ({
+      ...makeStep(i, 'https://example.com/signup'),
+      action,
+      result: { ok: true, notes, progress: 'some' as const },
+    });
+    const scrolled = [step(0, { type: 'scroll', direction: 'down' }, 'alert "Error saving draft"')];
+    expect(evaluate(scrolled).findings.filter(f => f.type === 'validation')).toEqual([]);
+
+    const submitted = [...scrolled, step(1, { type: 'click', target: 'Sign up' }, 'alert "Email: validation failed"')];
+    expect(evaluate(submitted).findings.filter(f => f.type === 'validation')).toEqual([
+      expect.objectContaining({ title: 'Form validation triggered', evidence: expect.objectContaining({ step: 1 }) }),
+    ]);
+  });
+});
+
+describe('identifyLiveFindings', () => {
+  it('finds what the steps so far show, without ranking or capping', () => {
+    const config = RunCreateRequestSchema.parse({ baseUrl: 'https://example.com', goal: 'Look around' });
+    const steps = Array.from({ length: 4 }, (_, i) => ({
+      ...makeStep(i, `https://example.com/page${i}`),
+      errors: { console: ['TypeError: x is undefined'], network: [], exception: null },
+      humanInput: { question: `Where now? (${i})`, reply: null, auto: false },
+    }));
+
+    const findings = identifyLiveFindings(config, steps);
+    expect(findings.filter(f => f.title === 'Agent asked a human for help')).toHaveLength(4);
+    expect(findings).toEqual(expect.arrayContaining([
+      expect.objectContaining({ title: 'Console errors detected (4 total)', evidence: expect.objectContaining({ step: 0 }) }),
+    ]));
+    expect(findings.length).toBeGreaterThan(4);
+  });
+});
+
+describe('evaluateRun accessibility findings', () => {
+  it('reports each violation once per page, one finding per rule', () => {
+    const unnamed = { rule: 'button-name' as const, message: 'Button has no accessible name', target: '<button class="icon-close">' };
+    const noMain = { rule: 'landmark-main' as const, message: 'Page has no main landmark' };
+    const steps = [
+      { ...makeStep(0, 'https://example.com/'), accessibility: [unnamed, noMain] },
+      { ...makeStep(1, 'https://example.com/'), accessibility: [unnamed, noMain] },
+      { ...makeStep(2, 'https://example.com/cart'), accessibility: [unnamed] },
+    ];
+
+    const findings = evaluate(steps).findings.filter(f => f.type === 'accessibility');
+    expect(findings).toEqual([
+      {
+        type: 'accessibility',
+        severity: 'med',
+        title: 'Buttons without accessible names (2 on 2 pages)',
+        details: '<button class="icon-close">: Button has no accessible name (Page 0); <button class="icon-close">: Button has no accessible name (Page 2).',
+        evidence: { step: 0, screenshot: 'screens/step000.png' },
+      },
+      expect.objectContaining({ severity: 'low', title: 'Pages without a main landmark (1 page)' }),
+    ]);
+  });
+});
+
+describe('evaluateRun keyboard findings', () => {
+  const stop = (name: string, extra: Partial<FocusStop> = {}): FocusStop => ({ role: 'link', name, element: `<a href="/${name}">`, ...extra });
+  const tabOrder = ['Home', 'Docs', 'Pricing', 'Blog', 'Chat', 'Close', 'Login', 'Signup'].map(name => stop(name));
+  const keyboardStep = (i: number, keyboard: Partial<KeyboardState>, action: AgentAction = { type: 'press', key: 'Tab' }): StepLog => {
+    const step = makeStep(i, 'https://example.com/');
+    step.snapshot.keyboard = { tabOrder, unreachable: [], ...keyboard };
+    step.action = action;
+    return step;
+  };
+
+  it('reports unreachable controls and invisible focus once per page', () => {
+    const addToCart = stop('Add to cart', { role: 'generic', element: '<div class="card-action">' });
+    const wait: AgentAction = { type: 'wait', ms: 1000 };
+    const steps = [
+      keyboardStep(0, { unreachable: [addToCart], focused: tabOrder[1], focusVisible: false }, wait),
+      keyboardStep(1, { unreachable: [addToCart], focused: tabOrder[2], focusVisible: true }, wait),
+      keyboardStep(2, { unreachable: [addToCart], focused: tabOrder[1], focusVisible: false }, wait),
+    ];
+
+    const findings = evaluate(steps).findings.filter(f => f.type === 'accessibility');
+    expect(findings).toEqual([
+      {
+        type: 'accessibility',
+        severity: 'med',
+        title: 'Controls unreachable by keyboard (1 on 1 page)',
+        details: 'These respond to clicks but Tab never reaches them: generic "Add to cart" (Page 0).',
+        evidence: { step: 0, screenshot: 'screens/step000.png' },
+      },
+      {
+        type: 'accessibility',
+        severity: 'med',
+        title: 'Focus not visible (1 element on 1 page)',
+        details: 'Nothing shows where keyboard focus is on: link "Docs" (Page 0).',
+        evidence: { step: 0, screenshot: 'screens/step000.png' },
+      },
+    ]);
+  });
+
+  it('reports Tab presses that cycle through a small part of the page', () => {
+    const chat = stop('Chat', { role: 'textbox', element: '<textarea>' });
+    const close = stop('Close', { role: 'button', element: '<button>' });
+    const steps = [
+      keyboardStep(0, { focused: tabOrder[3] }),
+      keyboardStep(1, { focused: chat }),
+      keyboardStep(2, { focused: close }),
+      keyboardStep(3, { focused: chat }, { type: 'done', reason: 'Stuck', evidenceSteps: [] }),
+    ];
+
+    const trap = evaluate(steps).findings.find(f => f.title.startsWith('Keyboard focus trap'));
+    expect(trap).toEqual({
+      type: 'accessibility',
+      severity: 'high',
+      title: 'Keyboard focus trap (1 page)',
+      details: 'On Page 3, Tab kept cycling through textbox "Chat", button "Close" and never reached the other 6 tab stops.',
+      evidence: { step: 3, screenshot: 'screens/step003.png' },
+    });
+  });
+
+  it("doesn't count going back and forth or cycling inside a modal", () => {
+    const steps = [
+      keyboardStep(0, { focused: tabOrder[0] }),
+      keyboardStep(1, { focused: tabOrder[1] }, { type: 'press', key: 'Shift+Tab' }),
+      keyboardStep(2, { focused: tabOrder[0] }),
+      keyboardStep(3, { focused: tabOrder[1] }),
+      keyboardStep(4, { focused: stop('OK', { inModal: true }) }),
+      keyboardStep(5, { focused: stop('Cancel', { inModal: true }) }),
+      keyboardStep(6, { focused: stop('OK', { inModal: true }) }),
+    ];
+    expect(evaluate(steps).findings.filter(f => f.type === 'accessibility')).toEqual([]);
+  });
+});
+
+describe('evaluateRun screen-reader findings', () => {
+  const readingStep = (i: number, url: string, problems: ReadingProblem[]): StepLog => {
+    const step = makeStep(i, url);
+    step.snapshot.screenReader = { items: [], problems };
+    return step;
+  };
+  const price: ReadingProblem = { kind: 'visual-order', message: '"$20/month" is read after "Start trial" but shown above it', target: '<p class="price">' };
+  const logo: ReadingProblem = { kind: 'image-alt', message: 'Image has no text alternative', target: '<img src="/logo.png">' };
+  const noHeadings: ReadingProblem = { kind: 'no-headings', message: 'Page has no headings to jump between' };
+
+  it('reports each kind of reading problem once per page and summarizes them', () => {
+    const steps = [
+      readingStep(0, 'https://example.com/pricing', [price, logo]),
+      readingStep(1, 'https://example.com/pricing', [price, logo]),
+      readingStep(2, 'https://example.com/signup', [logo, noHeadings]),
+    ];
+    const report = evaluate(steps, { mode: 'screenReader' });
+
+    expect(report.mode).toBe('screenReader');
+    expect(report.findings.filter(f => f.type === 'accessibility').map(f => [f.title, f.severity, f.evidence.step])).toEqual([
+      ['Reading order differs from the layout (1 on 1 page)', 'med', 0],
+      ['Images without text alternatives (2 on 2 pages)', 'med', 0],
+      ['Pages without headings (1 page)', 'low', 2],
+    ]);
+    expect(report.readingOrder).toEqual({
+      pages: 2,
+      problems: [
+        expect.objectContaining({ kind: 'visual-order', count: 1, pages: 1 }),
+        expect.objectContaining({ kind: 'image-alt', count: 2, pages: 2 }),
+        {
+          kind: 'no-headings',
+          title: 'Pages without headings',
+          count: 1,
+          pages: 1,
+          examples: ['Page has no headings to jump between (Page 2)'],
+        },
+      ],
+    });
+  });
+
+  it('leaves the reading summary out of standard runs', () => {
+    const report = evaluate([makeStep(0, 'https://example.com/')]);
+    expect(report.mode).toBe('standard');
+    expect(report.readingOrder).toBeUndefined();
+  });
+});
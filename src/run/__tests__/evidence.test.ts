@@ -0,0 +1,115 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { createEvidenceCollector } from '../evidence.js';
+
+// Just enough of Playwright's Dialog to record how it was answered
+function fakeDialog(type: string, message: string) {
+  const dialog = {
+    answer: null as string | null,
+    type: () => type,
+    message: () => message,
+    defaultValue: () => '',
+    accept: async (text?: string) => {
+      dialog.answer = `accept${text ? `:${text}` : ''}`;
+    },
+    dismiss: async () => {
+      dialog.answer = 'dismiss';
+    },
+  };
+  return dialog;
+}
+
+describe('createEvidenceCollector dialogs', () => {
+  let artifactsDir: string;
+
+  afterEach(async () => {
+    await fs.rm(artifactsDir, { recursive: true, force: true });
+  });
+
+  async function setup() {
+    artifactsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'));
+    const page = new EventEmitter();
+    const evidence = createEvidenceCollector(artifactsDir);
+    evidence.startCapture(page as unknown as Page);
+    return { page, evidence };
+  }
+
+  it('dismisses dialogs right away unless they are being held', async () => {
+    const { page, evidence } = await setup();
+    const dialog = fakeDialog('alert', 'Welcome back!');
+    page.emit('dialog', dialog);
+
+    expect(dialog.answer).toBe('dismiss');
+    expect(evidence.getPendingDialog()).toBeNull();
+    expect(evidence.takeStepDialogs()).toEqual([expect.objectContaining({ type: 'alert', message: 'Welcome back!' })]);
+    expect(evidence.takeStepDialogs()).toEqual([]);
+  });
+
+  it('holds a dialog open until the agent answers it', async () => {
+    const { page, evidence } = await setup();
+    evidence.holdDialogs(true);
+    const opened = evidence.nextDialog().promise;
+    const dialog = fakeDialog('confirm', 'Sign out of all other devices?');
+    page.emit('dialog', dialog);
+
+    expect(await opened).toEqual({ type: 'confirm', message: 'Sign out of all other devices?' });
+    expect(evidence.getPendingDialog()).toEqual({ type: 'confirm', message: 'Sign out of all other devices?' });
+    expect(dialog.answer).toBeNull();
+
+    await evidence.respondToDialog(true);
+    expect(dialog.answer).toBe('accept');
+    expect(evidence.getPendingDialog()).toBeNull();
+    await expect(evidence.respondToDialog(false)).rejects.toThrow('No dialog is open');
+  });
+
+  it('stops waiting for a dialog once cancelled', async () => {
+    const { page, evidence } = await setup();
+    evidence.holdDialogs(true);
+    const stale = evidence.nextDialog();
+    stale.cancel();
+    let staleResolved = false;
+    void stale.promise.then(() => { staleResolved = true; });
+    const current = evidence.nextDialog().promise;
+    page.emit('dialog', fakeDialog('confirm', 'Discard draft?'));
+
+    expect(await current).toEqual({ type: 'confirm', message: 'Discard draft?' });
+    expect(staleResolved).toBe(false);
+  });
+
+  it('dismisses a held dialog when holding stops', async () => {
+    const { page, evidence } = await setup();
+    evidence.holdDialogs(true);
+    const dialog = fakeDialog('beforeunload', '');
+    page.emit('dialog', dialog);
+
+    evidence.holdDialogs(false);
+    expect(dialog.answer).toBe('dismiss');
+    expect(evidence.getPendingDialog()).toBeNull();
+  });
+});
+
+describe('createEvidenceCollector performance', () => {
+  it('skips reading page timing while a dialog blocks the page', async () => {
+    const artifactsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'evidence-'));
+    try {
+      const timing = { cls: 0.02, longTasks: 0, blockingMs: 0, transferBytes: 5120 };
+      const page = Object.assign(new EventEmitter(), {
+        isClosed: () => false,
+        evaluate: async () => timing,
+      });
+      const evidence = createEvidenceCollector(artifactsDir);
+      evidence.startCapture(page as unknown as Page);
+      expect(await evidence.collectPerformance(page as unknown as Page)).toEqual(timing);
+
+      evidence.holdDialogs(true);
+      page.emit('dialog', fakeDialog('alert', 'Saved'));
+      expect(await evidence.collectPerformance(page as unknown as Page)).toBeUndefined();
+    } finally {
+      await fs.rm(artifactsDir, { recursive: true, force: true });
+    }
+  });
+});
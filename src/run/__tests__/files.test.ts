@@ -0,0 +1,75 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { BrowserContext } from 'playwright';
+import { createDownloadCollector, matchesFilePattern, resolveUploadFixtures } from '../files.js';
+import { FIXTURE_UPLOADS_DIR } from '../../testing/fixtureSite.js';
+
+describe('matchesFilePattern', () => {
+  it('matches globs against the whole name, ignoring case', () => {
+    expect(matchesFilePattern('Invoices-2026.CSV', 'invoices*.csv')).toBe(true);
+    expect(matchesFilePattern('report.csv', 'report.???')).toBe(true);
+    expect(matchesFilePattern('invoices.csv.tmp', 'invoices*.csv')).toBe(false);
+    expect(matchesFilePattern('reportXcsv', 'report.csv')).toBe(false);
+  });
+});
+
+describe('resolveUploadFixtures', () => {
+  it('resolves names to files in the fixtures directory', async () => {
+    const fixtures = await resolveUploadFixtures(['avatar.png'], FIXTURE_UPLOADS_DIR);
+    expect(fixtures).toEqual({ 'avatar.png': path.join(FIXTURE_UPLOADS_DIR, 'avatar.png') });
+  });
+
+  it('rejects missing files and paths outside the directory', async () => {
+    await expect(resolveUploadFixtures(['missing.png'], FIXTURE_UPLOADS_DIR)).rejects.toThrow('not found');
+    await expect(resolveUploadFixtures(['../fixtureSite.ts'], FIXTURE_UPLOADS_DIR)).rejects.toThrow('plain file name');
+  });
+});
+
+describe('createDownloadCollector', () => {
+  let artifactsDir: string;
+
+  afterEach(async () => {
+    await fs.rm(artifactsDir, { recursive: true, force: true });
+  });
+
+  // Just enough of Playwright's Download for the collector
+  function fakeDownload(filename: string, body: string | Error) {
+    return {
+      suggestedFilename: () => filename,
+      url: () => `https://example.com/${filename}`,
+      saveAs: async (dest: string) => {
+        if (body instanceof Error) throw body;
+        await fs.writeFile(dest, body);
+      },
+      cancel: async () => {},
+      failure: async () => (body instanceof Error ? 'canceled' : null),
+    };
+  }
+
+  it('saves downloads from any tab under unique names and attributes them to the step', async () => {
+    artifactsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'downloads-'));
+    const context = new EventEmitter() as EventEmitter & { pages(): EventEmitter[] };
+    const first = new EventEmitter();
+    context.pages = () => [first];
+    const collector = createDownloadCollector(context as unknown as BrowserContext, artifactsDir);
+
+    const popup = new EventEmitter();
+    context.emit('page', popup);
+    first.emit('download', fakeDownload('report.csv', 'a,b\n'));
+    popup.emit('download', fakeDownload('report.csv', 'c,d\n'));
+    first.emit('download', fakeDownload('broken.pdf', new Error('network')));
+
+    const records = await collector.takeStepDownloads(3);
+    expect(records).toEqual([
+      { step: 3, filename: 'report.csv', path: 'artifacts/downloads/report.csv', url: 'https://example.com/report.csv', bytes: 4 },
+      { step: 3, filename: 'report-2.csv', path: 'artifacts/downloads/report-2.csv', url: 'https://example.com/report.csv', bytes: 4 },
+      { step: 3, filename: 'broken.pdf', path: 'artifacts/downloads/broken.pdf', url: 'https://example.com/broken.pdf', error: 'canceled' },
+    ]);
+    expect(await fs.readFile(path.join(artifactsDir, 'downloads', 'report-2.csv'), 'utf-8')).toBe('c,d\n');
+    expect(await collector.takeStepDownloads(4)).toEqual([]);
+    expect(collector.downloads).toHaveLength(3);
+  });
+});
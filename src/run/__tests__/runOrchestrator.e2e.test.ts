@@ -0,0 +1,439 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'vitest';
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import { RunCreateRequestSchema, type RunEvent, type RunReport, type StepLog } from '../../types.js';
+import { createRunOrchestrator } from '../runOrchestrator.js';
+import { startFakeLlmServer, type FakeLlmServer } from '../../testing/fakeLlmServer.js';
+import { FIXTURE_CREDENTIALS, FIXTURE_UPLOADS_DIR, startFixtureSite } from '../../testing/fixtureSite.js';
+import type { LocalServer } from '../../testing/http.js';
+
+/**
+ * Full runs against the bundled fixture site, with the fake LLM server making
+ * every decision. Needs a Playwright Chromium (`npx playwright install chromium`);
+ * skipped when it isn't installed.
+ */
+
+const hasChromium = existsSync(chromium.executablePath());
+const RUN_TIMEOUT_MS = 120_000;
+
+describe.skipIf(!hasChromium)('run orchestrator end to end', () => {
+  const orchestrator = createRunOrchestrator();
+  const runIds: string[] = [];
+  let site: LocalServer;
+  let fake: FakeLlmServer;
+  let previousBaseUrl: string | undefined;
+
+  beforeAll(async () => {
+    site = await startFixtureSite();
+    fake = await startFakeLlmServer();
+    previousBaseUrl = process.env.OPENAI_BASE_URL;
+    process.env.OPENAI_BASE_URL = fake.url;
+  });
+
+  afterAll(async () => {
+    if (previousBaseUrl === undefined) {
+      delete process.env.OPENAI_BASE_URL;
+    } else {
+      process.env.OPENAI_BASE_URL = previousBaseUrl;
+    }
+    await fake.close();
+    await site.close();
+  });
+
+  afterEach(async () => {
+    fake.requests.length = 0;
+    for (const runId of runIds.splice(0)) {
+      await fs.rm(path.join('runs', runId), { recursive: true, force: true });
+    }
+  });
+
+  async function runToCompletion(
+    request: unknown,
+    onEvent?: (event: RunEvent, runId: string) => void
+  ): Promise<{ report: RunReport; steps: StepLog[]; events: RunEvent[] }> {
+    const runId = await orchestrator.startRun(RunCreateRequestSchema.parse(request));
+    runIds.push(runId);
+    const events: RunEvent[] = [];
+    const unsubscribe = orchestrator.subscribe(runId, event => {
+      events.push(event);
+      onEvent?.(event, runId);
+    });
+
+    const deadline = Date.now() + RUN_TIMEOUT_MS;
+    let report: RunReport | null = null;
+    while (Date.now() < deadline) {
+      report = await orchestrator.getRunReport(runId);
+      if (report && !['pending', 'running', 'paused'].includes(report.status)) break;
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+    unsubscribe?.();
+    expect(report?.error).toBeUndefined();
+
+    const runDir = path.join('runs', runId);
+    const saved = JSON.parse(await fs.readFile(path.join(runDir, 'report.json'), 'utf-8')) as RunReport;
+    const steps = JSON.parse(await fs.readFile(path.join(runDir, 'artifacts', 'steps.json'), 'utf-8')) as StepLog[];
+    return { report: saved, steps, events };
+  }
+
+  function fixtureOptions(extra: Record<string, unknown> = {}) {
+    return {
+      recordVideo: false,
+      recordTrace: false,
+      llm: { provider: 'openai-compatible', model: 'fake-model' },
+      ...extra,
+    };
+  }
+
+  test('follows the help center to an answer and declares done', async () => {
+    fake.setScript([
+      { type: 'click', target: 'Help Center' },
+      { type: 'click', target: 'Refund policy' },
+      { type: 'done', reason: 'Refunds are available within 30 days of purchase.', evidenceSteps: [1] },
+    ]);
+
+    const { report, steps, events } = await runToCompletion({
+      baseUrl: site.url,
+      goal: 'Find out how long I have to ask for a refund',
+      budgets: { maxSteps: 6, maxMinutes: 2 },
+      options: fixtureOptions(),
+    });
+
+    expect(report.status).toBe('success');
+    expect(report.summary?.completionEvidence).toEqual(['step:1']);
+    expect(report.llm).toEqual({ provider: 'openai-compatible', model: 'fake-model' });
+    expect(steps.map(s => s.action.type)).toEqual(['click', 'click', 'done']);
+    expect(steps[2].url).toContain('/help/refunds.html');
+    expect(steps[2].snapshot.text).toContain('within 30 days');
+    expect(fake.requests).toHaveLength(3);
+    expect(fake.requests[0].model).toBe('fake-model');
+    expect(report.findings.filter(f => f.type === 'bug')).toEqual([]);
+
+    // Live events mirror the persisted run
+    const stepEvents = events.flatMap(e => (e.type === 'step' ? [e.step] : []));
+    expect(stepEvents.map(s => s.i)).toEqual([0, 1, 2]);
+    expect(stepEvents[0].screenshot).toBe(steps[0].evidence.screenshot);
+    expect(events.filter(e => e.type === 'status').map(e => e.type === 'status' && e.status)).toContain('running');
+    expect(events[events.length - 1]).toMatchObject({ type: 'complete', status: 'success' });
+  }, RUN_TIMEOUT_MS);
+
+  test('logs in, navigates client-side routes and completes a modal flow', async () => {
+    fake.setScript([
+      { type: 'click', target: 'Team' },
+      { type: 'click', target: 'Invite teammate' },
+      { type: 'fill', target: 'Teammate email', value: 'new@example.com' },
+      { type: 'click', target: 'Send invite' },
+    ]);
+
+    const { report, steps } = await runToCompletion({
+      baseUrl: site.url,
+      goal: 'Invite new@example.com to the team',
+      auth: { type: 'password', loginUrl: `${site.url}/login.html`, ...FIXTURE_CREDENTIALS },
+      budgets: { maxSteps: 8, maxMinutes: 2 },
+      options: fixtureOptions({ successHints: { mustSeeText: ['new@example.com (invited)'] } }),
+    });
+
+    expect(report.status).toBe('success');
+    expect(report.summary?.reason).toBe('Success hints satisfied');
+    expect(steps[0].url).toContain('/app/');
+    expect(steps.map(s => s.action.type)).toEqual(['click', 'click', 'fill', 'click']);
+    expect(steps.every(s => s.result.ok)).toBe(true);
+  }, RUN_TIMEOUT_MS);
+
+  test('repairs a malformed reply and reports a stuck agent', async () => {
+    fake.setScript([
+      'I think I should scroll.',
+      { type: 'scroll', direction: 'down' },
+    ]);
+
+    const { report, steps } = await runToCompletion({
+      baseUrl: `${site.url}/pricing.html`,
+      goal: 'Find the enterprise plan',
+      budgets: { maxSteps: 4, maxMinutes: 2 },
+      options: fixtureOptions(),
+    });
+
+    expect(report.status).toBe('partial');
+    expect(report.summary?.reason).toBe('Step budget exhausted (4 steps)');
+    expect(report.metrics?.repairAttempts).toBe(1);
+    expect(steps[0].repairs?.[0].response).toBe('I think I should scroll.');
+    expect(report.findings.some(f => f.type === 'discoverability' && f.title.startsWith('Navigation difficulty'))).toBe(true);
+  }, RUN_TIMEOUT_MS);
+
+  test('cancels a running run and keeps a partial report', async () => {
+    fake.setScript([{ type: 'scroll', direction: 'down' }]);
+
+    const { report, steps } = await runToCompletion({
+      baseUrl: `${site.url}/pricing.html`,
+      goal: 'Scroll forever',
+      budgets: { maxSteps: 30, maxMinutes: 2 },
+      options: fixtureOptions(),
+    }, (event, runId) => {
+      if (event.type === 'step' && event.step.i === 1) {
+        void orchestrator.cancelRun(runId);
+      }
+    });
+
+    expect(report.status).toBe('cancelled');
+    expect(report.summary?.reason).toBe('Cancelled via API');
+    expect(steps.length).toBeGreaterThanOrEqual(2);
+    expect(steps.length).toBeLessThan(30);
+    expect(await orchestrator.cancelRun(report.runId)).toBe('not_active');
+  }, RUN_TIMEOUT_MS);
+
+  test('pauses between steps and resumes', async () => {
+    fake.setScript([
+      { type: 'scroll', direction: 'down' },
+      { type: 'scroll', direction: 'up' },
+      { type: 'done', reason: 'Saw all plans', evidenceSteps: [0] },
+    ]);
+
+    let stepsWhilePaused = -1;
+    const { report, events } = await runToCompletion({
+      baseUrl: `${site.url}/pricing.html`,
+      goal: 'Look at every plan',
+      budgets: { maxSteps: 6, maxMinutes: 2 },
+      options: fixtureOptions(),
+    }, (event, runId) => {
+      if (event.type === 'step' && event.step.i === 0) {
+        void orchestrator.pauseRun(runId).then(() => {
+          setTimeout(() => {
+            stepsWhilePaused = fake.requests.length;
+            void orchestrator.resumeRun(runId);
+          }, 2000);
+        });
+      }
+    });
+
+    expect(report.status).toBe('success');
+    // Only the decision for step 0 was made before the pause took hold
+    expect(stepsWhilePaused).toBe(1);
+    const statuses = events.flatMap(e => (e.type === 'status' ? [e.status] : []));
+    expect(statuses).toEqual(expect.arrayContaining(['paused', 'running']));
+    expect(statuses.indexOf('paused')).toBeLessThan(statuses.lastIndexOf('running'));
+  }, RUN_TIMEOUT_MS);
+
+  test('waits for an operator reply and passes the hint to the next decision', async () => {
+    fake.setScript([
+      { type: 'askHuman', question: 'Where are refunds explained?' },
+      { type: 'done', reason: 'Operator pointed me at the help center', evidenceSteps: [0] },
+    ]);
+
+    let awaiting: RunReport | null = null;
+    let asked: string | undefined;
+    const { report, steps, events } = await runToCompletion({
+      baseUrl: site.url,
+      goal: 'Find the refund policy',
+      budgets: { maxSteps: 4, maxMinutes: 2 },
+      options: fixtureOptions({ humanInTheLoop: {} }),
+    }, (event, runId) => {
+      if (event.type === 'status' && event.status === 'awaiting_input') {
+        asked = event.awaitingInput?.question;
+        void orchestrator.getRunReport(runId).then(current => {
+          awaiting = current;
+          return orchestrator.replyToRun(runId, 'Look in the Help Center');
+        });
+      }
+    });
+
+    expect(awaiting!.awaitingInput).toMatchObject({ question: 'Where are refunds explained?', step: 0 });
+    expect(report.status).toBe('success');
+    expect(steps[0].humanInput).toEqual({ question: 'Where are refunds explained?', reply: 'Look in the Help Center', auto: false });
+    expect(fake.requests[0].prompt).toContain('askHuman(question)');
+    expect(fake.requests[1].prompt).toContain('Hint from the human operator: Look in the Help Center');
+    expect(report.findings.some(f => f.title === 'Agent asked a human for help')).toBe(true);
+
+    // The status event carries the question, and the finding is sent as soon as its step is recorded
+    expect(asked).toBe('Where are refunds explained?');
+    const findingAt = events.findIndex(e => e.type === 'finding' && e.finding.title === 'Agent asked a human for help');
+    const lastStepAt = events.findIndex(e => e.type === 'step' && e.step.i === 1);
+    expect(findingAt).toBeGreaterThan(-1);
+    expect(findingAt).toBeLessThan(lastStepAt);
+    expect(events.filter(e => e.type === 'finding' && e.finding.title === 'Agent asked a human for help')).toHaveLength(1);
+  }, RUN_TIMEOUT_MS);
+
+  test('stays paused after a question asked while pausing, until resumed', async () => {
+    let currentRunId = '';
+    let answered = false;
+    let resumed: string | undefined;
+    fake.setScript([
+      () => {
+        // Pause while the agent is deciding, so it asks with the pause pending
+        void orchestrator.pauseRun(currentRunId);
+        return { type: 'askHuman', question: 'Where are refunds explained?' };
+      },
+      { type: 'done', reason: 'Operator pointed me at the help center', evidenceSteps: [0] },
+    ]);
+
+    const { report, events } = await runToCompletion({
+      baseUrl: site.url,
+      goal: 'Find the refund policy',
+      budgets: { maxSteps: 4, maxMinutes: 2 },
+      options: fixtureOptions({ humanInTheLoop: {} }),
+    }, (event, runId) => {
+      currentRunId = runId;
+      if (event.type !== 'status') return;
+      if (event.status === 'awaiting_input') {
+        answered = true;
+        void orchestrator.replyToRun(runId, 'Look in the Help Center');
+      } else if (event.status === 'paused' && answered) {
+        void orchestrator.resumeRun(runId).then(result => { resumed = result; });
+      }
+    });
+
+    expect(report.status).toBe('success');
+    expect(resumed).toBe('ok');
+    const statuses = events.flatMap(e => (e.type === 'status' ? [e.status] : []));
+    expect(statuses).toEqual(expect.arrayContaining(['paused', 'awaiting_input']));
+    expect(statuses.slice(statuses.indexOf('awaiting_input') + 1, statuses.indexOf('awaiting_input') + 3)).toEqual(['paused', 'running']);
+  }, RUN_TIMEOUT_MS);
+
+  test('fills a form with a checkbox and dismisses a modal with the keyboard', async () => {
+    fake.setScript([
+      { type: 'fill', target: 'Name', value: 'Ada' },
+      { type: 'fill', target: 'Email', value: 'ada@example.com' },
+      { type: 'select', target: 'Topic', option: 'Billing' },
+      { type: 'check', target: 'Email me a copy' },
+      { type: 'focus', target: 'Send message' },
+      { type: 'press', key: 'Enter' },
+    ]);
+
+    const form = await runToCompletion({
+      baseUrl: `${site.url}/contact.html`,
+      goal: 'Send a billing question',
+      budgets: { maxSteps: 8, maxMinutes: 2 },
+      options: fixtureOptions({ successHints: { mustSeeText: ['A copy is on its way'] } }),
+    });
+    expect(form.report.status).toBe('success');
+    expect(form.steps[4].snapshot.text).toContain('"Email me a copy" [checked]');
+
+    fake.setScript([
+      { type: 'click', target: 'Team' },
+      { type: 'hover', target: 'Invite teammate' },
+      { type: 'click', target: 'Invite teammate' },
+      { type: 'press', key: 'esc' },
+      { type: 'done', reason: 'Dialog closed', evidenceSteps: [3] },
+    ]);
+
+    const modal = await runToCompletion({
+      baseUrl: `${site.url}/app/`,
+      goal: 'Open and close the invite dialog',
+      budgets: { maxSteps: 8, maxMinutes: 2 },
+      options: fixtureOptions(),
+    });
+    expect(modal.steps.map(s => s.action.type)).toEqual(['click', 'hover', 'click', 'press', 'done']);
+    expect(modal.steps[3].snapshot.text).toContain('Send invite');
+    expect(modal.steps[4].snapshot.text).not.toContain('Send invite');
+  }, RUN_TIMEOUT_MS * 2);
+
+  test('follows a link that opens a new tab and closes it again', async () => {
+    fake.setScript([
+      { type: 'click', target: 'Terms of service' },
+      { type: 'switchTab', tab: 'tab1' },
+      { type: 'switchTab', tab: 'Terms' },
+      { type: 'closeTab' },
+      { type: 'done', reason: 'Paid plans renew monthly', evidenceSteps: [1] },
+    ]);
+
+    const { steps } = await runToCompletion({
+      baseUrl: `${site.url}/pricing.html`,
+      goal: 'Find out how often paid plans renew',
+      budgets: { maxSteps: 8, maxMinutes: 2 },
+      options: fixtureOptions(),
+    });
+
+    expect(steps.map(s => s.action.type)).toEqual(['click', 'switchTab', 'switchTab', 'closeTab', 'done']);
+    expect(steps[0].result.notes).toContain('switched to new tab tab2');
+    expect(steps[1].url).toContain('/terms.html');
+    expect(steps[1].snapshot.text).toContain('Open tabs (2)');
+    expect(steps[2].url).toContain('/pricing.html');
+    expect(steps[3].url).toContain('/terms.html');
+    expect(steps[4].url).toContain('/pricing.html');
+    expect(steps[4].snapshot.text).not.toContain('Open tabs');
+  }, RUN_TIMEOUT_MS);
+
+  test('fills and submits a form inside an iframe', async () => {
+    fake.setScript([
+      { type: 'fill', target: 'Card number', value: '4242 4242 4242 4242' },
+      { type: 'click', target: 'Pay now' },
+    ]);
+
+    const { report, steps } = await runToCompletion({
+      baseUrl: `${site.url}/checkout.html`,
+      goal: 'Pay for the Team plan',
+      budgets: { maxSteps: 6, maxMinutes: 2 },
+      options: fixtureOptions({ successHints: { mustSeeText: ['Payment accepted'] } }),
+    });
+
+    expect(report.status).toBe('success');
+    expect(steps[0].snapshot.interactiveElements.find(el => el.name === 'Pay now')?.frame).toBe('frame1');
+    expect(steps[0].snapshot.text).toContain('[frame1] "Payment"');
+    expect(steps.every(s => s.result.ok)).toBe(true);
+  }, RUN_TIMEOUT_MS);
+
+  test('uploads a fixture file and captures a download', async () => {
+    process.env.UPLOAD_FIXTURES_DIR = FIXTURE_UPLOADS_DIR;
+    fake.setScript([
+      { type: 'upload', target: 'Choose photo', fixture: 'avatar.png' },
+      { type: 'click', target: 'Export invoices (CSV)' },
+    ]);
+
+    try {
+      const { report, steps } = await runToCompletion({
+        baseUrl: `${site.url}/account.html`,
+        goal: 'Update my profile photo and export my invoices',
+        budgets: { maxSteps: 6, maxMinutes: 2 },
+        options: fixtureOptions({
+          uploadFixtures: ['avatar.png'],
+          successHints: { mustSeeText: ['Profile photo updated: avatar.png'], mustDownloadFileMatching: 'invoices-*.csv' },
+        }),
+      });
+
+      expect(report.status).toBe('success');
+      expect(steps[1].downloads).toEqual([
+        expect.objectContaining({ step: 1, filename: 'invoices-2026.csv', path: 'artifacts/downloads/invoices-2026.csv' }),
+      ]);
+      expect(report.artifacts.downloads).toEqual(['artifacts/downloads/invoices-2026.csv']);
+      const saved = await fs.readFile(path.join('runs', report.runId, 'artifacts', 'downloads', 'invoices-2026.csv'), 'utf-8');
+      expect(saved).toContain('INV-002');
+    } finally {
+      delete process.env.UPLOAD_FIXTURES_DIR;
+    }
+  }, RUN_TIMEOUT_MS);
+
+  test('answers confirm dialogs and refuses destructive ones', async () => {
+    fake.setScript([
+      { type: 'click', target: 'Sign out other devices' },
+      { type: 'acceptDialog' },
+    ]);
+
+    const signOut = await runToCompletion({
+      baseUrl: `${site.url}/account.html`,
+      goal: 'Sign out my other devices',
+      budgets: { maxSteps: 6, maxMinutes: 2 },
+      options: fixtureOptions({ successHints: { mustSeeText: ['Signed out of 2 other devices'] } }),
+    });
+    expect(signOut.report.status).toBe('success');
+    expect(signOut.steps[0].result.notes).toContain('confirm dialog opened: "Sign out of all other devices?"');
+    expect(signOut.steps[0].dialogs).toEqual([expect.objectContaining({ type: 'confirm', message: 'Sign out of all other devices?' })]);
+    expect(signOut.steps[0].dialogs?.[0].unexpected).toBeUndefined();
+    expect(signOut.steps[1].snapshot.dialog).toEqual({ type: 'confirm', message: 'Sign out of all other devices?' });
+    expect(signOut.report.findings.map(f => f.title)).not.toContain('Unexpected confirm dialog');
+
+    fake.setScript([
+      { type: 'click', target: 'Close my workspace' },
+      { type: 'acceptDialog' },
+    ]);
+
+    const close = await runToCompletion({
+      baseUrl: `${site.url}/account.html`,
+      goal: 'Close my workspace',
+      budgets: { maxSteps: 6, maxMinutes: 2 },
+      options: fixtureOptions(),
+    });
+    expect(close.report.status).toBe('fail');
+    expect(close.report.summary?.reason).toContain('Blocked destructive action');
+    expect(close.steps.map(s => s.action.type)).toEqual(['click']);
+  }, RUN_TIMEOUT_MS * 2);
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Page } from 'playwright';
+import { settlePage, trackRequests } from '../settle.js';
+import type { RequestTracker } from '../settle.js';
+import type { SettleOptions } from '../../types.js';
+
+type ProbeState = { domQuiet: boolean; animations: number };
+
+class FakePage extends EventEmitter {
+  probes = 0;
+
+  // Each probe returns the next state; the last one repeats
+  constructor(private readonly states: ProbeState[]) {
+    super();
+  }
+
+  isClosed(): boolean {
+    return false;
+  }
+
+  async waitForLoadState(): Promise<void> {}
+
+  async evaluate(): Promise<ProbeState> {
+    const state = this.states[Math.min(this.probes, this.states.length - 1)];
+    this.probes++;
+    return state;
+  }
+}
+
+const options: SettleOptions = {
+  maxMs: 300,
+  networkQuietMs: 0,
+  domQuietMs: 0,
+  waitForAnimations: true,
+  slowMs: 3000,
+};
+
+const quietNetwork: RequestTracker = { quietFor: () => Infinity, dispose: () => {} };
+
+function fakeRequest(resourceType: string) {
+  return { resourceType: () => resourceType };
+}
+
+describe('trackRequests', () => {
+  it('is quiet only when no requests are in flight', async () => {
+    const page = new FakePage([]);
+    const tracker = trackRequests(page as unknown as Page);
+    const request = fakeRequest('fetch');
+
+    page.emit('request', request);
+    expect(tracker.quietFor()).toBe(0);
+
+    page.emit('requestfinished', request);
+    await new Promise(r => setTimeout(r, 20));
+    expect(tracker.quietFor()).toBeGreaterThanOrEqual(15);
+  });
+
+  it('ignores streaming connections', async () => {
+    const page = new FakePage([]);
+    const tracker = trackRequests(page as unknown as Page);
+    page.emit('request', fakeRequest('eventsource'));
+    await new Promise(r => setTimeout(r, 20));
+    expect(tracker.quietFor()).toBeGreaterThanOrEqual(15);
+
+    tracker.dispose();
+    expect(page.listenerCount('request')).toBe(0);
+  });
+});
+
+describe('settlePage', () => {
+  it('returns as soon as the DOM, animations and network are quiet', async () => {
+    const page = new FakePage([{ domQuiet: true, animations: 0 }]);
+    const timing = await settlePage(page as unknown as Page, quietNetwork, options);
+    expect(timing.timedOut).toBe(false);
+    expect(page.probes).toBe(1);
+  });
+
+  it('keeps probing while animations run', async () => {
+    const page = new FakePage([{ domQuiet: true, animations: 2 }, { domQuiet: true, animations: 0 }]);
+    const timing = await settlePage(page as unknown as Page, quietNetwork, options);
+    expect(timing.timedOut).toBe(false);
+    expect(page.probes).toBe(2);
+  });
+
+  it('reports what was still busy when it gives up', async () => {
+    const page = new FakePage([{ domQuiet: true, animations: 0 }]);
+    const busyNetwork: RequestTracker = { quietFor: () => 0, dispose: () => {} };
+    const timing = await settlePage(page as unknown as Page, busyNetwork, { ...options, networkQuietMs: 500 });
+    expect(timing).toMatchObject({ timedOut: true, waitingOn: ['network'] });
+    expect(timing.ms).toBeGreaterThanOrEqual(300);
+  });
+});
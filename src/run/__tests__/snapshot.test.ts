@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { getPageKey, findElementByRef, findElementByText, findSearchBox, findHelpLink } from '../snapshot.js';
-import type { PageSnapshot, InteractiveElement } from '../../types.js';
+import type { Page } from 'playwright';
+import { buildSnapshot, getPageKey, findElementByRef, findElementByText, findSearchBox, findHelpLink, budgetContentBlocks, makeStableRef, locateElement, linearizeA11yTree, formatReadingItem } from '../snapshot.js';
+import type { PageSnapshot, InteractiveElement, ContentBlock } from '../../types.js';
 
 function createMockSnapshot(overrides: Partial<PageSnapshot> = {}): PageSnapshot {
   return {
@@ -93,3 +94,152 @@ describe('findHelpLink', () => {
     expect(element?.name).toBe('Help Center');
   });
 });
+
+describe('budgetContentBlocks', () => {
+  const blocks: ContentBlock[] = [
+    { kind: 'text', landmark: 'main', text: 'Refunds are available within 30 days.' },
+    { kind: 'table', landmark: 'main', text: 'Pro | $20/mo | 5 seats' },
+    { kind: 'alert', text: 'Payment failed' },
+  ];
+
+  it('puts alerts ahead of body content', () => {
+    const kept = budgetContentBlocks(blocks, 1000);
+    expect(kept.map(b => b.kind)).toEqual(['alert', 'text', 'table']);
+  });
+
+  it('stops once the character budget is spent', () => {
+    const kept = budgetContentBlocks(blocks, 60);
+    expect(kept).toHaveLength(2);
+    expect(kept[0].text).toBe('Payment failed');
+  });
+
+  it('still fits short blocks after one that is too long', () => {
+    const kept = budgetContentBlocks([
+      { kind: 'text', landmark: 'main', text: 'x'.repeat(100) },
+      { kind: 'text', landmark: 'main', text: 'Contact support' },
+    ], 60);
+    expect(kept.map(b => b.text)).toEqual(['Contact support']);
+  });
+});
+
+describe('makeStableRef', () => {
+  it('gives the same element the same ref across snapshots', () => {
+    const first = makeStableRef('link', 'Pricing', '|/pricing|||', new Map());
+    const second = makeStableRef('link', 'Pricing', '|/pricing|||', new Map());
+    expect(first).toBe(second);
+    expect(first).toMatch(/^lin_[0-9a-z]{5}$/);
+  });
+
+  it('distinguishes same-named links with different targets', () => {
+    const seen = new Map<string, number>();
+    const a = makeStableRef('link', 'Learn more', '|/billing|||', seen);
+    const b = makeStableRef('link', 'Learn more', '|/security|||', seen);
+    expect(a).not.toBe(b);
+  });
+
+  it('suffixes true duplicates by occurrence', () => {
+    const seen = new Map<string, number>();
+    const a = makeStableRef('button', 'Save', '', seen);
+    const b = makeStableRef('button', 'Save', '', seen);
+    expect(b).toBe(`${a}_2`);
+  });
+});
+
+describe('locateElement', () => {
+  // Records the chain of frameLocator/locator calls instead of touching a browser
+  function recordingScope(calls: string[]): any {
+    return {
+      frameLocator: (selector: string) => {
+        calls.push(`frame ${selector}`);
+        return recordingScope(calls);
+      },
+      locator: (css: string) => {
+        calls.push(`css ${css}`);
+        return { count: async () => 1 };
+      },
+      getByRole: (role: string, options: { name: string }) => {
+        calls.push(`role ${role} ${options.name}`);
+        return { nth: (n: number) => ({ nth: n }) };
+      },
+    };
+  }
+
+  it('resolves elements inside iframes through the recorded frame path', async () => {
+    const calls: string[] = [];
+    const element: InteractiveElement = { ref: 'but_a1b2c', role: 'button', name: 'Pay now', frame: 'frame2' };
+    const snapshot = createMockSnapshot({
+      interactiveElements: [element],
+      refTable: { but_a1b2c: { framePath: ['#checkout', 'iframe >> nth=0'], css: 'form > button', role: 'button', name: 'Pay now', nth: 0 } },
+    });
+
+    await locateElement(recordingScope(calls) as Page, snapshot, element);
+    expect(calls).toEqual(['frame #checkout', 'frame iframe >> nth=0', 'css form > button']);
+  });
+
+  it('stays on the page for main-frame elements', async () => {
+    const calls: string[] = [];
+    const element: InteractiveElement = { ref: 'lnk_2', role: 'link', name: 'Settings' };
+
+    await locateElement(recordingScope(calls) as Page, createMockSnapshot(), element);
+    expect(calls).toEqual(['role link Settings']);
+  });
+});
+
+describe('buildSnapshot with an open dialog', () => {
+  it('describes only the dialog without evaluating in the blocked page', async () => {
+    const page = {
+      url: () => 'https://example.com/account',
+      title: () => { throw new Error('page is blocked'); },
+    } as unknown as Page;
+
+    const snapshot = await buildSnapshot(page, { dialog: { type: 'prompt', message: 'Name your workspace', defaultValue: 'Acme' } });
+    expect(snapshot.interactiveElements).toEqual([]);
+    expect(snapshot.dialog).toEqual({ type: 'prompt', message: 'Name your workspace', defaultValue: 'Acme' });
+    expect(snapshot.text).toContain('JavaScript prompt dialog: "Name your workspace"');
+    expect(snapshot.text).toContain('Default answer: "Acme"');
+  });
+});
+
+describe('linearizeA11yTree', () => {
+  it('reads the tree in order with landmarks, list sizes and control states', () => {
+    const items = linearizeA11yTree({
+      role: 'WebArea',
+      name: 'Sign in',
+      children: [
+        { role: 'navigation', name: 'Main', children: [
+          { role: 'list', name: '', children: [
+            { role: 'listitem', name: '', children: [{ role: 'link', name: 'Home' }] },
+            { role: 'listitem', name: '', children: [{ role: 'link', name: 'Docs' }] },
+          ] },
+        ] },
+        { role: 'main', name: '', children: [
+          { role: 'heading', name: 'Sign in', level: 1 },
+          { role: 'StaticText', name: 'Use your work' },
+          { role: 'StaticText', name: 'email.' },
+          { role: 'img', name: '' },
+          { role: 'checkbox', name: 'Remember me', checked: true },
+          { role: 'button', name: '' },
+        ] },
+      ],
+    });
+
+    expect(items.map(formatReadingItem)).toEqual([
+      'navigation landmark "Main"',
+      'list, 2 items',
+      'link "Home"',
+      'link "Docs"',
+      'main landmark',
+      'heading level 1 "Sign in"',
+      'Use your work email.',
+      'image, no description',
+      'checkbox "Remember me", checked',
+      'button, no name',
+    ]);
+  });
+});
+
+describe('formatReadingItem', () => {
+  it('appends the ref of elements the agent can act on', () => {
+    expect(formatReadingItem({ role: 'textbox', name: 'Email', ref: 'txt_a1b2c', states: ['required'] })).toBe('textbox "Email", required [txt_a1b2c]');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, assessProgress, describeDiff, formatDiffLines } from '../snapshotDiff.js';
+import type { PageSnapshot } from '../../types.js';
+
+function createMockSnapshot(overrides: Partial<PageSnapshot> = {}): PageSnapshot {
+  return {
+    type: 'a11y',
+    url: 'https://example.com/settings',
+    title: 'Settings',
+    headings: ['Settings'],
+    navLinks: [],
+    interactiveElements: [
+      { ref: 'btn_1', role: 'button', name: 'Edit profile' },
+      { ref: 'txt_2', role: 'textbox', name: 'Display name', value: '' },
+      { ref: 'chk_3', role: 'checkbox', name: 'Email me updates', checked: false },
+    ],
+    content: [{ kind: 'text', text: 'Manage your account.' }],
+    text: '',
+    hasSearchBox: false,
+    hasHelpLink: false,
+    ...overrides,
+  };
+}
+
+describe('diffSnapshots', () => {
+  it('is empty when nothing changed', () => {
+    const diff = diffSnapshots(createMockSnapshot(), createMockSnapshot());
+    expect(diff).toEqual({});
+    expect(assessProgress(diff)).toBe('none');
+    expect(describeDiff(diff)).toBe('no visible change');
+  });
+
+  it('counts a path change as major', () => {
+    const diff = diffSnapshots(createMockSnapshot(), createMockSnapshot({ url: 'https://example.com/billing' }));
+    expect(diff.url).toEqual({ from: 'https://example.com/settings', to: 'https://example.com/billing' });
+    expect(assessProgress(diff)).toBe('major');
+  });
+
+  it('counts a query-only change as some', () => {
+    const diff = diffSnapshots(createMockSnapshot(), createMockSnapshot({ url: 'https://example.com/settings?tab=2' }));
+    expect(assessProgress(diff)).toBe('some');
+  });
+
+  it('sees a modal opening without a URL change', () => {
+    const before = createMockSnapshot();
+    const after = createMockSnapshot({
+      headings: ['Settings', 'Edit profile'],
+      interactiveElements: [
+        ...before.interactiveElements,
+        { ref: 'btn_9', role: 'button', name: 'Save' },
+        { ref: 'btn_10', role: 'button', name: 'Cancel' },
+      ],
+    });
+
+    const diff = diffSnapshots(before, after);
+    expect(diff).toEqual({
+      headingsAdded: ['Edit profile'],
+      elementsAdded: ['button "Save"', 'button "Cancel"'],
+    });
+    expect(assessProgress(diff)).toBe('some');
+    expect(describeDiff(diff)).toBe('new heading "Edit profile"; 2 elements added (button "Save", button "Cancel")');
+  });
+
+  it('counts a client-side view swap as major', () => {
+    const diff = diffSnapshots(createMockSnapshot(), createMockSnapshot({
+      headings: ['Billing'],
+      interactiveElements: [{ ref: 'btn_5', role: 'button', name: 'Add card' }],
+    }));
+    expect(diff.headingsRemoved).toEqual(['Settings']);
+    expect(diff.elementsRemoved).toHaveLength(3);
+    expect(assessProgress(diff)).toBe('major');
+  });
+
+  it('reports value and checked changes', () => {
+    const before = createMockSnapshot();
+    const after = createMockSnapshot({
+      interactiveElements: [
+        before.interactiveElements[0],
+        { ...before.interactiveElements[1], value: 'Ada' },
+        { ...before.interactiveElements[2], checked: true },
+      ],
+    });
+
+    const diff = diffSnapshots(before, after);
+    expect(diff.valuesChanged).toEqual([
+      'textbox "Display name": "" → "Ada"',
+      'checkbox "Email me updates": checked',
+    ]);
+    expect(assessProgress(diff)).toBe('some');
+    expect(describeDiff(diff)).toBe('2 values changed');
+  });
+
+  it('separates new alerts from other new content', () => {
+    const diff = diffSnapshots(createMockSnapshot(), createMockSnapshot({
+      content: [
+        { kind: 'text', text: 'Manage your account.' },
+        { kind: 'status', text: 'Profile saved.' },
+        { kind: 'text', text: 'Your plan renews monthly.' },
+      ],
+    }));
+    expect(diff.alertsAdded).toEqual(['Profile saved.']);
+    expect(diff.contentAdded).toEqual(['Your plan renews monthly.']);
+    expect(assessProgress(diff)).toBe('some');
+  });
+
+  it("doesn't count status text changing in place as progress", () => {
+    const at = (time: string) => createMockSnapshot({
+      content: [{ kind: 'text', text: 'Manage your account.' }, { kind: 'status', text: `Last synced ${time}` }],
+    });
+    const diff = diffSnapshots(at('10:00'), at('10:01'));
+    expect(diff).toEqual({ statusChanged: ['Last synced 10:01'] });
+    expect(assessProgress(diff)).toBe('none');
+    expect(describeDiff(diff)).toBe('status now "Last synced 10:01"');
+  });
+
+  it('records dialogs opening and closing without comparing page content', () => {
+    const dialog = { type: 'confirm' as const, message: 'Discard changes?' };
+    const page = createMockSnapshot();
+    const blocked = createMockSnapshot({ dialog, headings: [], interactiveElements: [] });
+
+    expect(diffSnapshots(page, blocked)).toEqual({ dialogOpened: dialog });
+    expect(diffSnapshots(blocked, page)).toEqual({ dialogClosed: dialog });
+    expect(assessProgress({ dialogOpened: dialog })).toBe('some');
+  });
+});
+
+describe('formatDiffLines', () => {
+  it('lists each kind of change on its own line', () => {
+    expect(formatDiffLines({
+      url: { from: 'https://example.com/a', to: 'https://example.com/b' },
+      elementsRemoved: ['button "Next"'],
+      alertsAdded: ['Saved'],
+    })).toEqual([
+      'URL: https://example.com/a → https://example.com/b',
+      'Elements removed: button "Next"',
+      'New alerts: "Saved"',
+    ]);
+  });
+
+  it('shortens long lists', () => {
+    const elementsAdded = Array.from({ length: 12 }, (_, n) => `link "Item ${n + 1}"`);
+    expect(formatDiffLines({ elementsAdded })[0]).toMatch(/link "Item 10" and 2 more$/);
+  });
+});
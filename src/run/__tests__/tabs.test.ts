@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { BrowserContext, Page } from 'playwright';
+import { createTabManager } from '../tabs.js';
+import type { EvidenceCollector } from '../evidence.js';
+
+class FakePage extends EventEmitter {
+  closed = false;
+
+  constructor(private readonly pageUrl: string, private readonly pageTitle: string) {
+    super();
+  }
+
+  url(): string {
+    return this.pageUrl;
+  }
+
+  async title(): Promise<string> {
+    return this.pageTitle;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  async waitForLoadState(): Promise<void> {}
+
+  async bringToFront(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.emit('close');
+  }
+}
+
+class FakeContext extends EventEmitter {
+  readonly open: FakePage[] = [];
+
+  pages(): FakePage[] {
+    return this.open;
+  }
+
+  popup(url: string, title: string): FakePage {
+    const page = new FakePage(url, title);
+    this.open.push(page);
+    this.emit('page', page);
+    return page;
+  }
+}
+
+function setup() {
+  const context = new FakeContext();
+  const first = new FakePage('https://example.com/', 'Home');
+  context.open.push(first);
+  const captured: string[] = [];
+  const evidence = {
+    startCapture: (page: Page) => captured.push(`start ${page.url()}`),
+    stopCapture: (page: Page) => captured.push(`stop ${page.url()}`),
+  } as unknown as EvidenceCollector;
+  const tabs = createTabManager(context as unknown as BrowserContext, first as unknown as Page, evidence);
+  return { context, first, captured, tabs };
+}
+
+describe('createTabManager', () => {
+  it('lists open tabs with stable IDs', async () => {
+    const { context, tabs } = setup();
+    context.popup('https://example.com/terms', 'Terms');
+
+    expect(await tabs.list()).toEqual([
+      { id: 'tab1', title: 'Home', url: 'https://example.com/', active: true },
+      { id: 'tab2', title: 'Terms', url: 'https://example.com/terms', active: false },
+    ]);
+  });
+
+  it('follows the newest tab once and moves evidence capture with it', async () => {
+    const { context, captured, tabs } = setup();
+    expect(await tabs.followNewTab()).toBeNull();
+
+    const popup = context.popup('https://example.com/terms', 'Terms');
+    expect(await tabs.followNewTab()).toMatchObject({ id: 'tab2', active: true });
+    expect(tabs.active).toBe(popup);
+    expect(captured).toEqual(['stop https://example.com/', 'start https://example.com/terms']);
+    expect(await tabs.followNewTab()).toBeNull();
+  });
+
+  it('switches by ID or by title and URL text', async () => {
+    const { context, first, tabs } = setup();
+    const popup = context.popup('https://example.com/terms', 'Terms');
+
+    await tabs.switchTo('tab2');
+    expect(tabs.active).toBe(popup);
+    await tabs.switchTo('home');
+    expect(tabs.active).toBe(first);
+    await tabs.switchTo('/terms');
+    expect(tabs.active).toBe(popup);
+    await expect(tabs.switchTo('tab9')).rejects.toThrow('No open tab matches "tab9"');
+  });
+
+  it('falls back to a remaining tab when the active one closes', async () => {
+    const { context, first, tabs } = setup();
+    context.popup('https://example.com/terms', 'Terms');
+    await tabs.switchTo('tab2');
+
+    await tabs.close();
+    expect(tabs.active).toBe(first);
+    expect((await tabs.list()).map(t => t.id)).toEqual(['tab1']);
+    await expect(tabs.close()).rejects.toThrow('Cannot close the last open tab');
+  });
+});
@@ -0,0 +1,333 @@
+import type { Page } from 'playwright';
+import type { A11yRuleId, A11yViolation, Severity } from '../types.js';
+
+const MAX_ELEMENTS_PER_KIND = 20;
+const MAX_LINKS = 300;
+const MAX_TAB_PRESSES = 40;
+const AUDIT_TIMEOUT_MS = 5000;
+
+/**
+ * What the rules look at, collected from the main frame's DOM. The snapshot
+ * drops controls without a name (the agent can't refer to them), so the
+ * audit gathers its own facts rather than reading the snapshot.
+ */
+export interface A11yFacts {
+  unnamedButtons: string[];    // element descriptions, e.g. <button class="icon-close">
+  unnamedLinks: string[];
+  unlabelledFields: { element: string; placeholder?: string }[];
+  headings: { level: number; text: string }[];
+  landmarks: string[];         // landmark roles present: main, navigation, banner, contentinfo, ...
+  links: { name: string; href: string }[];
+  focusTrap?: string[];        // elements Tab cycled through without reaching the rest of the page
+}
+
+export interface A11yRule {
+  id: A11yRuleId;
+  title: string;        // finding title, e.g. "Buttons without accessible names"
+  severity: Severity;   // finding severity
+  check(facts: A11yFacts): A11yViolation[];
+}
+
+export const A11Y_RULES: A11yRule[] = [
+  {
+    id: 'button-name',
+    title: 'Buttons without accessible names',
+    severity: 'med',
+    check: facts => facts.unnamedButtons.map(target => ({
+      rule: 'button-name',
+      message: 'Button has no accessible name',
+      target,
+    })),
+  },
+  {
+    id: 'link-name',
+    title: 'Links without accessible names',
+    severity: 'med',
+    check: facts => facts.unnamedLinks.map(target => ({
+      rule: 'link-name',
+      message: 'Link has no accessible name',
+      target,
+    })),
+  },
+  {
+    id: 'label',
+    title: 'Form fields without labels',
+    severity: 'med',
+    check: facts => facts.unlabelledFields.map(field => ({
+      rule: 'label',
+      message: field.placeholder
+        ? `Form field is labelled only by its placeholder ("${field.placeholder}")`
+        : 'Form field has no label',
+      target: field.element,
+    })),
+  },
+  {
+    id: 'heading-order',
+    title: 'Skipped heading levels',
+    severity: 'low',
+    check: facts => facts.headings.flatMap((heading, i) => {
+      const previous = facts.headings[i - 1];
+      if (!previous || heading.level <= previous.level + 1) return [];
+      return [{
+        rule: 'heading-order' as const,
+        message: `Heading level jumps from h${previous.level} to h${heading.level}`,
+        target: `h${heading.level} "${heading.text}"`,
+      }];
+    }),
+  },
+  {
+    id: 'landmark-main',
+    title: 'Pages without a main landmark',
+    severity: 'low',
+    check: facts => (facts.landmarks.includes('main') ? [] : [{
+      rule: 'landmark-main',
+      message: facts.landmarks.length === 0
+        ? 'Page has no landmarks, so screen reader users can\'t jump between regions'
+        : 'Page has no main landmark, so screen reader users can\'t skip to the content',
+    }]),
+  },
+  {
+    id: 'duplicate-link-name',
+    title: 'Same link text for different destinations',
+    severity: 'low',
+    check: facts => {
+      const targets = new Map<string, { name: string; hrefs: Set<string> }>();
+      for (const link of facts.links) {
+        const key = link.name.toLowerCase();
+        const entry = targets.get(key) ?? { name: link.name, hrefs: new Set<string>() };
+        entry.hrefs.add(link.href);
+        targets.set(key, entry);
+      }
+      return [...targets.values()]
+        .filter(entry => entry.hrefs.size > 1)
+        .map(entry => ({
+          rule: 'duplicate-link-name' as const,
+          message: `${entry.hrefs.size} links named "${entry.name}" go to different pages`,
+          target: `link "${entry.name}"`,
+        }));
+    },
+  },
+  {
+    id: 'focus-trap',
+    title: 'Keyboard focus trap',
+    severity: 'high',
+    check: facts => (facts.focusTrap ? [{
+      rule: 'focus-trap',
+      message: `Tab cycles through ${facts.focusTrap.length} element${facts.focusTrap.length === 1 ? '' : 's'} and never reaches the rest of the page`,
+      target: facts.focusTrap[0],
+    }] : []),
+  },
+];
+
+export function runA11yRules(facts: A11yFacts, rules: A11yRule[] = A11Y_RULES): A11yViolation[] {
+  return rules.flatMap(rule => rule.check(facts));
+}
+
+/**
+ * Audit the page against the accessibility rules. The focus trap probe presses
+ * Tab, so callers run it once per page rather than on every step. When the
+ * audit times out or the signal aborts, the probe stops before its next press
+ * so it can't move focus under the agent's next action.
+ */
+export async function auditAccessibility(
+  page: Page,
+  options: { focusTrapProbe: boolean; signal?: AbortSignal }
+): Promise<A11yViolation[]> {
+  const stop = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, stop.signal]) : stop.signal;
+  const audit = async () => {
+    const facts = await collectA11yFacts(page);
+    if (options.focusTrapProbe && !signal.aborted) {
+      facts.focusTrap = await probeFocusTrap(page, signal);
+    }
+    return runA11yRules(facts);
+  };
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      stop.abort();
+      reject(new Error('Accessibility audit timed out'));
+    }, AUDIT_TIMEOUT_MS);
+  });
+  return Promise.race([audit(), timeout]).finally(() => {
+    clearTimeout(timer);
+    stop.abort();
+  });
+}
+
+function collectA11yFacts(page: Page): Promise<A11yFacts> {
+  return page.evaluate(({ maxPerKind, maxLinks }) => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+
+    // Object methods rather than const arrows: dev-mode transpilers wrap the latter in
+    // name-preserving helpers that don't exist inside the page
+    const dom = {
+      isShown(el: any): boolean {
+        return el.getClientRects().length > 0
+          && win.getComputedStyle(el).visibility !== 'hidden'
+          && !el.closest('[aria-hidden="true"], [inert]');
+      },
+      text(el: any): string {
+        return String(el.textContent || '').replace(/\s+/g, ' ').trim();
+      },
+      // Close enough to the accessible name computation for finding missing names
+      name(el: any): string {
+        const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+          .map((id: string) => doc.getElementById(id))
+          .filter(Boolean)
+          .map((node: any) => dom.text(node))
+          .join(' ')
+          .trim();
+        if (labelledBy) return labelledBy;
+        const ariaLabel = (el.getAttribute('aria-label') || '').trim();
+        if (ariaLabel) return ariaLabel;
+
+        if (el.tagName === 'INPUT' || el.tagName === 'SELECT' || el.tagName === 'TEXTAREA') {
+          const labels = Array.from(el.labels || []).map((label: any) => dom.text(label)).join(' ').trim();
+          if (labels) return labels;
+          const type = (el.getAttribute('type') || '').toLowerCase();
+          if (type === 'submit' || type === 'reset' || type === 'button') {
+            return (el.getAttribute('value') || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '')).trim();
+          }
+          if (type === 'image') return (el.getAttribute('alt') || '').trim();
+        } else {
+          const text = dom.text(el);
+          if (text) return text;
+          const inner = (Array.from(el.querySelectorAll('img[alt], [aria-label]')) as any[])
+            .map(node => node.getAttribute('alt') || node.getAttribute('aria-label') || '')
+            .join(' ')
+            .trim();
+          if (inner) return inner;
+        }
+        return (el.getAttribute('title') || '').trim();
+      },
+      describe(el: any): string {
+        const attrs = ['id', 'class', 'type', 'href', 'name', 'role']
+          .filter(attr => el.getAttribute(attr))
+          .map(attr => `${attr}="${String(el.getAttribute(attr)).slice(0, 40)}"`);
+        return `<${[el.tagName.toLowerCase(), ...attrs].join(' ')}>`;
+      },
+      shown(selector: string): any[] {
+        return (Array.from(doc.querySelectorAll(selector)) as any[]).filter(el => dom.isShown(el));
+      },
+    };
+
+    const unnamedButtons = dom.shown('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"], input[type="image"]')
+      .filter(el => !dom.name(el))
+      .slice(0, maxPerKind)
+      .map(el => dom.describe(el));
+
+    const unnamedLinks = dom.shown('a[href], [role="link"]')
+      .filter(el => !dom.name(el))
+      .slice(0, maxPerKind)
+      .map(el => dom.describe(el));
+
+    const unlabelledFields = dom.shown('input:not([type="hidden"]):not([type="button"]):not([type="submit"]):not([type="reset"]):not([type="image"]), select, textarea, [role="textbox"], [role="combobox"], [role="searchbox"], [role="slider"], [role="spinbutton"]')
+      .filter(el => !dom.name(el))
+      .slice(0, maxPerKind)
+      .map(el => ({ element: dom.describe(el), placeholder: (el.getAttribute('placeholder') || '').trim() || undefined }));
+
+    const headings = dom.shown('h1, h2, h3, h4, h5, h6, [role="heading"]').map(el => ({
+      level: Number(el.getAttribute('aria-level')) || Number(el.tagName.slice(1)) || 2,
+      text: dom.text(el).slice(0, 80),
+    }));
+
+    // Header and footer are only banner/contentinfo outside sectioning content
+    const landmarks = new Set<string>();
+    const LANDMARK_TAGS: Record<string, string> = { MAIN: 'main', NAV: 'navigation', ASIDE: 'complementary', HEADER: 'banner', FOOTER: 'contentinfo' };
+    for (const el of Array.from(doc.querySelectorAll('main, nav, aside, header, footer, [role]')) as any[]) {
+      const role = el.getAttribute('role') || LANDMARK_TAGS[el.tagName];
+      if (!role) continue;
+      if ((el.tagName === 'HEADER' || el.tagName === 'FOOTER') && !el.getAttribute('role') && el.closest('article, aside, main, nav, section')) continue;
+      if (['main', 'navigation', 'complementary', 'banner', 'contentinfo', 'search', 'region', 'form'].includes(role)) {
+        landmarks.add(role);
+      }
+    }
+
+    const links = dom.shown('a[href]')
+      .slice(0, maxLinks)
+      .map(el => ({ name: dom.name(el), href: String(el.href).split('#')[0] }))
+      .filter(link => link.name && /^https?:/.test(link.href));
+
+    return { unnamedButtons, unnamedLinks, unlabelledFields, headings, landmarks: [...landmarks], links };
+  }, { maxPerKind: MAX_ELEMENTS_PER_KIND, maxLinks: MAX_LINKS });
+}
+
+/**
+ * Press Tab through the page and watch where focus goes. Focus coming back
+ * around without passing through the rest of the page means a trap; cycling
+ * inside an open modal dialog is expected. Focus and scroll position are put
+ * back afterwards.
+ */
+async function probeFocusTrap(page: Page, signal: AbortSignal): Promise<string[] | undefined> {
+  const focusable = await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+    win.__coldAgentFocusProbe = { restore: doc.activeElement, scrollX: win.scrollX, scrollY: win.scrollY, ids: new WeakMap(), next: 1 };
+    return (Array.from(doc.querySelectorAll('a[href], button, input:not([type="hidden"]), select, textarea, [tabindex]')) as any[])
+      .filter(el => !el.disabled && el.getAttribute('tabindex') !== '-1' && el.getClientRects().length > 0).length;
+  });
+  if (focusable < 2) {
+    await restoreFocus(page);
+    return undefined;
+  }
+
+  const seen: { id: number; element: string; inModal: boolean }[] = [];
+  let trap: string[] | undefined;
+  try {
+    for (let i = 0; i < Math.min(MAX_TAB_PRESSES, focusable + 5); i++) {
+      if (signal.aborted) return undefined;
+      await page.keyboard.press('Tab');
+      const focused = await page.evaluate(() => {
+        const doc = (globalThis as any).document;
+        const probe = (globalThis as any).window.__coldAgentFocusProbe;
+        const el = doc.activeElement;
+        if (!el || el === doc.body || el === doc.documentElement) return null;
+        if (!probe.ids.has(el)) probe.ids.set(el, probe.next++);
+        const label = String(el.getAttribute('aria-label') || el.textContent || el.getAttribute('name') || '').replace(/\s+/g, ' ').trim().slice(0, 40);
+        return {
+          id: probe.ids.get(el) as number,
+          element: `<${el.tagName.toLowerCase()}${label ? ` "${label}"` : ''}>`,
+          inModal: Boolean(el.closest('dialog[open], [aria-modal="true"]')),
+        };
+      });
+
+      // Leaving the document (to the browser UI) means focus wraps normally
+      if (!focused) {
+        seen.length = 0;
+        continue;
+      }
+      const first = seen.findIndex(entry => entry.id === focused.id);
+      if (first !== -1) {
+        const cycle = seen.slice(first);
+        // A full lap of the page isn't a trap; a loop over a small part of it is
+        if (cycle.length < focusable / 2 && !cycle.every(entry => entry.inModal)) {
+          trap = cycle.map(entry => entry.element);
+        }
+        break;
+      }
+      seen.push(focused);
+    }
+  } finally {
+    // Once aborted the agent may already be acting: leave focus where it is
+    await restoreFocus(page, signal.aborted);
+  }
+  return trap;
+}
+
+function restoreFocus(page: Page, discard = false): Promise<void> {
+  return page.evaluate((discard) => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+    const probe = win.__coldAgentFocusProbe;
+    delete win.__coldAgentFocusProbe;
+    if (!probe || discard) return;
+    if (probe.restore && probe.restore !== doc.body && probe.restore.isConnected) {
+      probe.restore.focus({ preventScroll: true });
+    } else {
+      doc.activeElement?.blur?.();
+    }
+    win.scrollTo(probe.scrollX, probe.scrollY);
+  }, discard).catch(() => {});
+}
@@ -0,0 +1,554 @@
+import type { ActionType, AgentAction, PageSnapshot } from '../types.js';
+import type { ToolCall, ToolDefinition } from '../llm/tools.js';
+
+const REF_PATTERN = /^[a-z]{3}_[0-9a-z]+(?:_\d+)?$/;
+
+const KEY_MODIFIERS = ['Control', 'Shift', 'Alt', 'Meta', 'ControlOrMeta'];
+const NAMED_KEYS = [
+  'Enter', 'Escape', 'Tab', 'Backspace', 'Delete', 'Space', 'Insert',
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown',
+  'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12',
+];
+// Common spellings models use for Playwright key names
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: 'Control', control: 'Control', cmd: 'Meta', command: 'Meta', meta: 'Meta', win: 'Meta',
+  option: 'Alt', alt: 'Alt', shift: 'Shift', mod: 'ControlOrMeta', controlormeta: 'ControlOrMeta',
+  esc: 'Escape', return: 'Enter', del: 'Delete', spacebar: 'Space', ' ': 'Space',
+  up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight',
+  pgup: 'PageUp', pgdn: 'PageDown',
+};
+
+// Keyboard-only runs: the keys a keyboard user navigates with, and the actions that need no pointer
+export const KEYBOARD_MODE_KEYS = ['Tab', 'Shift+Tab', 'Enter', 'Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+const KEYBOARD_MODE_ACTIONS = new Set<ActionType>([
+  'press', 'fill', 'back', 'wait', 'switchTab', 'closeTab', 'acceptDialog', 'dismissDialog', 'askHuman', 'done',
+]);
+const TEXT_ENTRY_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'spinbutton']);
+
+// Screen-reader runs: actions that only make sense for someone looking at the page
+const VISUAL_ACTIONS = new Set<ActionType>(['hover', 'scroll']);
+
+// Keyboard-only runs have no refs to aim at: keys go to, and text into, the focused element
+const KEYBOARD_MODE_TOOLS: Partial<Record<ActionType, Omit<ToolDefinition, 'name'>>> = {
+  press: {
+    description: 'Press a navigation key on the focused element: Tab / Shift+Tab to move focus, Enter or Space to activate, arrow keys inside menus, lists and radio groups.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string', enum: KEYBOARD_MODE_KEYS },
+      },
+      required: ['key'],
+    },
+  },
+  fill: {
+    description: 'Type a value into the focused text field, replacing what is there. Tab to the field first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Name of the focused field' },
+        value: { type: 'string', description: 'Text to type' },
+      },
+      required: ['target', 'value'],
+    },
+  },
+};
+
+const DESTRUCTIVE_PATTERNS = [
+  /\bdelete\b/i,
+  /\bremove\b/i,
+  /\bcancel\s+subscription\b/i,
+  /\bunsubscribe\b/i,
+  /\bclose\s+account\b/i,
+  /\bdeactivate\b/i,
+  /\bterminate\b/i,
+  /\bdestroy\b/i,
+  /\berase\b/i,
+  /\bpermanently\b/i,
+];
+// Keys that activate the element they're pressed on
+const ACTIVATION_KEYS = new Set(['Enter', 'Space']);
+
+// Actions whose target names a single element from the snapshot
+const TARGETED_ACTIONS = new Set<ActionType>(['click', 'fill', 'select', 'hover', 'check', 'uncheck', 'focus', 'press', 'upload']);
+
+/**
+ * Thrown when a model reply can't be turned into a usable action.
+ * Carries the raw reply so it can be sent back to the model for repair.
+ */
+export class ActionParseError extends Error {
+  constructor(message: string, readonly rawResponse: string) {
+    super(message);
+    this.name = 'ActionParseError';
+  }
+}
+
+// Every action in the AgentAction union must have a tool (enforced by the Record key type)
+const ACTION_TOOLS: Record<ActionType, Omit<ToolDefinition, 'name'>> = {
+  click: {
+    description: 'Click a button or link, by ref ID from the page state (preferred) or by visible text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Element ref ID (e.g. "btn_k3x9a") or visible text' },
+      },
+      required: ['target'],
+    },
+  },
+  fill: {
+    description: 'Type a value into a text field.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Field ref ID or label' },
+        value: { type: 'string', description: 'Text to enter' },
+      },
+      required: ['target', 'value'],
+    },
+  },
+  select: {
+    description: 'Choose an option in a dropdown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Dropdown ref ID or label' },
+        option: { type: 'string', description: 'Option label or value' },
+      },
+      required: ['target', 'option'],
+    },
+  },
+  scroll: {
+    description: 'Scroll the page up or down.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        direction: { type: 'string', enum: ['up', 'down'] },
+      },
+      required: ['direction'],
+    },
+  },
+  back: {
+    description: 'Go back to the previous page.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  wait: {
+    description: 'Wait briefly for the page to update.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ms: { type: 'number', description: 'Milliseconds to wait (100-5000)' },
+      },
+      required: ['ms'],
+    },
+  },
+  search: {
+    description: "Search using the site's own search box.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+      },
+      required: ['query'],
+    },
+  },
+  openHelp: {
+    description: 'Open the help / documentation link.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  press: {
+    description: 'Press a key or key combination, e.g. Escape to close a dialog, Tab to move focus, Control+K for a shortcut.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: { type: 'string', description: 'Key or "+"-joined combo, e.g. "Enter", "Shift+Tab", "Control+K"' },
+        target: { type: 'string', description: 'Optional element ref ID or label to focus first; otherwise the focused element receives the key' },
+      },
+      required: ['key'],
+    },
+  },
+  hover: {
+    description: 'Move the mouse over an element, e.g. to open a hover menu or show a tooltip.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Element ref ID or visible text' },
+      },
+      required: ['target'],
+    },
+  },
+  check: {
+    description: 'Tick a checkbox, turn on a switch or choose a radio button.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Checkbox/radio ref ID or label' },
+      },
+      required: ['target'],
+    },
+  },
+  uncheck: {
+    description: 'Untick a checkbox or turn off a switch.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Checkbox ref ID or label' },
+      },
+      required: ['target'],
+    },
+  },
+  focus: {
+    description: 'Move keyboard focus to an element without clicking it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'Element ref ID or label' },
+      },
+      required: ['target'],
+    },
+  },
+  switchTab: {
+    description: 'Switch to another open browser tab, e.g. one a link or popup just opened.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tab: { type: 'string', description: 'Tab ID from the page state (e.g. "tab2") or part of its title' },
+      },
+      required: ['tab'],
+    },
+  },
+  closeTab: {
+    description: 'Close a browser tab (the active one by default) and return to the previous tab.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tab: { type: 'string', description: 'Tab ID to close; omit to close the active tab' },
+      },
+    },
+  },
+  upload: {
+    description: 'Upload one of the provided fixture files through a file input or the button that opens a file chooser.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', description: 'File input or upload button ref ID or label' },
+        fixture: { type: 'string', description: 'Name of the fixture file to upload' },
+      },
+      required: ['target', 'fixture'],
+    },
+  },
+  acceptDialog: {
+    description: 'Answer the open JavaScript dialog with OK (alert, confirm, prompt) or Leave (beforeunload).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Answer to type into a prompt dialog' },
+      },
+    },
+  },
+  dismissDialog: {
+    description: 'Answer the open JavaScript dialog with Cancel (or Stay on a beforeunload dialog).',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  askHuman: {
+    description: 'Ask the human operator for a hint when you are stuck. Only offered in human-in-the-loop runs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: 'What you need to know, with what you have already tried' },
+      },
+      required: ['question'],
+    },
+  },
+  done: {
+    description: 'Declare the goal complete, citing the steps that prove it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Why the goal is complete (quote the page content that answers it)' },
+        evidenceSteps: { type: 'array', items: { type: 'number' }, description: 'Step numbers that show completion' },
+      },
+      required: ['reason'],
+    },
+  },
+};
+
+/**
+ * Tool definitions for the action space, with an optional "thinking" field so
+ * the model can still explain its choice. askHuman is only included when an
+ * operator is available, upload only when the run provides fixture files, and
+ * the dialog actions only while a JavaScript dialog is open. Keyboard-only runs
+ * get the keyboard subset, with press and fill acting on the focused element;
+ * screen-reader runs lose hover and scroll.
+ */
+export function getActionToolDefinitions(
+  options: { canAskHuman?: boolean; uploadFixtures?: string[]; hasDialog?: boolean; keyboardOnly?: boolean; screenReader?: boolean } = {}
+): ToolDefinition[] {
+  const names = (Object.keys(ACTION_TOOLS) as ActionType[])
+    .filter(name => name !== 'askHuman' || options.canAskHuman)
+    .filter(name => name !== 'upload' || options.uploadFixtures?.length)
+    .filter(name => (name !== 'acceptDialog' && name !== 'dismissDialog') || options.hasDialog)
+    .filter(name => !options.keyboardOnly || KEYBOARD_MODE_ACTIONS.has(name))
+    .filter(name => !options.screenReader || !VISUAL_ACTIONS.has(name));
+  return names.map(name => {
+    const tool = (options.keyboardOnly && KEYBOARD_MODE_TOOLS[name]) || ACTION_TOOLS[name];
+    const properties = name === 'upload'
+      ? { ...tool.inputSchema.properties, fixture: { type: 'string', enum: options.uploadFixtures, description: 'Fixture file to upload' } }
+      : tool.inputSchema.properties;
+    return {
+      name,
+      description: tool.description,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          thinking: { type: 'string', description: 'Brief reason for choosing this action' },
+          ...properties,
+        },
+      },
+    };
+  });
+}
+
+export function isActionType(value: unknown): value is ActionType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ACTION_TOOLS, value);
+}
+
+export function actionFromToolCall(call: ToolCall): AgentAction {
+  return normalizeAction({ ...call.input, type: call.name });
+}
+
+/**
+ * Validate a loosely-shaped action object ({ type, ...fields }) and normalize it
+ * into an AgentAction, accepting common property aliases.
+ */
+export function normalizeAction(action: any): AgentAction {
+  // Helper to get property with fallbacks
+  const getProperty = (obj: any, ...keys: string[]): any => {
+    for (const key of keys) {
+      if (obj[key] !== undefined) return obj[key];
+    }
+    return undefined;
+  };
+
+  switch (action.type) {
+    case 'click': {
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'text');
+      if (!target) throw new Error(`Click action missing target: ${JSON.stringify(action)}`);
+      return { type: 'click', target: String(target) };
+    }
+    case 'fill': {
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'field');
+      const value = getProperty(action, 'value', 'text', 'input');
+      if (!target || value === undefined) throw new Error(`Fill action missing target/value: ${JSON.stringify(action)}`);
+      return { type: 'fill', target: String(target), value: String(value) };
+    }
+    case 'select': {
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector');
+      const option = getProperty(action, 'option', 'value', 'choice');
+      if (!target || !option) throw new Error(`Select action missing target/option: ${JSON.stringify(action)}`);
+      return { type: 'select', target: String(target), option: String(option) };
+    }
+    case 'scroll':
+      return { type: 'scroll', direction: action.direction === 'up' ? 'up' : 'down' };
+    case 'back':
+      return { type: 'back' };
+    case 'wait':
+      return { type: 'wait', ms: Math.min(5000, Math.max(100, Number(action.ms) || 1000)) };
+    case 'search': {
+      const query = getProperty(action, 'query', 'term', 'text', 'input', 'value');
+      if (!query) throw new Error(`Search action missing query: ${JSON.stringify(action)}`);
+      return { type: 'search', query: String(query) };
+    }
+    case 'openHelp':
+      return { type: 'openHelp' };
+    case 'press': {
+      const key = getProperty(action, 'key', 'keys', 'combo', 'shortcut', 'value');
+      if (!key) throw new Error(`Press action missing key: ${JSON.stringify(action)}`);
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector');
+      return target
+        ? { type: 'press', key: normalizeKeyCombo(String(key)), target: String(target) }
+        : { type: 'press', key: normalizeKeyCombo(String(key)) };
+    }
+    case 'hover':
+    case 'check':
+    case 'uncheck':
+    case 'focus': {
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'text', 'label');
+      if (!target) throw new Error(`${action.type} action missing target: ${JSON.stringify(action)}`);
+      return { type: action.type, target: String(target) };
+    }
+    case 'switchTab': {
+      const tab = getProperty(action, 'tab', 'target', 'id', 'title');
+      if (!tab) throw new Error(`switchTab action missing tab: ${JSON.stringify(action)}`);
+      return { type: 'switchTab', tab: String(tab) };
+    }
+    case 'closeTab': {
+      const tab = getProperty(action, 'tab', 'target', 'id');
+      return tab ? { type: 'closeTab', tab: String(tab) } : { type: 'closeTab' };
+    }
+    case 'upload': {
+      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'label');
+      const fixture = getProperty(action, 'fixture', 'file', 'filename', 'value');
+      if (!target || !fixture) throw new Error(`upload action missing target/fixture: ${JSON.stringify(action)}`);
+      return { type: 'upload', target: String(target), fixture: String(fixture) };
+    }
+    case 'acceptDialog': {
+      const text = getProperty(action, 'text', 'value', 'answer', 'promptText');
+      return text !== undefined ? { type: 'acceptDialog', text: String(text) } : { type: 'acceptDialog' };
+    }
+    case 'dismissDialog':
+      return { type: 'dismissDialog' };
+    case 'askHuman': {
+      const question = getProperty(action, 'question', 'message', 'text', 'query');
+      if (!question) throw new Error(`askHuman action missing question: ${JSON.stringify(action)}`);
+      return { type: 'askHuman', question: String(question) };
+    }
+    case 'done': {
+      const reason = getProperty(action, 'reason', 'message', 'explanation') || 'Task completed';
+      return {
+        type: 'done',
+        reason: String(reason),
+        evidenceSteps: Array.isArray(action.evidenceSteps)
+          ? action.evidenceSteps.map(Number)
+          : [],
+      };
+    }
+    default:
+      throw new Error(`Unknown action type: ${action.type}`);
+  }
+}
+
+/**
+ * Normalize a key or "+"-joined key combo to Playwright key names
+ * ("ctrl+k" -> "Control+K", "esc" -> "Escape"). Throws on keys Playwright
+ * wouldn't understand so the model gets a repair prompt instead.
+ */
+export function normalizeKeyCombo(raw: string): string {
+  const parts = raw.trim().split(/\s*\+\s*(?=.)/).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Empty key combination');
+  }
+
+  const keys = parts.map(part => {
+    const alias = KEY_ALIASES[part.toLowerCase()];
+    if (alias) return alias;
+    const named = NAMED_KEYS.find(name => name.toLowerCase() === part.toLowerCase());
+    if (named) return named;
+    if (part.length === 1) return part;
+    throw new Error(`Unknown key "${part}" in "${raw}"`);
+  });
+
+  const modifiers = keys.slice(0, -1);
+  if (modifiers.some(key => !KEY_MODIFIERS.includes(key))) {
+    throw new Error(`Only Control, Shift, Alt and Meta can be combined with a key: "${raw}"`);
+  }
+  return keys.join('+');
+}
+
+/**
+ * Check that an action's ref-like target exists in the snapshot it was chosen
+ * from. Plain-text targets are allowed (they fall back to text matching).
+ * Returns an error message, or null when the target is fine.
+ */
+export function validateActionTarget(action: AgentAction, snapshot: PageSnapshot): string | null {
+  if (!TARGETED_ACTIONS.has(action.type) || !('target' in action) || !action.target) {
+    return null;
+  }
+  if (!REF_PATTERN.test(action.target)) {
+    return null;
+  }
+  if (snapshot.interactiveElements.some(el => el.ref === action.target)) {
+    return null;
+  }
+  return `Target "${action.target}" is not a ref in the current page state. Use one of the listed [ref] IDs.`;
+}
+
+/**
+ * Keyboard-only runs: allow only navigation keys on the focused element, and
+ * typing into a focused text field. Returns an error message, or null when
+ * the action is one a keyboard user could take.
+ */
+export function checkKeyboardAction(action: AgentAction, snapshot: PageSnapshot): string | null {
+  if (!KEYBOARD_MODE_ACTIONS.has(action.type)) {
+    return `${action.type} is not available in keyboard-only mode. Move focus with Tab or Shift+Tab and activate the focused element with Enter or Space.`;
+  }
+  if (action.type === 'press') {
+    if (action.target) {
+      return 'In keyboard-only mode keys go to the focused element; press without a target.';
+    }
+    if (!KEYBOARD_MODE_KEYS.includes(action.key)) {
+      return `Key "${action.key}" is not available in keyboard-only mode. Use one of: ${KEYBOARD_MODE_KEYS.join(', ')}.`;
+    }
+  }
+  if (action.type === 'fill') {
+    const focused = snapshot.keyboard?.focused;
+    if (!focused || !TEXT_ENTRY_ROLES.has(focused.role)) {
+      return `fill types into the focused text field, but focus is on ${focused ? `${focused.role} "${focused.name}"` : 'the page'}. Tab to the field first.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Screen-reader runs: the agent can't see the page, so it can't hover or
+ * scroll to something it spotted. Returns an error message, or null.
+ */
+export function checkScreenReaderAction(action: AgentAction): string | null {
+  if (VISUAL_ACTIONS.has(action.type)) {
+    return `${action.type} is not available in screen-reader mode. Act on elements from the screen reader output by ref or name.`;
+  }
+  return null;
+}
+
+/**
+ * Whether an action would activate something destructive the goal doesn't ask
+ * for: clicking it, pressing Enter or Space on it or on the focused element,
+ * or accepting a confirm about it. Refs are matched by
+ * the element's name, not the ref ID.
+ */
+export function isDestructiveAction(action: AgentAction, snapshot: PageSnapshot, goal: string): boolean {
+  // Accepting a confirm is as destructive as whatever it confirms
+  let target: string;
+  if (action.type === 'click') {
+    target = targetLabel(action.target, snapshot);
+  } else if (action.type === 'press' && activatesElement(action.key)) {
+    // Without a target the key goes to whatever has focus
+    const focused = snapshot.keyboard
+      ? snapshot.keyboard.focused?.name
+      : snapshot.interactiveElements.find(el => el.focused)?.name;
+    if (action.target) {
+      target = targetLabel(action.target, snapshot);
+    } else if (focused) {
+      target = focused;
+    } else {
+      return false;
+    }
+  } else if (action.type === 'acceptDialog' && snapshot.dialog) {
+    target = snapshot.dialog.message;
+  } else {
+    return false;
+  }
+
+  // Check if goal explicitly mentions the destructive action
+  for (const pattern of DESTRUCTIVE_PATTERNS) {
+    if (pattern.test(target) && !pattern.test(goal)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Enter or Space, alone or with modifiers (Control+Enter submits just the same)
+function activatesElement(key: string): boolean {
+  const last = key.split('+').pop() ?? key;
+  return ACTIVATION_KEYS.has(last === ' ' ? 'Space' : last);
+}
+
+// The name of the element a target refers to: refs resolve through the step's ref table
+function targetLabel(target: string, snapshot: PageSnapshot): string {
+  return snapshot.refTable?.[target]?.name
+    ?? snapshot.interactiveElements.find(el => el.ref === target)?.name
+    ?? target;
+}
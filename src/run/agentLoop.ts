@@ -1,38 +1,56 @@
-import type { Page } from 'playwright';
+import type { Locator, Page } from 'playwright';
 import type {
+  A11yViolation,
+  AccessibilityOptions,
   AgentAction,
   DecisionContext,
+  DialogRecord,
+  DownloadRecord,
+  PageDialog,
   HelpLadderState,
   PageSnapshot,
-  ProgressLevel,
+  RepairAttempt,
+  RunMode,
+  RunReasonCode,
+  SettleOptions,
+  SnapshotDiff,
   StepLog,
   StepResult,
   StepSummary,
   SuccessHints,
 } from '../types.js';
-import { buildSnapshot, getPageKey, findSearchBox, findHelpLink, findElementByRef, findElementByText } from './snapshot.js';
+import { SettleOptionsSchema } from '../types.js';
+import { buildSnapshot, getPageKey, findSearchBox, findHelpLink, findElementByRef, findElementByText, locateElement } from './snapshot.js';
 import type { EvidenceCollector } from './evidence.js';
+import type { TabManager } from './tabs.js';
+import type { DownloadCollector } from './files.js';
+import { matchesFilePattern } from './files.js';
+import { assessProgress, describeDiff, diffSnapshots, formatDiffLines } from './snapshotDiff.js';
+import { settlePage, trackRequests } from './settle.js';
+import { auditAccessibility } from './accessibility.js';
+import { abortable, abortReason, createRunDeadline, isBudgetExceeded } from './deadline.js';
+import type { RunDeadline } from './deadline.js';
+import type { RequestTracker } from './settle.js';
 import { appendStepLog } from './evidence.js';
-import { callClaudeCli } from '../llm/claudeCli.js';
-import { callAnthropic } from '../llm/anthropicSdk.js';
-import { callClaudeTmux } from '../llm/claudeTmux.js';
+import type { LlmPrompt } from '../llm/prompt.js';
+import type { DecisionProvider } from '../llm/providers.js';
+import { getProvider } from '../llm/providers.js';
+import {
+  ActionParseError,
+  actionFromToolCall,
+  checkKeyboardAction,
+  checkScreenReaderAction,
+  getActionToolDefinitions,
+  isActionType,
+  isDestructiveAction,
+  normalizeAction,
+  validateActionTarget,
+} from './actionTools.js';
 
 const MIN_ACTION_DELAY_MS = 300;
 const MAX_ACTION_DELAY_MS = 700;
 const HISTORY_LENGTH = 8;
-
-const DESTRUCTIVE_PATTERNS = [
-  /\bdelete\b/i,
-  /\bremove\b/i,
-  /\bcancel\s+subscription\b/i,
-  /\bunsubscribe\b/i,
-  /\bclose\s+account\b/i,
-  /\bdeactivate\b/i,
-  /\bterminate\b/i,
-  /\bdestroy\b/i,
-  /\berase\b/i,
-  /\bpermanently\b/i,
-];
+const MAX_REPAIR_ATTEMPTS = 2;
 
 export interface AgentLoopConfig {
   goal: string;
@@ -40,20 +58,42 @@ export interface AgentLoopConfig {
   maxMinutes: number;
   successHints?: SuccessHints;
   artifactsDir: string;
+  vision?: boolean;
+  provider?: DecisionProvider;  // default: resolved from env via the provider registry
+  model?: string;               // provider default when omitted
   onStep?: (step: StepLog) => void;
+  signal?: AbortSignal;                // cancels the run; checked between steps and raced against in-flight work
+  deadline?: RunDeadline;              // the run's time budget (default: maxMinutes from now)
+  waitIfPaused?: () => Promise<void>;  // resolves once the run may take its next step
+  // Human-in-the-loop: resolves with the operator's reply, or null when nobody answers
+  askHuman?: (question: string, step: number) => Promise<string | null>;
+  autoEscalateAfter?: number;          // ask the operator after this many steps without progress
+  tabs?: TabManager;                   // follow popups and new tabs; without it the loop stays on `page`
+  uploadFixtures?: Record<string, string>;  // fixture name -> file path, for upload actions
+  downloads?: DownloadCollector;       // records files downloaded by each step
+  settle?: SettleOptions;              // adaptive wait after each action (schema defaults when omitted)
+  accessibility?: AccessibilityOptions;  // accessibility audit of each step's page (off when omitted)
+  mode?: RunMode;                      // 'keyboard' limits actions to keyboard navigation, 'screenReader' the page
+                                       // to what a screen reader reads out (default 'standard')
 }
 
 export interface AgentLoopResult {
   steps: StepLog[];
-  finalStatus: 'success' | 'fail' | 'partial';
+  finalStatus: 'success' | 'fail' | 'partial' | 'cancelled';
   reason: string;
+  reasonCode?: RunReasonCode;
   completionEvidence: string[];
+  llm: { provider: string; model?: string };
+}
+
+interface LlmSelection {
+  provider: DecisionProvider;
+  model?: string;
 }
 
-interface PreviousState {
-  url: string;
-  title: string;
-  pageKey: string;
+interface Decision {
+  action: AgentAction;
+  usedVision: boolean;
 }
 
 export async function runAgentLoop(
@@ -69,57 +109,150 @@ export async function runAgentLoop(
     helpOpened: false,
   };
   const visitedPages = new Map<string, number>();
+  const llm: LlmSelection = {
+    provider: config.provider ?? getProvider(),
+    model: config.model,
+  };
 
-  const startTime = Date.now();
-  const timeoutMs = config.maxMinutes * 60 * 1000;
+  // Everything in a step races the deadline as well as cancellation
+  const deadline = config.deadline ?? createRunDeadline(config.maxMinutes);
+  const signal = config.signal ? AbortSignal.any([config.signal, deadline.signal]) : deadline.signal;
+  const currentPage = (): Page => config.tabs?.active ?? page;
+  const settle = config.settle ?? SettleOptionsSchema.parse({});
+  const keyboardOnly = config.mode === 'keyboard';
+  const screenReader = config.mode === 'screenReader';
+  let operatorHint: string | undefined;
 
-  let previousState: PreviousState | null = null;
-  let finalStatus: 'success' | 'fail' | 'partial' = 'fail';
+  let finalStatus: AgentLoopResult['finalStatus'] = 'fail';
   let reason = 'Unknown';
+  let reasonCode: RunReasonCode | undefined;
   let completionEvidence: string[] = [];
 
+  // Once the signal fires: out of time ends the run as partial, anything else is a cancel
+  const stopOnAbort = () => {
+    if (isBudgetExceeded(signal)) {
+      finalStatus = 'partial';
+      reasonCode = 'budget_exceeded';
+    } else {
+      finalStatus = 'cancelled';
+    }
+    reason = abortReason(signal);
+  };
+
+  // Keep JavaScript dialogs open until the agent answers them
+  evidence.holdDialogs(true);
+
   for (let stepIndex = 0; stepIndex < config.maxSteps; stepIndex++) {
-    // Check time budget
-    const elapsed = Date.now() - startTime;
-    if (elapsed >= timeoutMs) {
-      reason = `Time budget exhausted (${config.maxMinutes} minutes)`;
-      finalStatus = steps.length > 0 ? 'partial' : 'fail';
+    // Hold here while paused; paused time doesn't count against the time budget
+    if (config.waitIfPaused) {
+      deadline.pause();
+      await config.waitIfPaused();
+      deadline.resume();
+    }
+
+    if (signal.aborted) {
+      stopOnAbort();
       break;
     }
 
-    // Build snapshot
-    const snapshot = await buildSnapshot(page);
+    // Build snapshot (just the dialog while one blocks the page)
+    const dialog = evidence.getPendingDialog() ?? undefined;
+    let snapshot: PageSnapshot;
+    try {
+      snapshot = await abortable(buildSnapshot(currentPage(), {
+        tabs: dialog ? undefined : await config.tabs?.list(),
+        dialog,
+        keyboard: keyboardOnly,
+        screenReader,
+      }), signal);
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      stopOnAbort();
+      break;
+    }
 
     // Track visited pages for loop detection
     const pageKey = getPageKey(snapshot);
     const visitCount = (visitedPages.get(pageKey) || 0) + 1;
     visitedPages.set(pageKey, visitCount);
 
+    // Audit the page the agent is deciding about. The focus trap probe presses
+    // Tab, so it only runs on the first visit to a page, and never in keyboard
+    // runs where focus is the agent's to move.
+    let accessibility: A11yViolation[] | undefined;
+    if (config.accessibility?.enabled && !dialog) {
+      const violations = await abortable(auditAccessibility(currentPage(), {
+        focusTrapProbe: config.accessibility.focusTrapProbe && visitCount === 1 && !keyboardOnly,
+        signal,
+      }), signal).catch(() => []);
+      accessibility = violations.length > 0 ? violations : undefined;
+    }
+
     // Build recent history summary
     const recentHistory = buildRecentHistory(steps);
 
+    // What the page did between the last decision and this one (including late effects)
+    const lastStep = steps[steps.length - 1];
+    const lastStepDiff = lastStep && lastStep.action.type !== 'askHuman'
+      ? diffSnapshots(lastStep.snapshot, snapshot)
+      : undefined;
+
+    // Vision mode: capture the viewport the model will be deciding about
+    // (screen-reader runs only ever hear the page)
+    let viewportImage: string | undefined;
+    if (config.vision && !dialog && !screenReader) {
+      viewportImage = await evidence.captureViewport(currentPage())
+        .then(buffer => buffer.toString('base64'))
+        .catch(() => undefined);
+    }
+
     // Build decision context
     const context: DecisionContext = {
       goal: config.goal,
       currentSnapshot: snapshot,
       recentHistory,
+      lastStepDiff,
       ladderState,
       budgets: {
         stepsRemaining: config.maxSteps - stepIndex,
-        timeRemainingMs: timeoutMs - elapsed,
+        timeRemainingMs: deadline.remainingMs(),
       },
       successHints: config.successHints,
+      viewportImage,
+      canAskHuman: Boolean(config.askHuman),
+      operatorHint,
+      uploadFixtures: config.uploadFixtures ? Object.keys(config.uploadFixtures) : undefined,
+      keyboardOnly,
+      screenReader,
     };
 
     // Check for help ladder escalation
     updateHelpLadder(ladderState, snapshot);
 
-    // Decide next action
+    // Decide next action, unless the agent has been stuck long enough to ask for help
     let action: AgentAction;
+    let usedVision = false;
+    const repairs: RepairAttempt[] = [];
+    const autoEscalate = Boolean(config.askHuman && config.autoEscalateAfter) &&
+      ladderState.stepsWithoutProgress >= config.autoEscalateAfter!;
     try {
-      action = await decideNextAction(context);
+      if (autoEscalate) {
+        action = {
+          type: 'askHuman',
+          question: `I've made no progress for ${ladderState.stepsWithoutProgress} steps on "${snapshot.title}" while trying to: ${config.goal}. What should I try next?`,
+        };
+      } else {
+        ({ action, usedVision } = await abortable(decideWithRepair(context, llm, repairs, signal), signal));
+      }
     } catch (error) {
-      reason = `Decision error: ${error instanceof Error ? error.message : String(error)}`;
+      if (signal.aborted) {
+        stopOnAbort();
+        break;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      reason = repairs.length > 0
+        ? `Decision error after ${repairs.length} repair attempts: ${message}`
+        : `Decision error: ${message}`;
       break;
     }
 
@@ -131,7 +264,7 @@ export async function runAgentLoop(
 
       // Verify success hints if provided
       if (config.successHints) {
-        const hintsValid = checkSuccessHints(snapshot, config.successHints);
+        const hintsValid = checkSuccessHints(snapshot, config.successHints, config.downloads?.downloads);
         if (!hintsValid) {
           finalStatus = 'partial';
           reason = 'Agent declared done but success hints not fully satisfied';
@@ -139,7 +272,7 @@ export async function runAgentLoop(
       }
 
       // Log the done step
-      const screenshotPath = await evidence.takeScreenshot(page, stepIndex);
+      const screenshotPath = await evidence.takeScreenshot(currentPage(), stepIndex);
       const stepLog: StepLog = {
         i: stepIndex,
         timestamp: new Date().toISOString(),
@@ -154,6 +287,9 @@ export async function runAgentLoop(
         },
         evidence: { screenshot: screenshotPath },
         errors: evidence.getStepErrors(),
+        usedVision,
+        repairs: repairs.length > 0 ? repairs : undefined,
+        accessibility,
       };
       steps.push(stepLog);
       await appendStepLog(stepLog, config.artifactsDir);
@@ -161,29 +297,115 @@ export async function runAgentLoop(
       break;
     }
 
+    // Hand over to the operator and carry their reply into the next decision
+    if (action.type === 'askHuman' && config.askHuman) {
+      deadline.pause();
+      const reply = await config.askHuman(action.question, stepIndex);
+      deadline.resume();
+      if (reply) {
+        operatorHint = reply;
+      }
+      ladderState.stepsWithoutProgress = 0;
+
+      const screenshotPath = await evidence.takeScreenshot(currentPage(), stepIndex);
+      const stepLog: StepLog = {
+        i: stepIndex,
+        timestamp: new Date().toISOString(),
+        url: snapshot.url,
+        pageTitle: snapshot.title,
+        snapshot,
+        action,
+        result: {
+          ok: reply !== null,
+          notes: reply !== null ? `Operator replied: ${reply}` : 'No reply from operator',
+          progress: 'none',
+        },
+        evidence: { screenshot: screenshotPath },
+        errors: evidence.getStepErrors(),
+        usedVision,
+        repairs: repairs.length > 0 ? repairs : undefined,
+        humanInput: { question: action.question, reply, auto: autoEscalate },
+        accessibility,
+      };
+      steps.push(stepLog);
+      await appendStepLog(stepLog, config.artifactsDir);
+      config.onStep?.(stepLog);
+      continue;
+    }
+
     // Check for destructive action
-    if (isDestructiveAction(action, config.goal)) {
+    if (isDestructiveAction(action, snapshot, config.goal)) {
       reason = `Blocked destructive action: ${JSON.stringify(action)}`;
       finalStatus = 'fail';
       break;
     }
 
-    // Execute action
+    // Execute action. A dialog opening mid-action blocks the page (and the action)
+    // until it's answered, so stop waiting and let the next step deal with it.
     evidence.clearStepErrors();
+    const actionStartedAt = new Date().toISOString();
     let result: StepResult;
+    let after: PageSnapshot | undefined;
+    const lateDialog = evidence.getPendingDialog();
+    const requests = trackRequests(currentPage());
+    let nextDialog: ReturnType<EvidenceCollector['nextDialog']> | undefined;
     try {
-      result = await executeAction(page, action, snapshot, previousState);
+      if (lateDialog && checkDialogAction(action, lateDialog)) {
+        throw new Error(`a ${lateDialog.type} dialog opened before the action could run: "${lateDialog.message}"`);
+      }
+      const running = executeAction(currentPage(), action, snapshot, {
+        tabs: config.tabs,
+        uploadFixtures: config.uploadFixtures,
+        evidence,
+        requests,
+        settle,
+        keyboardOnly,
+        screenReader,
+        signal,
+      });
+      running.catch(() => {});  // may only settle once the dialog is answered
+      nextDialog = evidence.nextDialog();
+      const dialogOpened = nextDialog.promise.then((opened): ActionOutcome => {
+        const diff: SnapshotDiff = { dialogOpened: opened };
+        return { result: { ok: true, notes: describeDiff(diff), progress: 'some', diff } };
+      });
+      ({ result, after } = await abortable(Promise.race([running, dialogOpened]), signal));
     } catch (error) {
       result = {
         ok: false,
-        notes: `Action failed: ${error instanceof Error ? error.message : String(error)}`,
+        notes: signal.aborted
+          ? `Action interrupted: ${isBudgetExceeded(signal) ? 'time budget exhausted' : 'run cancelled'}`
+          : `Action failed: ${error instanceof Error ? error.message : String(error)}`,
         progress: 'none',
         error: String(error),
       };
+    } finally {
+      nextDialog?.cancel();
+      requests.dispose();
+    }
+
+    // Dialogs that opened before the action ran came up on their own
+    const dialogs: DialogRecord[] = evidence.takeStepDialogs().map(record => (
+      record.openedAt < actionStartedAt ? { ...record, unexpected: true } : record
+    ));
+
+    // Attribute files the action downloaded to this step (a download still
+    // streaming when the signal fires is left out; the step is logged, then the run stops)
+    let downloads: DownloadRecord[] = [];
+    try {
+      downloads = await abortable(config.downloads?.takeStepDownloads(stepIndex) ?? Promise.resolve([]), signal);
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    }
+    if (downloads.length > 0) {
+      result.notes += `; downloaded ${downloads.map(d => (d.error ? `${d.filename} (failed: ${d.error})` : d.filename)).join(', ')}`;
     }
 
+    // Page timing since the previous step (loads, layout shifts, long tasks, bytes)
+    const performance = await abortable(evidence.collectPerformance(currentPage()), signal).catch(() => undefined);
+
     // Take screenshot
-    const screenshotPath = await evidence.takeScreenshot(page, stepIndex);
+    const screenshotPath = await evidence.takeScreenshot(currentPage(), stepIndex);
 
     // Create step log
     const stepLog: StepLog = {
@@ -196,11 +418,22 @@ export async function runAgentLoop(
       result,
       evidence: { screenshot: screenshotPath },
       errors: evidence.getStepErrors(),
+      usedVision,
+      repairs: repairs.length > 0 ? repairs : undefined,
+      downloads: downloads.length > 0 ? downloads : undefined,
+      dialogs: dialogs.length > 0 ? dialogs : undefined,
+      performance,
+      accessibility,
     };
     steps.push(stepLog);
     await appendStepLog(stepLog, config.artifactsDir);
     config.onStep?.(stepLog);
 
+    if (signal.aborted) {
+      stopOnAbort();
+      break;
+    }
+
     // Update ladder state based on progress
     if (result.progress === 'major') {
       ladderState.stepsWithoutProgress = 0;
@@ -218,31 +451,30 @@ export async function runAgentLoop(
       break;
     }
 
-    // Store previous state for next iteration
-    previousState = {
-      url: snapshot.url,
-      title: snapshot.title,
-      pageKey,
-    };
-
-    // Human-ish delay between actions
-    await delay(randomDelay());
-
-    // Check success hints after each step
-    if (config.successHints) {
-      const newSnapshot = await buildSnapshot(page);
-      if (checkSuccessHints(newSnapshot, config.successHints)) {
+    // Check success hints against the page the action left behind (only
+    // re-snapshotted when the action didn't run to completion)
+    if (config.successHints && !signal.aborted) {
+      const settled = after ?? await abortable(buildSnapshot(currentPage(), { dialog: evidence.getPendingDialog() ?? undefined, keyboard: keyboardOnly, screenReader }), signal)
+        .catch(() => null);  // the next step snapshots again (or stops on abort)
+      if (settled && checkSuccessHints(settled, config.successHints, config.downloads?.downloads)) {
         finalStatus = 'success';
         reason = 'Success hints satisfied';
         completionEvidence = [`step:${stepIndex}`];
         break;
       }
     }
+
+    // Human-ish delay between actions
+    await delay(randomDelay(), signal);
   }
 
+  evidence.holdDialogs(false);
+  if (!config.deadline) deadline.dispose();
+
   // If we exhausted steps without success
   if (steps.length >= config.maxSteps && finalStatus === 'fail') {
     reason = `Step budget exhausted (${config.maxSteps} steps)`;
+    reasonCode = 'budget_exceeded';
     finalStatus = 'partial';
   }
 
@@ -250,33 +482,105 @@ export async function runAgentLoop(
     steps,
     finalStatus,
     reason,
+    reasonCode,
     completionEvidence,
+    llm: { provider: llm.provider.name, model: llm.model },
   };
 }
 
+/**
+ * Ask for the next action, feeding unparseable replies and unknown refs back to
+ * the model up to MAX_REPAIR_ATTEMPTS times. Rejected replies are appended to
+ * `repairs` so they end up in the step log.
+ */
+async function decideWithRepair(
+  context: DecisionContext,
+  llm: LlmSelection,
+  repairs: RepairAttempt[],
+  signal?: AbortSignal
+): Promise<Decision> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const decision = await decideNextAction({ ...context, repairFeedback: repairs }, llm, signal);
+      if (decision.action.type === 'askHuman' && !context.canAskHuman) {
+        throw new ActionParseError('askHuman is not available in this run; choose a page action instead.', JSON.stringify(decision.action));
+      }
+      const dialogError = checkDialogAction(decision.action, context.currentSnapshot.dialog);
+      if (dialogError) {
+        throw new ActionParseError(dialogError, JSON.stringify(decision.action));
+      }
+      const modeError = context.keyboardOnly ? checkKeyboardAction(decision.action, context.currentSnapshot)
+        : context.screenReader ? checkScreenReaderAction(decision.action)
+        : null;
+      if (modeError) {
+        throw new ActionParseError(modeError, JSON.stringify(decision.action));
+      }
+      if (decision.action.type === 'upload' && !context.uploadFixtures?.includes(decision.action.fixture)) {
+        const available = context.uploadFixtures?.length
+          ? `Available fixtures: ${context.uploadFixtures.join(', ')}.`
+          : 'No upload fixtures are available in this run.';
+        throw new ActionParseError(`Unknown upload fixture "${decision.action.fixture}". ${available}`, JSON.stringify(decision.action));
+      }
+      const targetError = validateActionTarget(decision.action, context.currentSnapshot);
+      if (targetError) {
+        throw new ActionParseError(targetError, JSON.stringify(decision.action));
+      }
+      return decision;
+    } catch (error) {
+      if (!(error instanceof ActionParseError) || attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw error;
+      }
+      console.log(`[cold-agent] Repairing model reply (attempt ${attempt + 1}): ${error.message}`);
+      repairs.push({
+        attempt: attempt + 1,
+        error: error.message,
+        response: error.rawResponse.slice(0, 1000),
+      });
+    }
+  }
+}
+
 async function decideNextAction(
-  context: DecisionContext
-): Promise<AgentAction> {
+  context: DecisionContext,
+  llm: LlmSelection,
+  signal?: AbortSignal
+): Promise<Decision> {
+  const { provider, model } = llm;
+  const usedVision = Boolean(context.viewportImage && provider.supportsVision);
+
+  // Providers with native tool use answer with a tool call; others answer with JSON text
+  const useTools = Boolean(provider.callTool);
+
   const systemPrompt = buildSystemPrompt();
-  const userPrompt = buildUserPrompt(context);
+  const userPrompt = buildUserPrompt(context, usedVision, useTools ? 'tool' : 'json');
 
   const fullPrompt = `${systemPrompt}\n\n---\n\n${userPrompt}`;
+  const prompt: LlmPrompt = usedVision
+    ? { text: fullPrompt, images: [{ mediaType: 'image/png', base64: context.viewportImage! }] }
+    : fullPrompt;
+
+  if (provider.callTool) {
+    const call = await provider.callTool(prompt, getActionToolDefinitions({
+      canAskHuman: context.canAskHuman,
+      uploadFixtures: context.uploadFixtures,
+      hasDialog: Boolean(context.currentSnapshot.dialog),
+      keyboardOnly: context.keyboardOnly,
+      screenReader: context.screenReader,
+    }), { model, signal });
+    console.log(`[cold-agent] Tool call: ${call.name} ${JSON.stringify(call.input).slice(0, 300)}`);
+    try {
+      return { action: actionFromToolCall(call), usedVision };
+    } catch (error) {
+      throw new ActionParseError(error instanceof Error ? error.message : String(error), JSON.stringify(call));
+    }
+  }
 
-  // Priority: 1) API key → SDK, 2) CLI pipe mode with OAuth, 3) tmux fallback
-  let text: string;
-  if (process.env.ANTHROPIC_API_KEY) {
-    text = await callAnthropic(fullPrompt);
-  } else if (process.env.CLAUDE_CODE_OAUTH_TOKEN) {
-    // CLI pipe mode is faster than tmux when OAuth token is available
-    text = await callClaudeCli(fullPrompt, { outputFormat: 'text' });
-  } else if (process.env.USE_TMUX === '1') {
-    // Fall back to tmux if explicitly enabled
-    text = await callClaudeTmux(fullPrompt);
-  } else {
-    // Default to CLI pipe mode
-    text = await callClaudeCli(fullPrompt, { outputFormat: 'text' });
+  const text = await provider.complete(prompt, { model, json: true, signal });
+  try {
+    return { action: parseActionResponse(text), usedVision };
+  } catch (error) {
+    throw new ActionParseError(error instanceof Error ? error.message : String(error), text);
   }
-  return parseActionResponse(text);
 }
 
 function buildSystemPrompt(): string {
@@ -284,7 +588,11 @@ function buildSystemPrompt(): string {
   return ``;
 }
 
-function buildUserPrompt(context: DecisionContext): string {
+function buildUserPrompt(
+  context: DecisionContext,
+  withScreenshot: boolean = false,
+  responseFormat: 'json' | 'tool' = 'json'
+): string {
   // Phrased as an analysis question to avoid Claude Code's prompt injection detection
   const lines: string[] = [];
 
@@ -304,10 +612,21 @@ function buildUserPrompt(context: DecisionContext): string {
     lines.push('');
   }
 
+  if (context.screenReader && !context.currentSnapshot.dialog) {
+    lines.push(`I can't see the page: I'm using a screen reader, and this is what it reads out, in reading order. Target elements by the [ref] at the end of a line, or by name.`);
+    lines.push('');
+  }
   lines.push('Current page state:');
   lines.push(context.currentSnapshot.text);
   lines.push('');
 
+  if (withScreenshot) {
+    lines.push(context.keyboardOnly
+      ? 'A screenshot of the current viewport is attached. Use it to see where focus is drawn and to understand icons and layout.'
+      : 'A screenshot of the current viewport is attached. Use it to understand icons, canvas content and layout, but still target elements by ref ID from the page state above.');
+    lines.push('');
+  }
+
   if (context.recentHistory.length > 0) {
     lines.push('Actions taken so far:');
     for (const step of context.recentHistory) {
@@ -316,30 +635,107 @@ function buildUserPrompt(context: DecisionContext): string {
     lines.push('');
   }
 
+  if (context.lastStepDiff && context.recentHistory.length > 0) {
+    const last = context.recentHistory[context.recentHistory.length - 1];
+    const changes = formatDiffLines(context.lastStepDiff);
+    if (changes.length > 0) {
+      lines.push(`What changed since my last action (step ${last.i}: ${last.action}):`);
+      for (const change of changes) {
+        lines.push(`- ${change}`);
+      }
+    } else {
+      lines.push(`Nothing visible changed since my last action (step ${last.i}: ${last.action}). Repeating it is unlikely to help.`);
+    }
+    lines.push('');
+  }
+
+  if (context.operatorHint) {
+    lines.push(`Hint from the human operator: ${context.operatorHint}`);
+    lines.push('');
+  }
+
   if (context.ladderState.stepsWithoutProgress >= 4) {
     lines.push(`Note: ${context.ladderState.stepsWithoutProgress} steps without progress. Try a different approach.`);
     lines.push('');
   }
 
-  lines.push(`What single action should I take next? Choose from:`);
-  lines.push(`- click(target) - click a button/link by ref ID or text`);
-  lines.push(`- fill(target, value) - type into a text field`);
-  lines.push(`- select(target, option) - select dropdown option`);
-  lines.push(`- scroll(up/down) - scroll the page`);
-  lines.push(`- back() - go back`);
-  lines.push(`- search(query) - use search box`);
-  lines.push(`- done(reason, [stepNumbers]) - if goal is complete`);
-  lines.push('');
-  lines.push(`Respond with JSON: {"thinking": "brief reason", "action": {...}}`);
+  if (context.currentSnapshot.dialog) {
+    lines.push(`A JavaScript dialog is open. What should I do with it? Choose from:`);
+    lines.push(`- acceptDialog(text?) - press OK (or Leave on a "leave this page?" dialog); text answers a prompt`);
+    lines.push(`- dismissDialog() - press Cancel (or Stay)`);
+    if (context.canAskHuman) {
+      lines.push(`- askHuman(question) - ask the human operator for a hint if you are stuck`);
+    }
+    lines.push(`- done(reason, [stepNumbers]) - if goal is complete`);
+    lines.push('');
+  } else if (context.keyboardOnly) {
+    lines.push(`I can only use the keyboard, like a user who can't use a mouse. What single action should I take next? Choose from:`);
+    lines.push(`- press(key) - Tab / Shift+Tab to move focus, Enter or Space to activate the focused element, ArrowUp/ArrowDown/ArrowLeft/ArrowRight inside menus, lists and radio groups`);
+    lines.push(`- fill(target, value) - type into the focused text field (target is its name)`);
+    lines.push(`- back() - go back`);
+    if (context.currentSnapshot.tabs?.length) {
+      lines.push(`- switchTab(tab) - switch to another open tab by its ID`);
+      lines.push(`- closeTab(tab?) - close a tab (the active one by default)`);
+    }
+    if (context.canAskHuman) {
+      lines.push(`- askHuman(question) - ask the human operator for a hint if you are stuck`);
+    }
+    lines.push(`- done(reason, [stepNumbers]) - if goal is complete, or if it can't be reached with the keyboard (say what blocked you)`);
+    lines.push('');
+  } else {
+    lines.push(`What single action should I take next? Choose from:`);
+    lines.push(`- click(target) - click a button/link by ref ID or text`);
+    lines.push(`- fill(target, value) - type into a text field`);
+    lines.push(`- select(target, option) - select dropdown option`);
+    if (!context.screenReader) {
+      lines.push(`- scroll(up/down) - scroll the page`);
+    }
+    lines.push(`- back() - go back`);
+    lines.push(`- search(query) - use search box`);
+    lines.push(`- press(key, target?) - press a key or combo, e.g. Escape to close a dialog, Tab to move focus, Control+K`);
+    if (!context.screenReader) {
+      lines.push(`- hover(target) - hover to open a menu or show a tooltip`);
+    }
+    lines.push(`- check(target) / uncheck(target) - tick or untick a checkbox, switch or radio button`);
+    lines.push(`- focus(target) - move keyboard focus to an element`);
+    if (context.currentSnapshot.tabs?.length) {
+      lines.push(`- switchTab(tab) - switch to another open tab by its ID`);
+      lines.push(`- closeTab(tab?) - close a tab (the active one by default)`);
+    }
+    if (context.uploadFixtures?.length) {
+      lines.push(`- upload(target, fixture) - upload a file through a file input or upload button; fixtures: ${context.uploadFixtures.join(', ')}`);
+    }
+    if (context.canAskHuman) {
+      lines.push(`- askHuman(question) - ask the human operator for a hint if you are stuck`);
+    }
+    lines.push(`- done(reason, [stepNumbers]) - if goal is complete (quote the page content that answers it)`);
+    lines.push('');
+  }
+  if (context.repairFeedback?.length) {
+    lines.push('Previous replies for this step could not be used:');
+    for (const repair of context.repairFeedback) {
+      lines.push(`- Attempt ${repair.attempt}: ${repair.error}`);
+      lines.push(`  Reply was: ${repair.response.slice(0, 300)}`);
+    }
+    lines.push('Please correct this and answer again.');
+    lines.push('');
+  }
+
+  if (responseFormat === 'tool') {
+    lines.push(`Call exactly one of the provided action tools.`);
+  } else {
+    lines.push(`Respond with JSON: {"thinking": "brief reason", "action": {...}}`);
+  }
 
   return lines.join('\n');
 }
 
+// Lenient text parser for providers without native tool use (CLI, tmux)
 function parseActionResponse(text: string): AgentAction {
   console.log(`[cold-agent] Parsing response (${text.length} chars): ${text.slice(0, 500)}`);
 
   if (!text || text.trim() === '') {
-    throw new Error('Empty response from Claude CLI');
+    throw new Error('Empty response from model');
   }
 
   // Strip markdown code blocks if present
@@ -401,8 +797,7 @@ function parseActionResponse(text: string): AgentAction {
   // Or shorthand: {"action": {"click": "lin_21"}} where value is the target
   // Convert to flat format: {"action": {"type": "fill", "target": "...", "value": "..."}}
   if (!action.type) {
-    const actionTypes = ['click', 'fill', 'select', 'scroll', 'back', 'wait', 'search', 'openHelp', 'done'];
-    for (const type of actionTypes) {
+    for (const type of Object.keys(action).filter(isActionType)) {
       if (action[type] !== undefined) {
         const nested = action[type];
         if (typeof nested === 'string') {
@@ -413,6 +808,10 @@ function parseActionResponse(text: string): AgentAction {
             action = { type, query: nested };
           } else if (type === 'scroll') {
             action = { type, direction: nested };
+          } else if (type === 'press') {
+            action = { type, key: nested };
+          } else if (type === 'switchTab' || type === 'closeTab') {
+            action = { type, tab: nested };
           } else {
             action = { type, target: nested };
           }
@@ -432,75 +831,46 @@ function parseActionResponse(text: string): AgentAction {
     throw new Error(`Invalid action format: ${JSON.stringify(parsed.action).slice(0, 200)}`);
   }
 
-  // Helper to get property with fallbacks
-  const getProperty = (obj: any, ...keys: string[]): any => {
-    for (const key of keys) {
-      if (obj[key] !== undefined) return obj[key];
-    }
-    return undefined;
-  };
+  return normalizeAction(action);
+}
 
-  // Validate and normalize action
-  switch (action.type) {
-    case 'click': {
-      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'text');
-      if (!target) throw new Error(`Click action missing target: ${JSON.stringify(action)}`);
-      return { type: 'click', target: String(target) };
-    }
-    case 'fill': {
-      const target = getProperty(action, 'target', 'element', 'ref', 'selector', 'field');
-      const value = getProperty(action, 'value', 'text', 'input');
-      if (!target || value === undefined) throw new Error(`Fill action missing target/value: ${JSON.stringify(action)}`);
-      return { type: 'fill', target: String(target), value: String(value) };
-    }
-    case 'select': {
-      const target = getProperty(action, 'target', 'element', 'ref', 'selector');
-      const option = getProperty(action, 'option', 'value', 'choice');
-      if (!target || !option) throw new Error(`Select action missing target/option: ${JSON.stringify(action)}`);
-      return { type: 'select', target: String(target), option: String(option) };
-    }
-    case 'scroll':
-      return { type: 'scroll', direction: action.direction === 'up' ? 'up' : 'down' };
-    case 'back':
-      return { type: 'back' };
-    case 'wait':
-      return { type: 'wait', ms: Math.min(5000, Math.max(100, Number(action.ms) || 1000)) };
-    case 'search': {
-      const query = getProperty(action, 'query', 'term', 'text', 'input', 'value');
-      if (!query) throw new Error(`Search action missing query: ${JSON.stringify(action)}`);
-      return { type: 'search', query: String(query) };
-    }
-    case 'openHelp':
-      return { type: 'openHelp' };
-    case 'done': {
-      const reason = getProperty(action, 'reason', 'message', 'explanation') || 'Task completed';
-      return {
-        type: 'done',
-        reason: String(reason),
-        evidenceSteps: Array.isArray(action.evidenceSteps)
-          ? action.evidenceSteps.map(Number)
-          : [],
-      };
-    }
-    default:
-      throw new Error(`Unknown action type: ${action.type}`);
-  }
+// What executeAction can reach beyond the page itself
+interface ActionEnv {
+  tabs?: TabManager;
+  uploadFixtures?: Record<string, string>;
+  evidence?: EvidenceCollector;
+  requests?: RequestTracker;  // started before the action, so settling sees the requests it fires
+  settle?: SettleOptions;
+  keyboardOnly?: boolean;  // only navigation keys and typing into the focused field
+  screenReader?: boolean;  // snapshot the settled page as a screen reader reads it
+  signal?: AbortSignal;    // run deadline and cancel: cuts waits short
+}
+
+interface ActionOutcome {
+  result: StepResult;
+  after?: PageSnapshot;  // snapshot of the settled page, when the action ran to completion
 }
 
 async function executeAction(
   page: Page,
   action: AgentAction,
   snapshot: PageSnapshot,
-  previousState: PreviousState | null
-): Promise<StepResult> {
+  env: ActionEnv = {}
+): Promise<ActionOutcome> {
+  const { tabs, uploadFixtures = {}, evidence, settle = SettleOptionsSchema.parse({}), keyboardOnly, screenReader, signal } = env;
   const beforeUrl = page.url();
 
+  const modeError = keyboardOnly ? checkKeyboardAction(action, snapshot)
+    : screenReader ? checkScreenReaderAction(action)
+    : null;
+  if (modeError) throw new Error(modeError);
+
   switch (action.type) {
     case 'click': {
       const element = findElementByRef(snapshot, action.target) ||
                       findElementByText(snapshot, action.target);
       if (element) {
-        await page.getByRole(element.role as any, { name: element.name }).first().click();
+        await (await locateElement(page, snapshot, element)).click();
       } else {
         // Fallback: try to click by text
         await page.getByText(action.target, { exact: false }).first().click();
@@ -509,10 +879,16 @@ async function executeAction(
     }
 
     case 'fill': {
+      if (keyboardOnly) {
+        // Type into whatever has focus, as a keyboard user would
+        await page.keyboard.press('ControlOrMeta+A');
+        await page.keyboard.type(action.value);
+        break;
+      }
       const element = findElementByRef(snapshot, action.target) ||
                       findElementByText(snapshot, action.target);
       if (element) {
-        await page.getByRole(element.role as any, { name: element.name }).first().fill(action.value);
+        await (await locateElement(page, snapshot, element)).fill(action.value);
       } else {
         await page.getByLabel(action.target).first().fill(action.value);
       }
@@ -523,7 +899,7 @@ async function executeAction(
       const element = findElementByRef(snapshot, action.target) ||
                       findElementByText(snapshot, action.target);
       if (element) {
-        await page.getByRole('combobox', { name: element.name }).first().selectOption(action.option);
+        await (await locateElement(page, snapshot, element)).selectOption(action.option);
       } else {
         await page.getByLabel(action.target).first().selectOption(action.option);
       }
@@ -542,14 +918,14 @@ async function executeAction(
     }
 
     case 'wait': {
-      await delay(action.ms);
+      await abortable(delay(action.ms, signal), signal);
       break;
     }
 
     case 'search': {
       const searchBox = findSearchBox(snapshot);
       if (searchBox) {
-        await page.getByRole(searchBox.role as any, { name: searchBox.name }).first().fill(action.query);
+        await (await locateElement(page, snapshot, searchBox)).fill(action.query);
         await page.keyboard.press('Enter');
       } else {
         // Fallback: try common search patterns
@@ -563,56 +939,137 @@ async function executeAction(
     case 'openHelp': {
       const helpLink = findHelpLink(snapshot);
       if (helpLink) {
-        await page.getByRole('link', { name: helpLink.name }).first().click();
+        await (await locateElement(page, snapshot, helpLink)).click();
       } else {
         await page.getByText(/help/i).first().click();
       }
       break;
     }
 
+    case 'press': {
+      if (action.target) {
+        await (await locateTarget(page, snapshot, action.target)).press(action.key);
+      } else {
+        await page.keyboard.press(action.key);
+      }
+      break;
+    }
+
+    case 'hover': {
+      await (await locateTarget(page, snapshot, action.target)).hover();
+      break;
+    }
+
+    case 'check': {
+      await (await locateTarget(page, snapshot, action.target)).check();
+      break;
+    }
+
+    case 'uncheck': {
+      await (await locateTarget(page, snapshot, action.target)).uncheck();
+      break;
+    }
+
+    case 'focus': {
+      await (await locateTarget(page, snapshot, action.target)).focus();
+      break;
+    }
+
+    case 'upload': {
+      const file = uploadFixtures[action.fixture];
+      if (!file) throw new Error(`Unknown upload fixture "${action.fixture}"`);
+      const locator = await locateTarget(page, snapshot, action.target);
+      const isFileInput = await locator
+        .evaluate((el: any) => el.tagName === 'INPUT' && el.type === 'file')
+        .catch(() => false);
+      if (isFileInput) {
+        await locator.setInputFiles(file);
+      } else {
+        // Styled upload buttons open the native file chooser
+        const [chooser] = await Promise.all([
+          page.waitForEvent('filechooser', { timeout: 5000 }),
+          locator.click(),
+        ]);
+        await chooser.setFiles(file);
+      }
+      break;
+    }
+
+    case 'acceptDialog':
+    case 'dismissDialog': {
+      if (!evidence) throw new Error('Dialogs are not tracked in this run');
+      await evidence.respondToDialog(action.type === 'acceptDialog', action.type === 'acceptDialog' ? action.text : undefined);
+      break;
+    }
+
     case 'done':
       // Done is handled in the main loop
-      return { ok: true, notes: 'Task declared complete', progress: 'major' };
-  }
+      return { result: { ok: true, notes: 'Task declared complete', progress: 'major' } };
+
+    case 'switchTab': {
+      if (!tabs) throw new Error('Tabs are not tracked in this run');
+      await tabs.switchTo(action.tab);
+      break;
+    }
+
+    case 'closeTab': {
+      if (!tabs) throw new Error('Tabs are not tracked in this run');
+      await tabs.close(action.tab);
+      break;
+    }
 
-  // Wait for navigation - use 'load' to avoid timeout issues
-  await page.waitForLoadState('load', { timeout: 10000 }).catch(() => {});
-  // Brief settle time for JS-heavy sites
-  await new Promise(r => setTimeout(r, 1500));
+    case 'askHuman':
+      // Handled in the main loop when an operator is available
+      return { result: { ok: false, notes: 'No operator available', progress: 'none' } };
+  }
 
-  // Assess progress
-  const afterUrl = page.url();
-  const progress = assessProgress(beforeUrl, afterUrl, previousState);
+  // Wait for navigation, network and DOM activity to die down
+  const requests = env.requests ?? trackRequests(page);
+  const settleTiming = await settlePage(page, requests, settle);
+  if (!env.requests) requests.dispose();
+
+  // Follow a tab the action opened (target=_blank links, popups)
+  const newTab = tabs ? await tabs.followNewTab() : null;
+
+  // Assess progress from what changed on whichever tab is now active. The page
+  // may still be navigating, in which case only the URL can be compared.
+  const activePage = tabs?.active ?? page;
+  const afterUrl = activePage.url();
+  const after = await buildSnapshot(activePage, { dialog: evidence?.getPendingDialog() ?? undefined, keyboard: keyboardOnly, screenReader }).catch(() => null);
+  const diff: SnapshotDiff = after
+    ? diffSnapshots(snapshot, after)
+    : afterUrl !== snapshot.url ? { url: { from: snapshot.url, to: afterUrl } } : {};
+
+  // Notes describe the observed effect so the history shows which actions did nothing
+  let notes = describeDiff(diff);
+  if (newTab) {
+    notes += `; switched to new tab ${newTab.id}`;
+  }
 
   return {
-    ok: true,
-    notes: `Executed ${action.type}`,
-    newUrl: afterUrl !== beforeUrl ? afterUrl : undefined,
-    progress,
+    result: {
+      ok: true,
+      notes,
+      newUrl: afterUrl !== beforeUrl ? afterUrl : undefined,
+      progress: assessProgress(diff),
+      diff,
+      settle: settleTiming,
+    },
+    after: after ?? undefined,
   };
 }
 
-function assessProgress(
-  beforeUrl: string,
-  afterUrl: string,
-  _previousState: PreviousState | null
-): ProgressLevel {
-  // URL path changed (not just query params)
-  const beforePath = new URL(beforeUrl).pathname;
-  const afterPath = new URL(afterUrl).pathname;
-
-  if (beforePath !== afterPath) {
-    return 'major';
+/**
+ * Resolve a ref or label/text target to a locator: snapshot element first,
+ * then form labels, then visible text.
+ */
+async function locateTarget(page: Page, snapshot: PageSnapshot, target: string): Promise<Locator> {
+  const element = findElementByRef(snapshot, target) ||
+                  findElementByText(snapshot, target);
+  if (element) {
+    return locateElement(page, snapshot, element);
   }
-
-  // Query params changed meaningfully
-  const beforeParams = new URL(beforeUrl).search;
-  const afterParams = new URL(afterUrl).search;
-  if (beforeParams !== afterParams) {
-    return 'some';
-  }
-
-  return 'none';
+  return page.getByLabel(target).or(page.getByText(target, { exact: false })).first();
 }
 
 function updateHelpLadder(ladderState: HelpLadderState, snapshot: PageSnapshot): void {
@@ -623,23 +1080,22 @@ function updateHelpLadder(ladderState: HelpLadderState, snapshot: PageSnapshot):
   }
 }
 
-function isDestructiveAction(action: AgentAction, goal: string): boolean {
-  if (action.type !== 'click') return false;
-
-  const target = action.target.toLowerCase();
-
-  // Check if goal explicitly mentions the destructive action
-  const goalLower = goal.toLowerCase();
-  for (const pattern of DESTRUCTIVE_PATTERNS) {
-    if (pattern.test(target) && !pattern.test(goalLower)) {
-      return true;
-    }
+/**
+ * While a dialog is open only the dialog can be answered (or the run ended);
+ * without one, the dialog actions make no sense. Returns an error message or null.
+ */
+function checkDialogAction(action: AgentAction, dialog?: PageDialog): string | null {
+  const isDialogAction = action.type === 'acceptDialog' || action.type === 'dismissDialog';
+  if (dialog && !isDialogAction && action.type !== 'done' && action.type !== 'askHuman') {
+    return `A ${dialog.type} dialog is open and blocks the page; answer it with acceptDialog or dismissDialog first.`;
   }
-
-  return false;
+  if (!dialog && isDialogAction) {
+    return 'No JavaScript dialog is open; choose a page action instead.';
+  }
+  return null;
 }
 
-function checkSuccessHints(snapshot: PageSnapshot, hints: SuccessHints): boolean {
+function checkSuccessHints(snapshot: PageSnapshot, hints: SuccessHints, downloads: DownloadRecord[] = []): boolean {
   // Check mustSeeText
   if (hints.mustSeeText?.length) {
     const pageText = snapshot.text.toLowerCase();
@@ -658,6 +1114,14 @@ function checkSuccessHints(snapshot: PageSnapshot, hints: SuccessHints): boolean
     if (!urlMatches) return false;
   }
 
+  // Check mustDownloadFileMatching
+  if (hints.mustDownloadFileMatching) {
+    const downloaded = downloads.some(download =>
+      !download.error && matchesFilePattern(download.filename, hints.mustDownloadFileMatching!)
+    );
+    if (!downloaded) return false;
+  }
+
   return true;
 }
 
@@ -691,11 +1155,41 @@ function formatAction(action: AgentAction): string {
       return 'openHelp()';
     case 'done':
       return `done("${action.reason}")`;
+    case 'askHuman':
+      return `askHuman("${action.question}")`;
+    case 'press':
+      return action.target ? `press("${action.key}", "${action.target}")` : `press("${action.key}")`;
+    case 'hover':
+      return `hover("${action.target}")`;
+    case 'check':
+      return `check("${action.target}")`;
+    case 'uncheck':
+      return `uncheck("${action.target}")`;
+    case 'focus':
+      return `focus("${action.target}")`;
+    case 'switchTab':
+      return `switchTab("${action.tab}")`;
+    case 'closeTab':
+      return action.tab ? `closeTab("${action.tab}")` : 'closeTab()';
+    case 'upload':
+      return `upload("${action.target}", "${action.fixture}")`;
+    case 'acceptDialog':
+      return action.text !== undefined ? `acceptDialog("${action.text}")` : 'acceptDialog()';
+    case 'dismissDialog':
+      return 'dismissDialog()';
   }
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 function randomDelay(): number {
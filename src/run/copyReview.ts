@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import type { Finding, Severity, StepLog } from '../types.js';
+import type { DecisionProvider } from '../llm/providers.js';
+
+// Keep the prompt to a few thousand tokens on long runs
+const MAX_STEPS_LISTED = 25;
+const MAX_LABELS_PER_STEP = 30;
+const MAX_TEXT_LENGTH = 200;
+const COPY_REVIEW_TIMEOUT_MS = 120_000;
+
+const COPY_ISSUE_KINDS = ['jargon', 'inconsistent', 'vague_cta', 'error_copy'] as const;
+type CopyIssueKind = typeof COPY_ISSUE_KINDS[number];
+
+const CopyIssueSchema = z.object({
+  kind: z.enum(COPY_ISSUE_KINDS),
+  step: z.coerce.number().int(),
+  text: z.string().min(1),
+  problem: z.string().min(1),
+  suggestion: z.string().optional(),
+  severity: z.enum(['low', 'med', 'high']).catch('low'),
+});
+
+const CopyReviewResponseSchema = z.object({
+  // One malformed issue shouldn't throw away the rest
+  issues: z.array(z.unknown()).default([]),
+});
+
+export type CopyIssue = z.infer<typeof CopyIssueSchema>;
+
+// UI text a step showed for the first time in the run
+interface StepCopy {
+  step: StepLog;
+  headings: string[];
+  labels: string[];    // button "Save", link "Pricing", textbox "Org slug"
+  messages: string[];  // alerts, status messages and dialogs
+}
+
+const KIND_TITLES: Record<CopyIssueKind, string> = {
+  jargon: 'Jargon',
+  inconsistent: 'Inconsistent naming',
+  vague_cta: 'Vague call to action',
+  error_copy: 'Unhelpful error message',
+};
+
+/**
+ * Post-run pass that asks the model to review the UI text the agent saw:
+ * headings, control labels and error messages from each step's snapshot.
+ * Returns 'copy' findings citing the step (and screenshot) the text came from.
+ */
+export async function reviewCopy(
+  steps: StepLog[],
+  deps: { provider: DecisionProvider; model?: string; signal?: AbortSignal }
+): Promise<Finding[]> {
+  const collected = collectCopy(steps);
+  if (collected.length === 0) return [];
+
+  const text = await deps.provider.complete(buildCopyReviewPrompt(collected), {
+    model: deps.model,
+    json: true,
+    timeoutMs: COPY_REVIEW_TIMEOUT_MS,
+    signal: deps.signal,
+  });
+
+  return parseCopyReview(text).flatMap(issue => {
+    const source = findSource(collected, issue);
+    if (!source) return [];
+    return [{
+      type: 'copy' as const,
+      severity: issue.severity as Severity,
+      title: `${KIND_TITLES[issue.kind]}: "${truncate(issue.text, 80)}"`,
+      details: `${issue.problem}${issue.suggestion ? ` Suggestion: ${issue.suggestion}` : ''}`,
+      evidence: {
+        step: source.step.i,
+        screenshot: source.step.evidence.screenshot,
+      },
+    }];
+  });
+}
+
+// Text repeated on later steps (navigation, footers) is listed once, under
+// the step that first showed it
+function collectCopy(steps: StepLog[]): StepCopy[] {
+  const seen = new Set<string>();
+  const fresh = (kind: string, texts: string[]) => texts
+    .map(t => truncate(t.replace(/\s+/g, ' ').trim(), MAX_TEXT_LENGTH))
+    .filter(t => {
+      const key = `${kind}:${t.toLowerCase()}`;
+      if (!t || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const collected: StepCopy[] = [];
+  for (const step of steps) {
+    const { snapshot } = step;
+    const headings = fresh('heading', snapshot.headings);
+    const labels = fresh('label', snapshot.interactiveElements
+      .filter(el => el.name)
+      .map(el => `${el.role} "${el.name}"`)).slice(0, MAX_LABELS_PER_STEP);
+    const messages = fresh('message', [
+      ...(snapshot.content ?? []).filter(b => b.kind === 'alert' || b.kind === 'status').map(b => b.text),
+      ...(snapshot.dialog ? [`${snapshot.dialog.type} dialog: ${snapshot.dialog.message}`] : []),
+    ]);
+
+    if (headings.length + labels.length + messages.length > 0) {
+      collected.push({ step, headings, labels, messages });
+    }
+    if (collected.length >= MAX_STEPS_LISTED) break;
+  }
+  return collected;
+}
+
+function buildCopyReviewPrompt(collected: StepCopy[]): string {
+  const lines: string[] = [];
+  lines.push('You are a UX writer reviewing the interface text of a web app.');
+  lines.push('Below is the text a first-time user saw while trying to complete a task, grouped by the step where it first appeared.');
+  lines.push('');
+
+  for (const { step, headings, labels, messages } of collected) {
+    lines.push(`Step ${step.i}: ${step.snapshot.title || '(untitled)'} (${step.url})`);
+    if (headings.length) lines.push(`  Headings: ${headings.map(h => `"${h}"`).join(', ')}`);
+    if (labels.length) lines.push(`  Controls: ${labels.join(', ')}`);
+    if (messages.length) lines.push(`  Messages: ${messages.map(m => `"${m}"`).join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push('Flag only clear problems of these kinds:');
+  lines.push('- jargon: internal, technical or unexplained terms a new user would not understand');
+  lines.push('- inconsistent: one concept named differently on different steps (e.g. "Workspace" vs "Project")');
+  lines.push('- vague_cta: buttons or links that don\'t say what they do (e.g. "Click here", "Submit", "Go")');
+  lines.push('- error_copy: error or validation messages that don\'t say what went wrong or how to fix it');
+  lines.push('');
+  lines.push('Quote the text exactly as listed and cite the step it is listed under. Return at most 8 issues, most important first, or none if the copy is fine.');
+  lines.push('');
+  lines.push('Return STRICT JSON only, no markdown:');
+  lines.push('{"issues": [{"kind": "jargon|inconsistent|vague_cta|error_copy", "step": 3, "text": "...", "problem": "...", "suggestion": "...", "severity": "low|med|high"}]}');
+
+  return lines.join('\n');
+}
+
+export function parseCopyReview(text: string): CopyIssue[] {
+  if (!text || text.trim() === '') {
+    throw new Error('Empty copy review response');
+  }
+
+  // Strip markdown code blocks if present
+  const cleanText = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+  const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`No JSON found in copy review: ${cleanText.slice(0, 300)}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonMatch[0]);
+  } catch (e) {
+    throw new Error(`Invalid JSON in copy review: ${jsonMatch[0].slice(0, 200)}... Error: ${e}`);
+  }
+
+  const parsed = CopyReviewResponseSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid copy review shape: ${parsed.error.message}`);
+  }
+  return parsed.data.issues.flatMap(issue => {
+    const result = CopyIssueSchema.safeParse(issue);
+    return result.success ? [result.data] : [];
+  });
+}
+
+// The cited step if it was listed, else the first step that listed the text.
+// Issues about text the agent never saw are dropped.
+function findSource(collected: StepCopy[], issue: CopyIssue): StepCopy | undefined {
+  const quoted = issue.text.toLowerCase();
+  const mentions = (entry: StepCopy) => [...entry.headings, ...entry.labels, ...entry.messages]
+    .some(t => t.toLowerCase().includes(quoted));
+
+  const cited = collected.find(entry => entry.step.i === issue.step);
+  if (cited && (issue.kind === 'inconsistent' || mentions(cited))) return cited;
+  return collected.find(mentions);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
@@ -0,0 +1,98 @@
+/**
+ * Thrown (and used as the abort reason) once a run's time budget runs out.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * A run's time budget as an AbortSignal, so authentication, LLM calls,
+ * actions and snapshots can all stop the moment it runs out instead of the
+ * loop noticing at the top of the next step. The clock can be paused while
+ * the run waits on an operator.
+ */
+export interface RunDeadline {
+  readonly signal: AbortSignal;  // aborts with a BudgetExceededError
+  remainingMs(): number;
+  pause(): void;
+  resume(): void;
+  dispose(): void;
+}
+
+export function createRunDeadline(maxMinutes: number): RunDeadline {
+  const controller = new AbortController();
+  let remaining = maxMinutes * 60_000;
+  let startedAt = Date.now();
+  let paused = false;
+  let timer = setTimeout(expire, remaining);
+
+  function expire(): void {
+    controller.abort(new BudgetExceededError(`Time budget exhausted (${maxMinutes} minutes)`));
+  }
+
+  return {
+    signal: controller.signal,
+
+    remainingMs(): number {
+      return paused ? remaining : Math.max(0, remaining - (Date.now() - startedAt));
+    },
+
+    pause(): void {
+      if (paused || controller.signal.aborted) return;
+      remaining -= Date.now() - startedAt;
+      clearTimeout(timer);
+      paused = true;
+    },
+
+    resume(): void {
+      if (!paused) return;
+      paused = false;
+      startedAt = Date.now();
+      timer = setTimeout(expire, Math.max(0, remaining));
+    },
+
+    dispose(): void {
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Whether a signal fired because the run's time budget ran out (rather than
+ * a cancel request).
+ */
+export function isBudgetExceeded(signal?: AbortSignal): boolean {
+  return Boolean(signal?.aborted && signal.reason instanceof BudgetExceededError);
+}
+
+export function abortReason(signal: AbortSignal): string {
+  if (signal.reason instanceof Error) return signal.reason.message;
+  return typeof signal.reason === 'string' ? signal.reason : 'Run cancelled';
+}
+
+/**
+ * Reject as soon as the signal aborts, without waiting for the underlying
+ * work (an LLM call or a Playwright action) to notice.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error(abortReason(signal)));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error(abortReason(signal)));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
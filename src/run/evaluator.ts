@@ -1,15 +1,35 @@
 import type {
+  ActionType,
   Finding,
   FindingType,
+  FocusStop,
+  KeyboardState,
+  PerformanceMetrics,
+  PerformanceThresholds,
+  ReadingOrderSummary,
+  ReadingProblemKind,
   RunCreateRequest,
   RunMetrics,
   RunReport,
   RunSummary,
+  SettleOptions,
   Severity,
   StepLog,
 } from '../types.js';
+import { PerformanceThresholdsSchema, SettleOptionsSchema } from '../types.js';
 import type { AgentLoopResult } from './agentLoop.js';
 import { getPageKey } from './snapshot.js';
+import { A11Y_RULES } from './accessibility.js';
+
+const READING_PROBLEMS: Record<ReadingProblemKind, { title: string; severity: Severity }> = {
+  'visual-order': { title: 'Reading order differs from the layout', severity: 'med' },
+  'hidden-focusable': { title: 'Focusable elements hidden from screen readers', severity: 'med' },
+  'image-alt': { title: 'Images without text alternatives', severity: 'med' },
+  'no-headings': { title: 'Pages without headings', severity: 'low' },
+};
+
+// Actions that fill in or submit a form, after which an error message is a validation failure
+const FORM_ACTIONS = new Set<ActionType>(['fill', 'select', 'check', 'uncheck', 'click', 'press']);
 
 interface ArtifactPaths {
   traceZip?: string;
@@ -20,20 +40,31 @@ export function evaluateRun(
   runId: string,
   config: RunCreateRequest,
   result: AgentLoopResult,
-  artifacts: ArtifactPaths
+  artifacts: ArtifactPaths,
+  copyFindings: Finding[] = []  // from the optional post-run copy review
 ): RunReport {
-  const { steps, finalStatus, reason, completionEvidence } = result;
+  const { steps, finalStatus, reason, reasonCode, completionEvidence } = result;
 
   // Calculate metrics
   const metrics = calculateMetrics(steps);
 
   // Identify findings
-  const findings = identifyFindings(steps, metrics);
+  const findings = rankFindings(identifyFindings(
+    steps,
+    metrics,
+    config.options?.settle ?? SettleOptionsSchema.parse({}),
+    config.options?.performance ?? PerformanceThresholdsSchema.parse({}),
+    copyFindings
+  ));
+
+  // Files saved under artifacts/downloads/ during the run
+  const downloads = steps.flatMap(step => step.downloads ?? []).filter(d => !d.error).map(d => d.path);
 
   // Build summary
   const summary: RunSummary = {
     outcome: finalStatus,
     reason,
+    reasonCode,
     completionEvidence,
   };
 
@@ -52,10 +83,28 @@ export function evaluateRun(
       video: artifacts.video ? `artifacts/${artifacts.video}` : undefined,
       stepsJson: 'artifacts/steps.json',
       screenshotsDir: 'artifacts/screens/',
+      downloads: downloads.length > 0 ? downloads : undefined,
     },
+    llm: result.llm,
+    mode: config.options?.mode ?? 'standard',
+    readingOrder: summarizeReadingOrder(steps),
   };
 }
 
+/**
+ * Findings from the steps taken so far, for following a run live. They aren't
+ * ranked or capped; the report does that once the run is evaluated.
+ */
+export function identifyLiveFindings(config: RunCreateRequest, steps: StepLog[]): Finding[] {
+  return identifyFindings(
+    steps,
+    calculateMetrics(steps),
+    config.options?.settle ?? SettleOptionsSchema.parse({}),
+    config.options?.performance ?? PerformanceThresholdsSchema.parse({}),
+    []
+  );
+}
+
 function calculateMetrics(steps: StepLog[]): RunMetrics {
   let pageTransitions = 0;
   let backtracks = 0;
@@ -63,6 +112,7 @@ function calculateMetrics(steps: StepLog[]): RunMetrics {
   let stuckEvents = 0;
   let consoleErrors = 0;
   let failedRequests = 0;
+  let repairAttempts = 0;
 
   // Track page visits for backtrack detection
   const pageVisits: string[] = [];
@@ -95,6 +145,7 @@ function calculateMetrics(steps: StepLog[]): RunMetrics {
     // Count errors
     consoleErrors += step.errors.console.length;
     failedRequests += step.errors.network.length;
+    repairAttempts += step.repairs?.length ?? 0;
   }
 
   // Detect stuck events (same page 3+ times in sequence)
@@ -115,10 +166,61 @@ function calculateMetrics(steps: StepLog[]): RunMetrics {
     stuckEvents,
     consoleErrors,
     failedRequests,
+    repairAttempts,
     durationMs,
+    performance: calculatePerformanceMetrics(steps),
   };
 }
 
+function calculatePerformanceMetrics(steps: StepLog[]): PerformanceMetrics | undefined {
+  const timed = steps.filter(step => step.performance);
+  if (timed.length === 0) return undefined;
+
+  const loads = timed.flatMap(step => (step.performance!.navigation ? [step.performance!.navigation] : []));
+  const ttfbs = loads.map(load => load.ttfbMs);
+  const lcps = loads.flatMap(load => (load.lcpMs !== undefined ? [load.lcpMs] : []));
+
+  return {
+    pageLoads: loads.length,
+    medianTtfbMs: median(ttfbs),
+    maxTtfbMs: ttfbs.length > 0 ? Math.max(...ttfbs) : undefined,
+    medianLcpMs: median(lcps),
+    maxLcpMs: lcps.length > 0 ? Math.max(...lcps) : undefined,
+    maxCls: Math.max(0, ...pageLayoutShifts(steps).map(page => page.cls)),
+    longTasks: timed.reduce((sum, step) => sum + step.performance!.longTasks, 0),
+    blockingMs: timed.reduce((sum, step) => sum + step.performance!.blockingMs, 0),
+    transferBytes: timed.reduce((sum, step) => sum + step.performance!.transferBytes, 0),
+  };
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+// Layout shift summed per document: a step that loaded a new page starts a
+// new total. The step with the largest single shift stands in as evidence.
+function pageLayoutShifts(steps: StepLog[]): { cls: number; worstStep: StepLog }[] {
+  const pages: { cls: number; worstStep: StepLog }[] = [];
+  let current: { cls: number; worstStep: StepLog } | null = null;
+
+  for (const step of steps) {
+    const perf = step.performance;
+    if (!perf) continue;
+    if (!current || perf.navigation) {
+      current = { cls: 0, worstStep: step };
+      pages.push(current);
+    }
+    if (perf.cls > (current.worstStep.performance?.cls ?? 0)) {
+      current.worstStep = step;
+    }
+    current.cls = Math.round((current.cls + perf.cls) * 1000) / 1000;
+  }
+  return pages;
+}
+
 function detectStuckEvents(steps: StepLog[]): number {
   if (steps.length < 3) return 0;
 
@@ -144,7 +246,13 @@ function detectStuckEvents(steps: StepLog[]): number {
   return stuckCount;
 }
 
-function identifyFindings(steps: StepLog[], metrics: RunMetrics): Finding[] {
+function identifyFindings(
+  steps: StepLog[],
+  metrics: RunMetrics,
+  settle: SettleOptions,
+  thresholds: PerformanceThresholds,
+  copyFindings: Finding[]
+): Finding[] {
   const findings: Finding[] = [];
 
   // 1. Discoverability issues - agent struggled to find something
@@ -156,7 +264,7 @@ function identifyFindings(steps: StepLog[], metrics: RunMetrics): Finding[] {
         type: 'discoverability',
         severity: window.length >= 6 ? 'high' : 'med',
         title: `Navigation difficulty at ${firstStep.pageTitle}`,
-        details: `Agent spent ${window.length} steps on the same page (${firstStep.url}) without meaningful progress. Actions attempted: ${window.map(s => formatActionShort(s)).join(', ')}`,
+        details: `Agent spent ${window.length} steps on the same page (${firstStep.url}) without any visible change. Actions attempted: ${window.map(s => formatActionShort(s)).join(', ')}`,
         evidence: {
           step: firstStep.i,
           screenshot: firstStep.evidence.screenshot,
@@ -232,11 +340,11 @@ function identifyFindings(steps: StepLog[], metrics: RunMetrics): Finding[] {
     });
   }
 
-  // 6. Validation issues - form errors encountered
+  // 6. Validation issues - form errors shown in response to filling in or submitting a form
   const validationSteps = steps.filter(s =>
+    FORM_ACTIONS.has(s.action.type) &&
     s.result.progress === 'some' &&
-    s.result.notes.toLowerCase().includes('validation') ||
-    s.result.notes.toLowerCase().includes('error')
+    (s.result.notes.toLowerCase().includes('validation') || s.result.notes.toLowerCase().includes('error'))
   );
   if (validationSteps.length > 0) {
     findings.push({
@@ -266,14 +374,419 @@ function identifyFindings(steps: StepLog[], metrics: RunMetrics): Finding[] {
     });
   }
 
+  // 8. Human intervention - the agent couldn't continue without an operator's hint
+  for (const step of steps.filter(s => s.humanInput)) {
+    const input = step.humanInput!;
+    findings.push({
+      type: 'discoverability',
+      severity: 'med',
+      title: input.auto ? 'Agent escalated to a human after getting stuck' : 'Agent asked a human for help',
+      details: `At ${step.pageTitle} the agent asked: "${input.question}". ${input.reply !== null ? `Operator replied: "${input.reply}".` : 'No reply was received.'}`,
+      evidence: {
+        step: step.i,
+        screenshot: step.evidence.screenshot,
+      },
+    });
+  }
+
+  // 9. Unexpected JavaScript dialogs - opened on their own, not in response to an action
+  for (const step of steps.filter(s => s.dialogs?.some(d => d.unexpected))) {
+    const dialog = step.dialogs!.find(d => d.unexpected)!;
+    findings.push({
+      type: 'bug',
+      severity: dialog.type === 'alert' ? 'low' : 'med',
+      title: `Unexpected ${dialog.type} dialog`,
+      details: `A JavaScript ${dialog.type} dialog opened on ${step.pageTitle} without the agent doing anything: "${dialog.message}". Native dialogs block the page until answered.`,
+      evidence: {
+        step: step.i,
+        screenshot: step.evidence.screenshot,
+      },
+    });
+  }
+
+  // 10. Slow transitions - the page took long to settle after an action
+  const slowSteps = steps.filter(s => s.result.settle && (s.result.settle.timedOut || s.result.settle.ms >= settle.slowMs));
+  if (slowSteps.length > 0) {
+    const slowest = slowSteps.reduce((a, b) => (b.result.settle!.ms > a.result.settle!.ms ? b : a));
+    const timing = slowest.result.settle!;
+    const stillBusy = timing.timedOut
+      ? ` and was still busy${timing.waitingOn?.length ? ` (${timing.waitingOn.join(', ')})` : ''} when the agent stopped waiting`
+      : '';
+    findings.push({
+      type: 'performance',
+      severity: timing.timedOut || timing.ms >= 2 * settle.slowMs ? 'med' : 'low',
+      title: `Slow page transitions (${slowSteps.length} step${slowSteps.length === 1 ? '' : 's'} over ${settle.slowMs / 1000}s)`,
+      details: `Slowest: the page took ${(timing.ms / 1000).toFixed(1)}s to settle after ${formatActionShort(slowest)} on ${slowest.pageTitle}${stillBusy}.`,
+      evidence: {
+        step: slowest.i,
+        screenshot: slowest.evidence.screenshot,
+      },
+    });
+  }
+
+  // 11-15. Page timing over the run's performance thresholds
+  findings.push(...identifyPerformanceFindings(steps, thresholds));
+
+  // 16. Accessibility rule violations, one finding per rule
+  findings.push(...identifyAccessibilityFindings(steps));
+
+  // 17-19. Keyboard-only runs: unreachable controls, invisible focus, focus traps
+  findings.push(...identifyKeyboardFindings(steps));
+
+  // 20-23. Screen-reader runs: problems reading the pages, one finding per kind
+  findings.push(...identifyReadingFindings(steps));
+
+  // 24. Copy issues the model found in the UI text (ranked with the rest)
+  findings.push(...copyFindings);
+
+  return findings;
+}
+
+function rankFindings(findings: Finding[]): Finding[] {
   // Sort findings by severity
   const severityOrder = { high: 0, med: 1, low: 2 };
   findings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
 
-  // Limit to top 7 findings
-  return findings.slice(0, 7);
+  // Limit to the top 7 findings, besides accessibility findings: there is at
+  // most one per rule or problem kind, and they're all kept
+  const others = findings.filter(f => f.type !== 'accessibility').slice(0, 7);
+  return findings.filter(f => f.type === 'accessibility' || others.includes(f));
+}
+
+// One finding per measure, with the worst step as evidence. Going over twice
+// the threshold raises the severity, as for slow transitions.
+function identifyPerformanceFindings(steps: StepLog[], thresholds: PerformanceThresholds): Finding[] {
+  const findings: Finding[] = [];
+  const worstOver = (value: (step: StepLog) => number | undefined, limit: number) => {
+    const over = steps.filter(step => (value(step) ?? 0) > limit);
+    if (over.length === 0) return null;
+    const worst = over.reduce((a, b) => (value(b)! > value(a)! ? b : a));
+    return { over, worst, value: value(worst)!, severity: (value(worst)! >= 2 * limit ? 'med' : 'low') as Severity };
+  };
+  const evidenceOf = (step: StepLog) => ({ step: step.i, screenshot: step.evidence.screenshot });
+  const pageOf = (step: StepLog) => step.performance?.navigation?.url ?? step.url;
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+  const ttfb = worstOver(step => step.performance?.navigation?.ttfbMs, thresholds.ttfbMs);
+  if (ttfb) {
+    findings.push({
+      type: 'performance',
+      severity: ttfb.severity,
+      title: `Slow server response (${plural(ttfb.over.length, 'page load')} over ${thresholds.ttfbMs}ms to first byte)`,
+      details: `Slowest: ${pageOf(ttfb.worst)} took ${ttfb.value}ms to start responding.`,
+      evidence: evidenceOf(ttfb.worst),
+    });
+  }
+
+  const lcp = worstOver(step => step.performance?.navigation?.lcpMs, thresholds.lcpMs);
+  if (lcp) {
+    findings.push({
+      type: 'performance',
+      severity: lcp.severity,
+      title: `Slow largest contentful paint (${plural(lcp.over.length, 'page load')} over ${(thresholds.lcpMs / 1000).toFixed(1)}s)`,
+      details: `Slowest: the main content of ${pageOf(lcp.worst)} took ${(lcp.value / 1000).toFixed(1)}s to render.`,
+      evidence: evidenceOf(lcp.worst),
+    });
+  }
+
+  const shifting = pageLayoutShifts(steps).filter(page => page.cls > thresholds.cls);
+  if (shifting.length > 0) {
+    const worst = shifting.reduce((a, b) => (b.cls > a.cls ? b : a));
+    findings.push({
+      type: 'performance',
+      severity: worst.cls >= 2 * thresholds.cls ? 'med' : 'low',
+      title: `Layout shifts (${plural(shifting.length, 'page')} over CLS ${thresholds.cls})`,
+      details: `Worst: content on ${worst.worstStep.pageTitle} moved without user input (CLS ${worst.cls}), which makes targets jump under the pointer.`,
+      evidence: evidenceOf(worst.worstStep),
+    });
+  }
+
+  const blocking = worstOver(step => step.performance?.blockingMs, thresholds.blockingMs);
+  if (blocking) {
+    const tasks = blocking.worst.performance!.longTasks;
+    findings.push({
+      type: 'performance',
+      severity: blocking.severity,
+      title: `Main thread blocked by long tasks (${plural(blocking.over.length, 'step')} over ${thresholds.blockingMs}ms)`,
+      details: `Worst: ${plural(tasks, 'long task')} blocked input for ${blocking.value}ms around ${formatActionShort(blocking.worst)} on ${blocking.worst.pageTitle}.`,
+      evidence: evidenceOf(blocking.worst),
+    });
+  }
+
+  const heavy = worstOver(step => step.performance?.transferBytes, thresholds.transferBytes);
+  if (heavy) {
+    findings.push({
+      type: 'performance',
+      severity: heavy.severity,
+      title: `Heavy page weight (${plural(heavy.over.length, 'step')} over ${formatBytes(thresholds.transferBytes)})`,
+      details: `Heaviest: ${formatBytes(heavy.value)} was downloaded around ${formatActionShort(heavy.worst)} on ${heavy.worst.pageTitle}.`,
+      evidence: evidenceOf(heavy.worst),
+    });
+  }
+
+  return findings;
 }
 
+// The same violation on the same page is reported once however many steps
+// saw it. Rules that flag controls the agent couldn't name get more severe
+// when they keep coming up.
+function identifyAccessibilityFindings(steps: StepLog[]): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const rule of A11Y_RULES) {
+    const seen = new Set<string>();
+    const pages = new Set<string>();
+    const examples: string[] = [];
+    let first: StepLog | null = null;
+    let pageLevel = true;  // e.g. a missing landmark, counted in pages
+
+    for (const step of steps) {
+      const path = new URL(step.url).pathname;
+      for (const violation of step.accessibility ?? []) {
+        if (violation.rule !== rule.id) continue;
+        const key = `${path}|${violation.target ?? violation.message}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pages.add(path);
+        pageLevel &&= !violation.target;
+        first ??= step;
+        if (examples.length < 3) {
+          examples.push(`${violation.target ? `${violation.target}: ` : ''}${violation.message} (${step.pageTitle || path})`);
+        }
+      }
+    }
+    if (!first) continue;
+
+    const pageCount = `${pages.size} page${pages.size === 1 ? '' : 's'}`;
+    findings.push({
+      type: 'accessibility',
+      severity: rule.severity === 'med' && seen.size >= 5 ? 'high' : rule.severity,
+      title: `${rule.title} (${pageLevel ? pageCount : `${seen.size} on ${pageCount}`})`,
+      details: `${examples.join('; ')}${seen.size > examples.length ? `; and ${seen.size - examples.length} more` : ''}.`,
+      evidence: {
+        step: first.i,
+        screenshot: first.evidence.screenshot,
+      },
+    });
+  }
+
+  return findings;
+}
+
+function identifyKeyboardFindings(steps: StepLog[]): Finding[] {
+  const findings: Finding[] = [];
+
+  const unreachable = collectFocusStops(steps, keyboard => keyboard.unreachable);
+  if (unreachable) {
+    findings.push({
+      type: 'accessibility',
+      severity: unreachable.count >= 5 ? 'high' : 'med',
+      title: `Controls unreachable by keyboard (${unreachable.count} on ${formatPageCount(unreachable.pages)})`,
+      details: `These respond to clicks but Tab never reaches them: ${unreachable.examples.join('; ')}${unreachable.count > unreachable.examples.length ? `; and ${unreachable.count - unreachable.examples.length} more` : ''}.`,
+      evidence: {
+        step: unreachable.first.i,
+        screenshot: unreachable.first.evidence.screenshot,
+      },
+    });
+  }
+
+  const invisible = collectFocusStops(steps, keyboard => (
+    keyboard.focused && keyboard.focusVisible === false ? [keyboard.focused] : []
+  ));
+  if (invisible) {
+    findings.push({
+      type: 'accessibility',
+      severity: 'med',
+      title: `Focus not visible (${invisible.count} element${invisible.count === 1 ? '' : 's'} on ${formatPageCount(invisible.pages)})`,
+      details: `Nothing shows where keyboard focus is on: ${invisible.examples.join('; ')}${invisible.count > invisible.examples.length ? `; and ${invisible.count - invisible.examples.length} more` : ''}.`,
+      evidence: {
+        step: invisible.first.i,
+        screenshot: invisible.first.evidence.screenshot,
+      },
+    });
+  }
+
+  const traps = findKeyboardTraps(steps);
+  if (traps.length > 0) {
+    const [first] = traps;
+    findings.push({
+      type: 'accessibility',
+      severity: 'high',
+      title: `Keyboard focus trap (${formatPageCount(new Set(traps.map(trap => new URL(trap.step.url).pathname)))})`,
+      details: traps.slice(0, 3).map(trap => (
+        `On ${trap.step.pageTitle || new URL(trap.step.url).pathname}, Tab kept cycling through ${trap.cycle.map(formatFocusStop).join(', ')} and never reached the other ${trap.tabStops - trap.cycle.length} tab stops`
+      )).join('; ') + '.',
+      evidence: {
+        step: first.step.i,
+        screenshot: first.step.evidence.screenshot,
+      },
+    });
+  }
+
+  return findings;
+}
+
+function identifyReadingFindings(steps: StepLog[]): Finding[] {
+  return groupReadingProblems(steps).map(group => {
+    const { severity, title } = READING_PROBLEMS[group.kind];
+    const pageCount = formatPageCount(group.pages);
+    return {
+      type: 'accessibility' as const,
+      severity: severity === 'med' && group.count >= 5 ? 'high' as const : severity,
+      title: `${title} (${group.kind === 'no-headings' ? pageCount : `${group.count} on ${pageCount}`})`,
+      details: `${group.examples.join('; ')}${group.count > group.examples.length ? `; and ${group.count - group.examples.length} more` : ''}.`,
+      evidence: {
+        step: group.first.i,
+        screenshot: group.first.evidence.screenshot,
+      },
+    };
+  });
+}
+
+// The report's summary of what got in the way on the pages a screen-reader run read
+function summarizeReadingOrder(steps: StepLog[]): ReadingOrderSummary | undefined {
+  const read = steps.filter(step => step.snapshot.screenReader);
+  if (read.length === 0) return undefined;
+  return {
+    pages: new Set(read.map(step => new URL(step.url).pathname)).size,
+    problems: groupReadingProblems(steps).map(group => ({
+      kind: group.kind,
+      title: READING_PROBLEMS[group.kind].title,
+      count: group.count,
+      pages: group.pages.size,
+      examples: group.examples,
+    })),
+  };
+}
+
+// Reading problems by kind, each counted once per page however many steps saw it
+function groupReadingProblems(steps: StepLog[]): {
+  kind: ReadingProblemKind;
+  count: number;
+  pages: Set<string>;
+  examples: string[];
+  first: StepLog;
+}[] {
+  return (Object.keys(READING_PROBLEMS) as ReadingProblemKind[]).flatMap(kind => {
+    const seen = new Set<string>();
+    const pages = new Set<string>();
+    const examples: string[] = [];
+    let first: StepLog | null = null;
+
+    for (const step of steps) {
+      const path = new URL(step.url).pathname;
+      for (const problem of step.snapshot.screenReader?.problems ?? []) {
+        if (problem.kind !== kind) continue;
+        const key = `${path}|${problem.target ?? ''}|${problem.message}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pages.add(path);
+        first ??= step;
+        if (examples.length < 3) {
+          const what = problem.target && !problem.message.includes(problem.target) ? `${problem.target}: ${problem.message}` : problem.message;
+          examples.push(`${what} (${step.pageTitle || path})`);
+        }
+      }
+    }
+    return first ? [{ kind, count: seen.size, pages, examples, first }] : [];
+  });
+}
+
+// Distinct focus stops picked from each keyboard snapshot, per page
+function collectFocusStops(
+  steps: StepLog[],
+  pick: (keyboard: KeyboardState) => FocusStop[]
+): { count: number; pages: Set<string>; examples: string[]; first: StepLog } | null {
+  const seen = new Set<string>();
+  const pages = new Set<string>();
+  const examples: string[] = [];
+  let first: StepLog | null = null;
+
+  for (const step of steps) {
+    if (!step.snapshot.keyboard) continue;
+    const path = new URL(step.url).pathname;
+    for (const stop of pick(step.snapshot.keyboard)) {
+      const key = `${path}|${stop.element}|${stop.name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      pages.add(path);
+      first ??= step;
+      if (examples.length < 3) {
+        examples.push(`${formatFocusStop(stop)} (${step.pageTitle || path})`);
+      }
+    }
+  }
+  return first ? { count: seen.size, pages, examples, first } : null;
+}
+
+/**
+ * Runs of Tab (or Shift+Tab) presses on one page where focus came back to an
+ * element it had already visited before getting round more than half the tab
+ * order. Cycling inside a modal dialog is expected.
+ */
+function findKeyboardTraps(steps: StepLog[]): { step: StepLog; cycle: FocusStop[]; tabStops: number }[] {
+  const traps: { step: StepLog; cycle: FocusStop[]; tabStops: number }[] = [];
+  const reported = new Set<string>();  // one trap per page
+  let visited: { key: string; stop: FocusStop }[] = [];
+  let lastKey = '';
+
+  // Where focus went after a press is in the next step's snapshot
+  for (let i = 0; i + 1 < steps.length; i++) {
+    const { action, url, snapshot } = steps[i];
+    const next = steps[i + 1];
+    const path = new URL(url).pathname;
+    const focused = next.snapshot.keyboard?.focused;
+    const isTab = action.type === 'press' && !action.target && (action.key === 'Tab' || action.key === 'Shift+Tab');
+    if (!isTab || !focused || new URL(next.url).pathname !== path || reported.has(path)) {
+      visited = [];
+      continue;
+    }
+
+    // Going back and forth isn't a cycle, so a change of direction starts over
+    if (action.key !== lastKey || visited.length === 0) {
+      visited = snapshot.keyboard?.focused ? [{ key: focusKey(snapshot.keyboard.focused), stop: snapshot.keyboard.focused }] : [];
+      lastKey = action.key;
+    }
+
+    const key = focusKey(focused);
+    const start = visited.findIndex(entry => entry.key === key);
+    if (start === -1) {
+      visited.push({ key, stop: focused });
+      continue;
+    }
+    const cycle = visited.slice(start).map(entry => entry.stop);
+    const tabStops = next.snapshot.keyboard!.tabOrder.length;
+    if (cycle.length < tabStops / 2 && !cycle.every(stop => stop.inModal)) {
+      traps.push({ step: next, cycle, tabStops });
+      reported.add(path);
+    }
+    visited = [];
+  }
+
+  return traps;
+}
+
+function focusKey(stop: FocusStop): string {
+  return `${stop.element}|${stop.name}`;
+}
+
+function formatFocusStop(stop: FocusStop): string {
+  return stop.name ? `${stop.role} "${stop.name}"` : stop.element;
+}
+
+function formatPageCount(pages: Set<string>): string {
+  return `${pages.size} page${pages.size === 1 ? '' : 's'}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+  if (bytes >= 1000) return `${Math.round(bytes / 1000)} kB`;
+  return `${bytes} B`;
+}
+
+// Runs of steps on one page where the action changed nothing. A step that
+// made progress (a modal opened, a field filled, a tab panel switched) ends
+// the run, so single-page apps aren't reported as stuck while moving along.
 function findStuckWindows(steps: StepLog[]): StepLog[][] {
   const windows: StepLog[][] = [];
   let currentWindow: StepLog[] = [];
@@ -281,14 +794,15 @@ function findStuckWindows(steps: StepLog[]): StepLog[][] {
 
   for (const step of steps) {
     const pageKey = getPageKey(step.snapshot);
+    const madeProgress = step.result.progress !== 'none';
 
-    if (pageKey === lastPageKey) {
+    if (pageKey === lastPageKey && !madeProgress) {
       currentWindow.push(step);
     } else {
       if (currentWindow.length >= 3) {
         windows.push(currentWindow);
       }
-      currentWindow = [step];
+      currentWindow = madeProgress ? [] : [step];
       lastPageKey = pageKey;
     }
   }
@@ -338,5 +852,27 @@ function formatActionShort(step: StepLog): string {
       return `help`;
     case 'done':
       return `done`;
+    case 'askHuman':
+      return `ask`;
+    case 'press':
+      return `press(${action.key})`;
+    case 'hover':
+      return `hover`;
+    case 'check':
+      return `check`;
+    case 'uncheck':
+      return `uncheck`;
+    case 'focus':
+      return `focus`;
+    case 'switchTab':
+      return `switchTab`;
+    case 'closeTab':
+      return `closeTab`;
+    case 'upload':
+      return `upload`;
+    case 'acceptDialog':
+      return `acceptDialog`;
+    case 'dismissDialog':
+      return `dismissDialog`;
   }
 }
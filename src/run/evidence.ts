@@ -1,5 +1,5 @@
-import type { Page, BrowserContext } from 'playwright';
-import type { StepErrors } from '../types.js';
+import type { Page, BrowserContext, Dialog } from 'playwright';
+import type { DialogRecord, DialogType, PageDialog, StepErrors, StepPerformance } from '../types.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -11,8 +11,18 @@ export interface EvidenceCollector {
   startCapture(page: Page): void;
   stopCapture(page: Page): void;
   takeScreenshot(page: Page, stepIndex: number): Promise<string>;
+  captureViewport(page: Page): Promise<Buffer>;
   getStepErrors(): StepErrors;
   clearStepErrors(): void;
+  // JavaScript dialogs: held open for the agent while holdDialogs(true), dismissed otherwise
+  holdDialogs(hold: boolean): void;
+  getPendingDialog(): PageDialog | null;
+  respondToDialog(accept: boolean, text?: string): Promise<PageDialog>;
+  // Resolves when the next dialog is held open; cancel() stops waiting
+  nextDialog(): { promise: Promise<PageDialog>; cancel(): void };
+  takeStepDialogs(): DialogRecord[];      // dialogs seen since the last call
+  // Page timing recorded by the browser since the last call on the same document
+  collectPerformance(page: Page): Promise<StepPerformance | undefined>;
 }
 
 export function createEvidenceCollector(artifactsDir: string): EvidenceCollector {
@@ -30,6 +40,12 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
   let consoleHandler: ((msg: any) => void) | null = null;
   let errorHandler: ((error: Error) => void) | null = null;
   let responseHandler: ((response: any) => void) | null = null;
+  let dialogHandler: ((dialog: Dialog) => void) | null = null;
+
+  let holdingDialogs = false;
+  let pendingDialog: { dialog: Dialog; info: PageDialog } | null = null;
+  const dialogWaiters = new Set<(info: PageDialog) => void>();
+  let stepDialogs: DialogRecord[] = [];
 
   return {
     consoleMessages,
@@ -82,6 +98,28 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
         }
       };
       page.on('response', responseHandler);
+
+      // JavaScript dialogs block the page until answered, so only hold one open
+      // while the agent is there to answer it
+      dialogHandler = (dialog: Dialog) => {
+        const info: PageDialog = { type: dialog.type() as DialogType, message: dialog.message() };
+        if (info.type === 'prompt') {
+          info.defaultValue = dialog.defaultValue();
+        }
+        stepDialogs.push({ ...info, openedAt: new Date().toISOString() });
+
+        if (!holdingDialogs || pendingDialog) {
+          void dialog.dismiss().catch(() => {});
+          return;
+        }
+        pendingDialog = { dialog, info };
+        const waiters = [...dialogWaiters];
+        dialogWaiters.clear();
+        for (const resolve of waiters) {
+          resolve(info);
+        }
+      };
+      page.on('dialog', dialogHandler);
     },
 
     stopCapture(page: Page): void {
@@ -97,6 +135,10 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
         page.off('response', responseHandler);
         responseHandler = null;
       }
+      if (dialogHandler) {
+        page.off('dialog', dialogHandler);
+        dialogHandler = null;
+      }
     },
 
     async takeScreenshot(page: Page, stepIndex: number): Promise<string> {
@@ -105,6 +147,12 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
       const filename = `step${stepIndex.toString().padStart(3, '0')}.png`;
       const filepath = path.join(screenshotsDir, filename);
 
+      if (pendingDialog) {
+        // An open dialog can stall rendering; don't let it stall the run
+        await page.screenshot({ path: filepath, fullPage: false, timeout: 5000 }).catch(() => {});
+        return `screens/${filename}`;
+      }
+
       await page.screenshot({
         path: filepath,
         fullPage: false, // viewport only for consistent sizing
@@ -113,6 +161,11 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
       return `screens/${filename}`;
     },
 
+    async captureViewport(page: Page): Promise<Buffer> {
+      // In-memory capture for vision mode; the step screenshot on disk is taken after the action
+      return page.screenshot({ fullPage: false, type: 'png' });
+    },
+
     getStepErrors(): StepErrors {
       return {
         console: [...stepConsoleErrors],
@@ -126,9 +179,125 @@ export function createEvidenceCollector(artifactsDir: string): EvidenceCollector
       stepNetworkErrors = [];
       stepException = null;
     },
+
+    holdDialogs(hold: boolean): void {
+      holdingDialogs = hold;
+      if (!hold && pendingDialog) {
+        void pendingDialog.dialog.dismiss().catch(() => {});
+        pendingDialog = null;
+      }
+    },
+
+    getPendingDialog(): PageDialog | null {
+      return pendingDialog?.info ?? null;
+    },
+
+    async respondToDialog(accept: boolean, text?: string): Promise<PageDialog> {
+      if (!pendingDialog) {
+        throw new Error('No dialog is open');
+      }
+      const { dialog, info } = pendingDialog;
+      pendingDialog = null;
+      if (accept) {
+        await dialog.accept(text);
+      } else {
+        await dialog.dismiss();
+      }
+      return info;
+    },
+
+    nextDialog(): { promise: Promise<PageDialog>; cancel(): void } {
+      let waiter: ((info: PageDialog) => void) | undefined;
+      const promise = new Promise<PageDialog>(resolve => {
+        waiter = resolve;
+        dialogWaiters.add(resolve);
+      });
+      return { promise, cancel: () => { dialogWaiters.delete(waiter!); } };
+    },
+
+    takeStepDialogs(): DialogRecord[] {
+      const dialogs = stepDialogs;
+      stepDialogs = [];
+      return dialogs;
+    },
+
+    async collectPerformance(page: Page): Promise<StepPerformance | undefined> {
+      // An open dialog blocks page scripts until it's answered
+      if (pendingDialog || page.isClosed()) return undefined;
+      return readPerformance(page).catch(() => undefined);
+    },
   };
 }
 
+// Reads the buffered performance entries newer than the previous read. The
+// cursor lives on the document, so a new page load starts from zero and
+// reports its navigation timing and LCP once.
+function readPerformance(page: Page): Promise<StepPerformance> {
+  return page.evaluate(() => {
+    const win = globalThis as any;
+    const perf = win.performance;
+    const supported: string[] = win.PerformanceObserver?.supportedEntryTypes ?? [];
+    const buffered = {
+      // Layout shifts, LCP and long tasks are only exposed through observers
+      entries(type: string): any[] {
+        if (!supported.includes(type)) return [];
+        const observer = new win.PerformanceObserver(() => {});
+        observer.observe({ type, buffered: true });
+        const records = observer.takeRecords();
+        observer.disconnect();
+        return records;
+      },
+    };
+
+    const firstRead = win.__coldAgentPerfSince === undefined;
+    const since: number = win.__coldAgentPerfSince ?? 0;
+    win.__coldAgentPerfSince = perf.now();
+    if (firstRead) {
+      perf.setResourceTimingBufferSize?.(2000);
+    }
+
+    let transferBytes = 0;
+    for (const entry of perf.getEntriesByType('resource')) {
+      if (entry.responseEnd > since) transferBytes += entry.transferSize ?? 0;
+    }
+
+    let navigation: StepPerformance['navigation'];
+    const nav = perf.getEntriesByType('navigation')[0];
+    if (firstRead && nav) {
+      const lcp = buffered.entries('largest-contentful-paint').at(-1);
+      navigation = {
+        url: nav.name,
+        ttfbMs: Math.round(nav.responseStart),
+        domContentLoadedMs: Math.round(nav.domContentLoadedEventEnd),
+        loadMs: nav.loadEventEnd > 0 ? Math.round(nav.loadEventEnd) : undefined,
+        lcpMs: lcp ? Math.round(lcp.renderTime || lcp.loadTime || lcp.startTime) : undefined,
+      };
+      transferBytes += nav.transferSize ?? 0;
+    }
+
+    let cls = 0;
+    for (const shift of buffered.entries('layout-shift')) {
+      if (shift.startTime > since && !shift.hadRecentInput) cls += shift.value;
+    }
+
+    let longTasks = 0;
+    let blockingMs = 0;
+    for (const task of buffered.entries('longtask')) {
+      if (task.startTime <= since) continue;
+      longTasks++;
+      blockingMs += Math.max(0, task.duration - 50);
+    }
+
+    return {
+      navigation,
+      cls: Math.round(cls * 1000) / 1000,
+      longTasks,
+      blockingMs: Math.round(blockingMs),
+      transferBytes,
+    };
+  });
+}
+
 export async function startTrace(context: BrowserContext, artifactsDir: string): Promise<void> {
   await context.tracing.start({
     screenshots: true,
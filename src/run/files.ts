@@ -0,0 +1,123 @@
+import type { BrowserContext, Download, Page } from 'playwright';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DownloadRecord } from '../types.js';
+
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+/**
+ * Resolve a run's uploadFixtures (plain file names) to absolute paths under
+ * UPLOAD_FIXTURES_DIR. Throws if any of them is missing so the run fails up
+ * front rather than on the agent's first upload.
+ */
+export async function resolveUploadFixtures(
+  names: string[],
+  dir: string = process.env.UPLOAD_FIXTURES_DIR || 'fixtures'
+): Promise<Record<string, string>> {
+  const root = path.resolve(dir);
+  const fixtures: Record<string, string> = {};
+  for (const name of names) {
+    const filePath = path.join(root, name);
+    if (path.dirname(filePath) !== root) {
+      throw new Error(`Upload fixture "${name}" must be a plain file name`);
+    }
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat?.isFile()) {
+      throw new Error(`Upload fixture "${name}" not found in ${root}`);
+    }
+    fixtures[name] = filePath;
+  }
+  return fixtures;
+}
+
+/**
+ * Saves every download started in the browser context (any tab) into
+ * artifacts/downloads/. The agent loop collects them after each action so
+ * they can be recorded on that step.
+ */
+export interface DownloadCollector {
+  readonly downloads: DownloadRecord[];   // every download recorded so far
+  // Wait for in-flight downloads and attribute them to this step
+  takeStepDownloads(step: number): Promise<DownloadRecord[]>;
+  dispose(): void;
+}
+
+export function createDownloadCollector(context: BrowserContext, artifactsDir: string): DownloadCollector {
+  const downloadsDir = path.join(artifactsDir, 'downloads');
+  const downloads: DownloadRecord[] = [];
+  const usedNames = new Set<string>();
+  let pending: Promise<Omit<DownloadRecord, 'step'>>[] = [];
+
+  const onDownload = (download: Download) => {
+    pending.push(save(download));
+  };
+  const watch = (page: Page) => {
+    page.on('download', onDownload);
+  };
+
+  async function save(download: Download): Promise<Omit<DownloadRecord, 'step'>> {
+    const filename = uniqueName(download.suggestedFilename());
+    const dest = path.join(downloadsDir, filename);
+    const record = { filename, path: `artifacts/downloads/${filename}`, url: download.url() };
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`still downloading after ${DOWNLOAD_TIMEOUT_MS / 1000}s`)), DOWNLOAD_TIMEOUT_MS);
+    });
+    try {
+      await fs.mkdir(downloadsDir, { recursive: true });
+      await Promise.race([download.saveAs(dest), timeout]);
+      const { size } = await fs.stat(dest);
+      return { ...record, bytes: size };
+    } catch (error) {
+      await download.cancel().catch(() => {});
+      const failure = await download.failure().catch(() => null);
+      return { ...record, error: failure ?? (error instanceof Error ? error.message : String(error)) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  function uniqueName(suggested: string): string {
+    const safe = suggested.replace(/[^\w .-]+/g, '_').replace(/^\.+/, '') || 'download';
+    const { name, ext } = path.parse(safe);
+    let candidate = safe;
+    for (let n = 2; usedNames.has(candidate); n++) {
+      candidate = `${name}-${n}${ext}`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+  }
+
+  for (const page of context.pages()) watch(page);
+  context.on('page', watch);
+
+  return {
+    downloads,
+
+    async takeStepDownloads(step: number): Promise<DownloadRecord[]> {
+      const saving = pending;
+      pending = [];
+      const records = (await Promise.all(saving)).map(record => ({ step, ...record }));
+      downloads.push(...records);
+      return records;
+    },
+
+    dispose(): void {
+      context.off('page', watch);
+      for (const page of context.pages()) page.off('download', onDownload);
+    },
+  };
+}
+
+/**
+ * Match a file name against a glob with `*` and `?` wildcards, ignoring case
+ * (used by the mustDownloadFileMatching success hint).
+ */
+export function matchesFilePattern(filename: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(filename);
+}
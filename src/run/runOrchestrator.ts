@@ -1,19 +1,56 @@
 import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { RunCreateRequest, RunReport, RunState, StepLog } from '../types.js';
+import type { Finding, RunCreateRequest, RunEvent, RunReport, RunState, RunStatus, StepLog } from '../types.js';
 import { createEvidenceCollector, startTrace, stopTrace, saveStepsLog } from './evidence.js';
+import { createTabManager } from './tabs.js';
+import { createDownloadCollector, resolveUploadFixtures } from './files.js';
 import { runAgentLoop } from './agentLoop.js';
-import { evaluateRun } from './evaluator.js';
+import type { AgentLoopResult } from './agentLoop.js';
+import { abortable, abortReason, createRunDeadline, isBudgetExceeded } from './deadline.js';
+import { evaluateRun, identifyLiveFindings } from './evaluator.js';
+import { reviewCopy } from './copyReview.js';
+import { getProvider } from '../llm/providers.js';
 
 const RUNS_DIR = 'runs';
 const MAX_CONCURRENT_RUNS = Math.max(1, Number(process.env.MAX_CONCURRENT_RUNS || 2));
 
+export type RunEventListener = (event: RunEvent) => void;
+
+// Outcome of a cancel/pause/resume request
+export type RunControlResult = 'ok' | 'not_found' | 'not_active';
+
 export interface RunOrchestrator {
   startRun(request: RunCreateRequest): Promise<string>;
   getRunReport(runId: string): Promise<RunReport | null>;
   getAllRuns(): Promise<RunReport[]>;
+  /**
+   * Follow a run that is still pending or running. The listener first gets the
+   * current status and any steps and findings so far, then live events up to and
+   * including 'complete'. Returns an unsubscribe function, or null when the run
+   * isn't in progress (unknown or already finished).
+   */
+  subscribe(runId: string, listener: RunEventListener): (() => void) | null;
+  /**
+   * Stop a run. Pending runs leave the queue without launching a browser;
+   * running or paused runs stop at the next check and keep a partial report.
+   */
+  cancelRun(runId: string): Promise<RunControlResult>;
+  // Pausing takes effect before the next step; the current step finishes first
+  pauseRun(runId: string): Promise<RunControlResult>;
+  resumeRun(runId: string): Promise<RunControlResult>;
+  // Answer the question of a run in awaiting_input (human-in-the-loop runs)
+  replyToRun(runId: string, message: string): Promise<RunControlResult>;
+}
+
+interface RunControl {
+  abortController: AbortController;
+  paused: boolean;
+  resumeWaiters: Array<() => void>;
+  answerQuestion?: (reply: string | null) => void;  // set while awaiting_input
+  findingsSent: Map<string, Finding>;  // live findings already sent, by findingKey
 }
 
 // In-memory store for active runs
@@ -21,6 +58,12 @@ const activeRuns = new Map<string, RunState>();
 const pendingQueue: RunState[] = [];
 let runningCount = 0;
 
+const runControls = new Map<string, RunControl>();
+
+// Live events, keyed by runId
+const runEvents = new EventEmitter();
+runEvents.setMaxListeners(0);
+
 export function createRunOrchestrator(): RunOrchestrator {
   return {
     async startRun(request: RunCreateRequest): Promise<string> {
@@ -48,6 +91,8 @@ export function createRunOrchestrator(): RunOrchestrator {
       };
 
       activeRuns.set(runId, runState);
+      runControls.set(runId, { abortController: new AbortController(), paused: false, resumeWaiters: [], findingsSent: new Map() });
+      emitRunEvent({ type: 'status', runId, status: 'pending', at: new Date().toISOString() });
 
       // Enqueue run asynchronously (global concurrency limit)
       enqueueRun(runState);
@@ -63,14 +108,16 @@ export function createRunOrchestrator(): RunOrchestrator {
       }
 
       // Check if run is still in progress
-      if (activeRun && activeRun.status === 'running') {
+      if (activeRun && isInProgress(activeRun.status)) {
         return {
           runId,
-          status: 'running',
+          status: activeRun.status,
           goal: activeRun.config.goal,
           baseUrl: activeRun.config.baseUrl,
           startedAt: activeRun.startedAt.toISOString(),
           findings: [],
+          mode: activeRun.config.options?.mode ?? 'standard',
+          awaitingInput: activeRun.awaitingInput,
           artifacts: {
             stepsJson: 'artifacts/steps.json',
             screenshotsDir: 'artifacts/screens/',
@@ -110,9 +157,265 @@ export function createRunOrchestrator(): RunOrchestrator {
         new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
       );
     },
+
+    subscribe(runId: string, listener: RunEventListener): (() => void) | null {
+      const runState = activeRuns.get(runId);
+      if (!runState || runState.report) {
+        return null;
+      }
+
+      // Catch the subscriber up before attaching it
+      listener(toStatusEvent(runState));
+      for (const step of runState.steps) {
+        listener(toStepEvent(runId, step));
+      }
+      for (const finding of runControls.get(runId)?.findingsSent.values() ?? []) {
+        listener({ type: 'finding', runId, finding });
+      }
+
+      runEvents.on(runId, listener);
+      return () => {
+        runEvents.off(runId, listener);
+      };
+    },
+
+    async cancelRun(runId: string): Promise<RunControlResult> {
+      const runState = activeRuns.get(runId);
+      const control = runControls.get(runId);
+      if (!runState || !control) {
+        return (await runExistsOnDisk(runId)) ? 'not_active' : 'not_found';
+      }
+
+      const queued = pendingQueue.indexOf(runState);
+      if (queued !== -1) {
+        pendingQueue.splice(queued, 1);
+        await cancelBeforeStart(runState);
+        return 'ok';
+      }
+
+      control.abortController.abort('Cancelled via API');
+      releasePause(control);
+      return 'ok';
+    },
+
+    async pauseRun(runId: string): Promise<RunControlResult> {
+      const runState = activeRuns.get(runId);
+      const control = runControls.get(runId);
+      if (!runState || !control) {
+        return (await runExistsOnDisk(runId)) ? 'not_active' : 'not_found';
+      }
+      if (runState.status !== 'running' && runState.status !== 'paused') {
+        return 'not_active';
+      }
+
+      if (!control.paused) {
+        control.paused = true;
+        setRunStatus(runState, 'paused');
+      }
+      return 'ok';
+    },
+
+    async resumeRun(runId: string): Promise<RunControlResult> {
+      const runState = activeRuns.get(runId);
+      const control = runControls.get(runId);
+      if (!runState || !control) {
+        return (await runExistsOnDisk(runId)) ? 'not_active' : 'not_found';
+      }
+      if (runState.status !== 'paused') {
+        return 'not_active';
+      }
+
+      releasePause(control);
+      setRunStatus(runState, 'running');
+      return 'ok';
+    },
+
+    async replyToRun(runId: string, message: string): Promise<RunControlResult> {
+      const runState = activeRuns.get(runId);
+      const control = runControls.get(runId);
+      if (!runState || !control) {
+        return (await runExistsOnDisk(runId)) ? 'not_active' : 'not_found';
+      }
+      if (runState.status !== 'awaiting_input' || !control.answerQuestion) {
+        return 'not_active';
+      }
+
+      control.answerQuestion(message);
+      return 'ok';
+    },
   };
 }
 
+function isInProgress(status: RunStatus): boolean {
+  return status === 'pending' || status === 'running' || status === 'paused' || status === 'awaiting_input';
+}
+
+async function runExistsOnDisk(runId: string): Promise<boolean> {
+  return fs.access(path.join(RUNS_DIR, runId, 'report.json')).then(() => true, () => false);
+}
+
+function releasePause(control: RunControl): void {
+  control.paused = false;
+  for (const resume of control.resumeWaiters.splice(0)) {
+    resume();
+  }
+}
+
+function waitWhilePaused(control: RunControl): Promise<void> {
+  if (!control.paused || control.abortController.signal.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    control.resumeWaiters.push(resolve);
+  });
+}
+
+/**
+ * Park the run in awaiting_input until an operator replies, the wait times
+ * out or the run is cancelled (the last two resolve with null).
+ */
+function waitForOperator(
+  runState: RunState,
+  control: RunControl,
+  question: string,
+  step: number,
+  maxWaitMs: number
+): Promise<string | null> {
+  const signal = control.abortController.signal;
+  if (signal.aborted) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const finish = (reply: string | null) => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      control.answerQuestion = undefined;
+      runState.awaitingInput = undefined;
+      // A pause requested before the question still holds once it's answered
+      if (!signal.aborted) {
+        setRunStatus(runState, control.paused ? 'paused' : 'running');
+      }
+      resolve(reply);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), maxWaitMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    control.answerQuestion = finish;
+    runState.awaitingInput = { question, step, askedAt: new Date().toISOString() };
+    setRunStatus(runState, 'awaiting_input');
+  });
+}
+
+async function cancelBeforeStart(runState: RunState): Promise<void> {
+  const endedAt = new Date().toISOString();
+  const report: RunReport = {
+    runId: runState.runId,
+    status: 'cancelled',
+    goal: runState.config.goal,
+    baseUrl: runState.config.baseUrl,
+    startedAt: runState.startedAt.toISOString(),
+    endedAt,
+    summary: {
+      outcome: 'cancelled',
+      reason: 'Cancelled via API before the run started',
+      completionEvidence: [],
+    },
+    findings: [],
+    artifacts: {
+      stepsJson: 'artifacts/steps.json',
+      screenshotsDir: 'artifacts/screens/',
+    },
+    mode: runState.config.options?.mode ?? 'standard',
+  };
+
+  await saveStepsLog([], runState.artifactsDir);
+  await fs.writeFile(path.join(RUNS_DIR, runState.runId, 'report.json'), JSON.stringify(report, null, 2));
+  completeRun(runState, report);
+}
+
+function emitRunEvent(event: RunEvent): void {
+  runEvents.emit(event.runId, event);
+}
+
+function setRunStatus(runState: RunState, status: RunStatus): void {
+  runState.status = status;
+  emitRunEvent(toStatusEvent(runState));
+}
+
+// Includes the operator question while awaiting_input, so clients can answer it
+function toStatusEvent(runState: RunState): RunEvent {
+  return {
+    type: 'status',
+    runId: runState.runId,
+    status: runState.status,
+    awaitingInput: runState.status === 'awaiting_input' ? runState.awaitingInput : undefined,
+    at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Send the findings a new step produced. Findings that aggregate over steps
+ * (e.g. "Console errors detected (3 total)") are sent once, when they first
+ * appear; the report has the final counts.
+ */
+function emitLiveFindings(runState: RunState, control: RunControl): void {
+  for (const finding of identifyLiveFindings(runState.config, runState.steps)) {
+    const key = findingKey(finding);
+    if (control.findingsSent.has(key)) continue;
+    control.findingsSent.set(key, finding);
+    emitRunEvent({ type: 'finding', runId: runState.runId, finding });
+  }
+}
+
+// Same finding whatever counts its title gives
+function findingKey(finding: Finding): string {
+  return `${finding.type}|${finding.evidence.step}|${finding.title.replace(/\s*\([^)]*\)$/, '')}`;
+}
+
+function toStepEvent(runId: string, step: StepLog): RunEvent {
+  return {
+    type: 'step',
+    runId,
+    step: {
+      i: step.i,
+      timestamp: step.timestamp,
+      url: step.url,
+      pageTitle: step.pageTitle,
+      action: step.action,
+      result: step.result,
+      screenshot: step.evidence.screenshot,
+      usedVision: step.usedVision,
+    },
+  };
+}
+
+/**
+ * Record the final report and tell subscribers: findings not already sent
+ * live (such as copy findings) first, then the final status, then 'complete'.
+ */
+function completeRun(runState: RunState, report: RunReport): void {
+  runState.endedAt = new Date();
+  runState.report = report;
+  const findingsSent = runControls.get(runState.runId)?.findingsSent;
+  runControls.delete(runState.runId);
+
+  for (const finding of report.findings) {
+    if (findingsSent?.has(findingKey(finding))) continue;
+    emitRunEvent({ type: 'finding', runId: runState.runId, finding });
+  }
+  setRunStatus(runState, report.status);
+  emitRunEvent({
+    type: 'complete',
+    runId: runState.runId,
+    status: report.status,
+    reason: report.summary?.reason,
+    error: report.error,
+    at: runState.endedAt.toISOString(),
+  });
+}
+
 function enqueueRun(runState: RunState): void {
   pendingQueue.push(runState);
   void processQueue();
@@ -125,9 +428,7 @@ async function processQueue(): Promise<void> {
     executeRun(next)
       .catch((error) => {
         console.error(`Run ${next.runId} failed:`, error);
-        next.status = 'fail';
-        next.endedAt = new Date();
-        next.report = {
+        completeRun(next, {
           runId: next.runId,
           status: 'fail',
           goal: next.config.goal,
@@ -140,7 +441,7 @@ async function processQueue(): Promise<void> {
             screenshotsDir: 'artifacts/screens/',
           },
           error: error instanceof Error ? error.message : String(error),
-        };
+        });
       })
       .finally(() => {
         runningCount--;
@@ -152,13 +453,23 @@ async function processQueue(): Promise<void> {
 async function executeRun(runState: RunState): Promise<void> {
   const { config, runId, artifactsDir } = runState;
   const options = config.options;
+  const control = runControls.get(runId)!;
 
   let browser: Browser | null = null;
   let context: BrowserContext | null = null;
   let page: Page | null = null;
 
+  // The time budget covers login and the first page load, not just the agent loop
+  const deadline = createRunDeadline(config.budgets.maxMinutes);
+  const signal = AbortSignal.any([control.abortController.signal, deadline.signal]);
+
   try {
-    runState.status = 'running';
+    setRunStatus(runState, 'running');
+
+    // Fail fast on missing upload fixtures, before starting a browser
+    const uploadFixtures = options.uploadFixtures?.length
+      ? await resolveUploadFixtures(options.uploadFixtures)
+      : undefined;
 
     // Launch browser
     browser = await chromium.launch({
@@ -187,9 +498,9 @@ async function executeRun(runState: RunState): Promise<void> {
     // Create page
     page = await context.newPage();
 
-    // Set up network allowlist if provided
+    // Set up network allowlist if provided (on the context so popups and new tabs get it too)
     if (options.networkAllowlist?.length) {
-      await page.route('**/*', (route) => {
+      await context.route('**/*', (route) => {
         const url = route.request().url();
         try {
           const hostname = new URL(url).hostname;
@@ -210,31 +521,68 @@ async function executeRun(runState: RunState): Promise<void> {
     // Set up evidence collector
     const evidence = createEvidenceCollector(artifactsDir);
     evidence.startCapture(page);
-
-    // Handle authentication if provided
-    if (config.auth) {
-      await handleAuthentication(page, config.auth);
-    } else {
-      // Navigate to base URL - use 'load' instead of 'networkidle' to avoid timeouts on sites with continuous network activity
-      await page.goto(config.baseUrl, { waitUntil: 'load', timeout: 30000 });
-      // Give the page a moment to settle
-      await page.waitForTimeout(2000);
+    const tabs = createTabManager(context, page, evidence);
+    const downloads = createDownloadCollector(context, artifactsDir);
+
+    // Handle authentication if provided. Running out of time (or a cancel)
+    // here still produces a report, just with no steps.
+    let result: AgentLoopResult | null = null;
+    try {
+      if (config.auth) {
+        await abortable(handleAuthentication(page, config.auth), signal);
+      } else {
+        // Navigate to base URL - use 'load' instead of 'networkidle' to avoid timeouts on sites with continuous network activity
+        await abortable(page.goto(config.baseUrl, { waitUntil: 'load', timeout: 30000 }), signal);
+        // Give the page a moment to settle
+        await abortable(page.waitForTimeout(2000), signal);
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      const outOfTime = isBudgetExceeded(signal);
+      result = {
+        steps: [],
+        finalStatus: outOfTime ? 'partial' : 'cancelled',
+        reason: `${abortReason(signal)} before the first step`,
+        reasonCode: outOfTime ? 'budget_exceeded' : undefined,
+        completionEvidence: [],
+        llm: { provider: getProvider(options.llm?.provider).name, model: options.llm?.model },
+      };
     }
 
     // Run agent loop
-    const result = await runAgentLoop(page, evidence, {
+    result ??= await runAgentLoop(page, evidence, {
       goal: config.goal,
       maxSteps: config.budgets.maxSteps,
       maxMinutes: config.budgets.maxMinutes,
       successHints: options.successHints,
       artifactsDir,
+      vision: options.vision,
+      settle: options.settle,
+      accessibility: options.accessibility,
+      mode: options.mode,
+      provider: getProvider(options.llm?.provider),
+      model: options.llm?.model,
       onStep: (step) => {
         runState.steps.push(step);
+        emitRunEvent(toStepEvent(runId, step));
+        emitLiveFindings(runState, control);
       },
+      signal: control.abortController.signal,
+      deadline,
+      waitIfPaused: () => waitWhilePaused(control),
+      askHuman: options.humanInTheLoop
+        ? (question, step) => waitForOperator(runState, control, question, step, options.humanInTheLoop!.maxWaitMinutes * 60_000)
+        : undefined,
+      autoEscalateAfter: options.humanInTheLoop?.autoEscalateAfter,
+      tabs,
+      uploadFixtures,
+      downloads,
     });
 
     // Stop evidence capture
-    evidence.stopCapture(page);
+    evidence.stopCapture(tabs.active);
+    tabs.dispose();
+    downloads.dispose();
 
     // Stop tracing
     let traceZip: string | undefined;
@@ -258,21 +606,36 @@ async function executeRun(runState: RunState): Promise<void> {
     // Save final steps log
     await saveStepsLog(result.steps, artifactsDir);
 
+    // Optional copy review of the UI text the agent saw. It's advisory, so a
+    // model failure leaves the report without copy findings rather than failing the run.
+    let copyFindings: Finding[] = [];
+    if (options.copyReview && result.steps.length > 0 && result.finalStatus !== 'cancelled') {
+      try {
+        copyFindings = await reviewCopy(result.steps, {
+          provider: getProvider(options.llm?.provider),
+          model: options.llm?.model,
+          signal: control.abortController.signal,
+        });
+      } catch (error) {
+        console.error(`Copy review for run ${runId} failed:`, error);
+      }
+    }
+
     // Evaluate run and generate report
     const report = evaluateRun(runId, config, result, {
       traceZip,
       video: videoPath,
-    });
+    }, copyFindings);
 
     // Save report
     const reportPath = path.join(RUNS_DIR, runId, 'report.json');
     await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
 
-    runState.status = report.status;
-    runState.endedAt = new Date();
-    runState.report = report;
+    completeRun(runState, report);
 
   } finally {
+    deadline.dispose();
+
     // Cleanup
     if (page) {
       await page.close().catch(() => {});
@@ -0,0 +1,134 @@
+import type { Page, Request } from 'playwright';
+import type { SettleOptions, SettleReason, SettleTiming } from '../types.js';
+
+// Streaming connections never finish, so they don't count as network activity
+const LONG_LIVED_TYPES = new Set(['eventsource', 'websocket']);
+const PROBE_INTERVAL_MS = 50;
+
+/**
+ * Counts the page's in-flight requests so settlePage can wait for a quiet
+ * window. Start it before the action so requests the action fires are seen.
+ */
+export interface RequestTracker {
+  // How long the network has been idle (0 while requests are in flight)
+  quietFor(): number;
+  dispose(): void;
+}
+
+export function trackRequests(page: Page): RequestTracker {
+  const inflight = new Set<Request>();
+  let lastActivity = Date.now();
+
+  const onRequest = (request: Request) => {
+    if (LONG_LIVED_TYPES.has(request.resourceType())) return;
+    inflight.add(request);
+    lastActivity = Date.now();
+  };
+  const onDone = (request: Request) => {
+    if (inflight.delete(request)) lastActivity = Date.now();
+  };
+
+  page.on('request', onRequest);
+  page.on('requestfinished', onDone);
+  page.on('requestfailed', onDone);
+
+  return {
+    quietFor(): number {
+      return inflight.size > 0 ? 0 : Date.now() - lastActivity;
+    },
+
+    dispose(): void {
+      page.off('request', onRequest);
+      page.off('requestfinished', onDone);
+      page.off('requestfailed', onDone);
+    },
+  };
+}
+
+/**
+ * Wait for the page to settle after an action: the load event, then no
+ * requests in flight for networkQuietMs, no DOM mutations for domQuietMs and
+ * no finite animations running. Gives up after maxMs and reports what was
+ * still busy.
+ */
+export async function settlePage(page: Page, requests: RequestTracker, options: SettleOptions): Promise<SettleTiming> {
+  const started = Date.now();
+  const remaining = () => options.maxMs - (Date.now() - started);
+  let waitingOn: SettleReason[] = [];
+
+  while (remaining() > 0 && !page.isClosed()) {
+    waitingOn = [];
+    const loaded = await page.waitForLoadState('load', { timeout: remaining() }).then(() => true, () => false);
+    if (!loaded) {
+      waitingOn.push('load');
+      break;
+    }
+
+    const state = await probeDom(page, options, remaining()).catch(() => null);
+    if (!state) {
+      // The document was replaced mid-probe; wait for the new one
+      await new Promise(r => setTimeout(r, PROBE_INTERVAL_MS));
+      continue;
+    }
+    if (!state.domQuiet) waitingOn.push('dom');
+    if (state.animations > 0) waitingOn.push('animations');
+
+    const networkWait = options.networkQuietMs - requests.quietFor();
+    if (networkWait > 0) waitingOn.push('network');
+
+    if (waitingOn.length === 0) {
+      return { ms: Date.now() - started, timedOut: false };
+    }
+    if (waitingOn.length === 1 && networkWait > 0) {
+      await new Promise(r => setTimeout(r, Math.min(networkWait, Math.max(0, remaining()))));
+    }
+  }
+
+  // A closed tab (closeTab, a popup closing itself) has nothing left to wait for
+  if (page.isClosed()) {
+    return { ms: Date.now() - started, timedOut: false };
+  }
+  return { ms: Date.now() - started, timedOut: true, waitingOn: waitingOn.length > 0 ? waitingOn : undefined };
+}
+
+// Resolves once the DOM has been quiet for domQuietMs with no finite animations
+// running, or after timeoutMs with whatever state the page is in
+function probeDom(
+  page: Page,
+  options: SettleOptions,
+  timeoutMs: number
+): Promise<{ domQuiet: boolean; animations: number }> {
+  return page.evaluate(({ quietMs, timeoutMs, withAnimations, intervalMs }) => new Promise<{ domQuiet: boolean; animations: number }>(resolve => {
+    const doc = (globalThis as any).document;
+    const started = Date.now();
+    let lastMutation = started;
+
+    // Inline style churn (carousels, progress bars) isn't a content change
+    const observer = new (globalThis as any).MutationObserver((records: any[]) => {
+      if (records.some(r => r.type !== 'attributes' || r.attributeName !== 'style')) {
+        lastMutation = Date.now();
+      }
+    });
+    observer.observe(doc, { subtree: true, childList: true, attributes: true, characterData: true });
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const domQuiet = now - lastMutation >= quietMs;
+      const animations = !withAnimations || typeof doc.getAnimations !== 'function'
+        ? 0
+        : doc.getAnimations().filter((a: any) => (
+          a.playState === 'running' && Number.isFinite(a.effect?.getComputedTiming().endTime ?? Infinity)
+        )).length;
+      if ((domQuiet && animations === 0) || now - started >= timeoutMs) {
+        clearInterval(timer);
+        observer.disconnect();
+        resolve({ domQuiet, animations });
+      }
+    }, intervalMs);
+  }), {
+    quietMs: options.domQuietMs,
+    timeoutMs,
+    withAnimations: options.waitForAnimations,
+    intervalMs: PROBE_INTERVAL_MS,
+  });
+}
@@ -1,16 +1,51 @@
-import type { Page } from 'playwright';
-import type { InteractiveElement, PageSnapshot } from '../types.js';
+import type { FrameLocator, Frame, Locator, Page } from 'playwright';
+import type {
+  ContentBlock,
+  ElementLocator,
+  FocusStop,
+  FrameInfo,
+  InteractiveElement,
+  KeyboardState,
+  PageDialog,
+  PageSnapshot,
+  ReadingItem,
+  ReadingProblem,
+  RefTable,
+  ScreenReaderView,
+  TabInfo,
+} from '../types.js';
 
 const MAX_INTERACTIVE_ELEMENTS = 50;
 const MAX_NAV_LINKS = 15;
 const MAX_HEADINGS = 10;
+const MAX_CONTENT_BLOCKS = 80;
+const MAX_CONTENT_BLOCK_CHARS = 300;
+const MAX_CONTENT_CHARS = 3000;
+const MAX_FRAMES = 8;
+const MAX_FRAME_DEPTH = 3;
+const FRAME_TIMEOUT_MS = 3000;
+const MAX_TAB_STOPS = 100;
+const MAX_UNREACHABLE = 20;
+const MAX_CLICKABLE_SCAN = 3000;
+const TAB_ORDER_BEFORE = 3;  // tab stops listed before the focused one
+const TAB_ORDER_AFTER = 8;
+const MAX_READING_ITEMS = 250;
+const MAX_READING_TEXT = 200;
+const MAX_READING_NODES = 3000;
+const MAX_READING_PROBLEMS = 5;  // per kind and page
 
-interface A11yNode {
+export interface A11yNode {
   role: string;
   name: string;
   value?: string;
+  level?: number;
   disabled?: boolean;
   focused?: boolean;
+  checked?: boolean | 'mixed';
+  pressed?: boolean;
+  expanded?: boolean;
+  selected?: boolean;
+  required?: boolean;
   children?: A11yNode[];
 }
 
@@ -33,116 +68,115 @@ const INTERACTIVE_ROLES = new Set([
   'tab',
 ]);
 
-const NAV_ROLES = new Set(['navigation', 'menubar', 'menu']);
-const HEADING_ROLES = new Set(['heading']);
+const LANDMARK_ROLES = new Set(['banner', 'navigation', 'main', 'complementary', 'contentinfo', 'region', 'form', 'search']);
 
-export async function buildSnapshot(page: Page): Promise<PageSnapshot> {
+// Raw element as collected in the page by buildSnapshotFromDOM
+interface DomElement {
+  role: string;
+  name: string;
+  type?: string;
+  value?: string;
+  disabled?: boolean;
+  focused?: boolean;
+  checked?: boolean;
+  css: string;   // unique CSS path at capture time
+  key: string;   // identity attributes (id, href, name, data-testid) used for the fingerprint
+}
+
+// A visible child frame found while walking the frame tree
+interface FrameVisit {
+  info: FrameInfo;
+  frame: Frame;
+}
+
+export interface SnapshotOptions {
+  tabs?: TabInfo[];   // all open tabs; listed in the text when there is more than one
+  dialog?: PageDialog;   // open JavaScript dialog; the page can't be inspected until it's answered
+  keyboard?: boolean;    // keyboard-only run: describe focus and tab order instead of offering refs
+  screenReader?: boolean;  // screen-reader run: the text is only what a screen reader would read out
+}
+
+export async function buildSnapshot(page: Page, options: SnapshotOptions = {}): Promise<PageSnapshot> {
   const url = page.url();
+  if (options.dialog) {
+    return buildDialogSnapshot(url, options.dialog);
+  }
   const title = await page.title();
 
   const headings: string[] = [];
   const navLinks: string[] = [];
   const interactiveElements: InteractiveElement[] = [];
+  const refTable: RefTable = {};
   let hasSearchBox = false;
   let hasHelpLink = false;
-  let refCounter = 0;
-
-  function generateRef(role: string): string {
-    refCounter++;
-    const prefix = role.slice(0, 3).toLowerCase();
-    return `${prefix}_${refCounter}`;
-  }
+  const refCounts = new Map<string, number>();
+  const nameCounts = new Map<string, number>();
 
-  // Try accessibility tree first, fall back to DOM queries
-  let a11ySnapshot: A11yNode | null = null;
-  try {
-    const accessibility = (page as any).accessibility;
-    if (accessibility && typeof accessibility.snapshot === 'function') {
-      a11ySnapshot = await accessibility.snapshot({ interestingOnly: true });
-    }
-  } catch (e) {
-    // Accessibility API not available or failed
+  // Refs come from a fingerprint of the element (not its position), so the same
+  // control keeps its ref across steps; the locator is what we actually act on.
+  function registerElement(role: string, name: string, key: string, css?: string, framePath: string[] = []): string {
+    const scope = framePath.join(' >> ');
+    const ref = makeStableRef(role, name, scope ? `${scope}|${key}` : key, refCounts);
+    const nameKey = `${scope}::${role}::${name}`;
+    const nth = nameCounts.get(nameKey) ?? 0;
+    nameCounts.set(nameKey, nth + 1);
+    refTable[ref] = { framePath, css, role, name, nth };
+    return ref;
   }
 
-  if (a11ySnapshot) {
-    // Process accessibility tree
-    function processNode(node: A11yNode, inNav: boolean = false): void {
-      if (!node) return;
-
-      const role = node.role?.toLowerCase() || '';
-      const name = node.name?.trim() || '';
-
-      // Collect headings
-      if (HEADING_ROLES.has(role) && name && headings.length < MAX_HEADINGS) {
-        headings.push(name);
-      }
-
-      // Track if we're in a navigation region
-      const isNavRegion = inNav || NAV_ROLES.has(role);
-
-      // Collect nav links
-      if (isNavRegion && role === 'link' && name && navLinks.length < MAX_NAV_LINKS) {
-        navLinks.push(name);
-      }
-
-      // Collect interactive elements
-      if (INTERACTIVE_ROLES.has(role) && name && interactiveElements.length < MAX_INTERACTIVE_ELEMENTS) {
-        const element: InteractiveElement = {
-          ref: generateRef(role),
-          role,
-          name,
-        };
-
-        if (node.value !== undefined) {
-          element.value = node.value;
-        }
-        if (node.disabled) {
-          element.disabled = true;
-        }
-        if (node.focused) {
-          element.focused = true;
-        }
+  // Built from the DOM so every element has a CSS path and stable key to locate it by
+  await buildSnapshotFromDOM(page, headings, navLinks, interactiveElements, registerElement);
 
-        interactiveElements.push(element);
+  // Main content (paragraphs, tables, alerts) so the agent can read answers, not just controls
+  const blocks = await extractContentBlocks(page.mainFrame());
 
-        // Check for search box
-        if (role === 'searchbox' ||
-            (role === 'textbox' && /search/i.test(name))) {
-          hasSearchBox = true;
-        }
+  // The main-frame pass doesn't see inside iframes: walk child frames with DOM queries
+  // (same-origin and cross-origin alike) and tag what they contain with the frame ID
+  const visits = await walkChildFrames(page);
+  for (const visit of visits) {
+    if (visit.info.reason) continue;
+    const { info, frame } = visit;
+    try {
+      const remaining = MAX_INTERACTIVE_ELEMENTS - interactiveElements.length;
+      const rawElements = remaining > 0
+        ? await withTimeout(collectDomElements(frame, remaining), FRAME_TIMEOUT_MS, 'timed out')
+        : [];
+      const frameBlocks = await withTimeout(extractContentBlocks(frame), FRAME_TIMEOUT_MS, 'timed out');
 
-        // Check for help link
-        if (role === 'link' && /\bhelp\b/i.test(name)) {
-          hasHelpLink = true;
-        }
+      for (const raw of rawElements) {
+        interactiveElements.push({
+          ...toInteractiveElement(raw, registerElement(raw.role, raw.name, raw.key, raw.css, info.framePath)),
+          frame: info.id,
+        });
       }
-
-      // Recurse into children
-      if (node.children) {
-        for (const child of node.children) {
-          processNode(child, isNavRegion);
-        }
+      for (const block of frameBlocks) {
+        blocks.push({ ...block, landmark: block.landmark ? `${info.id}: ${block.landmark}` : info.id });
       }
+      info.inspected = true;
+    } catch (error) {
+      info.reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
     }
+  }
 
-    processNode(a11ySnapshot);
-  } else {
-    // Fallback: Build snapshot from DOM queries
-    await buildSnapshotFromDOM(page, headings, navLinks, interactiveElements, generateRef);
-
-    // Check for search box and help link in DOM-based elements
-    for (const el of interactiveElements) {
-      if (el.role === 'searchbox' || (el.role === 'textbox' && /search/i.test(el.name))) {
-        hasSearchBox = true;
-      }
-      if (el.role === 'link' && /\bhelp\b/i.test(el.name)) {
-        hasHelpLink = true;
-      }
+  for (const el of interactiveElements) {
+    if (el.role === 'searchbox' || (el.role === 'textbox' && /search/i.test(el.name))) {
+      hasSearchBox = true;
+    }
+    if (el.role === 'link' && /\bhelp\b/i.test(el.name)) {
+      hasHelpLink = true;
     }
   }
 
+  const content = budgetContentBlocks(blocks, MAX_CONTENT_CHARS);
+  const frames = visits.length > 0 ? visits.map(visit => visit.info) : undefined;
+  const tabs = options.tabs && options.tabs.length > 1 ? options.tabs : undefined;
+  const keyboard = options.keyboard ? await collectKeyboardState(page) : undefined;
+  const screenReader = options.screenReader ? await buildScreenReaderView(page, interactiveElements) : undefined;
+
   // Build compact text representation
-  const text = buildCompactText(url, title, headings, navLinks, interactiveElements);
+  const text = screenReader
+    ? buildScreenReaderText(url, title, screenReader, tabs)
+    : buildCompactText(url, title, headings, navLinks, interactiveElements, content, tabs, frames, keyboard);
 
   return {
     type: 'a11y',
@@ -151,18 +185,54 @@ export async function buildSnapshot(page: Page): Promise<PageSnapshot> {
     headings,
     navLinks,
     interactiveElements,
+    refTable,
+    content,
+    tabs,
+    frames,
+    keyboard,
+    screenReader,
     text,
     hasSearchBox,
     hasHelpLink,
   };
 }
 
+/**
+ * Snapshot for a page blocked by a JavaScript dialog: evaluating anything in it
+ * would hang until the dialog is answered, so all the agent gets is the dialog.
+ */
+function buildDialogSnapshot(url: string, dialog: PageDialog): PageSnapshot {
+  const lines = [
+    `Page: (blocked by a JavaScript dialog)`,
+    `URL: ${url}`,
+    ``,
+    `JavaScript ${dialog.type} dialog: "${dialog.message}"`,
+  ];
+  if (dialog.defaultValue) {
+    lines.push(`Default answer: "${dialog.defaultValue}"`);
+  }
+  lines.push(`The page is blocked until you answer it with acceptDialog or dismissDialog.`);
+
+  return {
+    type: 'a11y',
+    url,
+    title: `JavaScript ${dialog.type} dialog`,
+    headings: [],
+    navLinks: [],
+    interactiveElements: [],
+    dialog,
+    text: lines.join('\n'),
+    hasSearchBox: false,
+    hasHelpLink: false,
+  };
+}
+
 async function buildSnapshotFromDOM(
   page: Page,
   headings: string[],
   navLinks: string[],
   interactiveElements: InteractiveElement[],
-  generateRef: (role: string) => string
+  registerElement: (role: string, name: string, key: string, css?: string) => string
 ): Promise<void> {
   // Get headings
   const headingTexts = await page.locator('h1, h2').allTextContents();
@@ -182,95 +252,803 @@ async function buildSnapshotFromDOM(
     }
   }
 
-  // Get buttons
-  const buttons = await page.locator('button:visible, [role="button"]:visible').all();
-  for (const btn of buttons) {
-    if (interactiveElements.length >= MAX_INTERACTIVE_ELEMENTS) break;
-    const name = await btn.textContent() || await btn.getAttribute('aria-label') || '';
-    if (name.trim()) {
-      interactiveElements.push({
-        ref: generateRef('button'),
-        role: 'button',
-        name: name.trim().slice(0, 100),
-      });
+  const rawElements = await collectDomElements(page.mainFrame(), MAX_INTERACTIVE_ELEMENTS).catch((): DomElement[] => []);
+  for (const raw of rawElements) {
+    interactiveElements.push(toInteractiveElement(raw, registerElement(raw.role, raw.name, raw.key, raw.css)));
+  }
+}
+
+/**
+ * Collect buttons, links, form controls and toggles in one pass, with a unique
+ * CSS path each (relative to the frame's own document).
+ */
+function collectDomElements(frame: Frame, maxElements: number): Promise<DomElement[]> {
+  return frame.evaluate((maxElements) => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+    const out: DomElement[] = [];
+
+    // Object methods rather than const arrows: dev-mode transpilers wrap the latter in
+    // name-preserving helpers that don't exist inside the page
+    const dom = {
+      isVisible(el: any): boolean {
+        return el.getClientRects().length > 0 && win.getComputedStyle(el).visibility !== 'hidden';
+      },
+      text(el: any): string {
+        return String(el.textContent || '').replace(/\s+/g, ' ').trim();
+      },
+      labelFor(el: any): string {
+        if (!el.id) return '';
+        const labelEl = doc.querySelector(`label[for="${win.CSS.escape(el.id)}"]`);
+        return labelEl ? dom.text(labelEl) : '';
+      },
+      key(el: any): string {
+        return ['id', 'href', 'name', 'data-testid', 'aria-controls']
+          .map((attr) => el.getAttribute(attr) || '')
+          .join('|');
+      },
+      cssPath(el: any): string {
+        if (el.id && doc.querySelectorAll(`#${win.CSS.escape(el.id)}`).length === 1) {
+          return `#${win.CSS.escape(el.id)}`;
+        }
+        const parts: string[] = [];
+        let node = el;
+        while (node && node.nodeType === 1 && node !== doc.documentElement) {
+          if (node !== el && node.id && doc.querySelectorAll(`#${win.CSS.escape(node.id)}`).length === 1) {
+            parts.unshift(`#${win.CSS.escape(node.id)}`);
+            break;
+          }
+          const tag = node.tagName.toLowerCase();
+          const siblings = node.parentElement
+            ? (Array.from(node.parentElement.children) as any[]).filter((sib) => sib.tagName === node.tagName)
+            : [];
+          parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+          node = node.parentElement;
+        }
+        return parts.join(' > ');
+      },
+      add(el: any, role: string, name: string, extra: { type?: string; value?: string; checked?: boolean } = {}): void {
+        if (out.length >= maxElements) return;
+        out.push({
+          role,
+          name: name.slice(0, 100),
+          ...extra,
+          disabled: el.disabled ? true : undefined,
+          focused: doc.activeElement === el ? true : undefined,
+          css: dom.cssPath(el),
+          key: dom.key(el),
+        });
+      },
+    };
+
+    for (const btn of Array.from(doc.querySelectorAll('button, [role="button"]')) as any[]) {
+      if (!dom.isVisible(btn)) continue;
+      const name = dom.text(btn) || (btn.getAttribute('aria-label') || '').trim();
+      if (name) dom.add(btn, 'button', name);
     }
+
+    for (const link of Array.from(doc.querySelectorAll('a')) as any[]) {
+      if (!dom.isVisible(link)) continue;
+      const name = dom.text(link) || (link.getAttribute('aria-label') || '').trim();
+      if (name.length > 1) dom.add(link, 'link', name);
+    }
+
+    for (const input of Array.from(doc.querySelectorAll('input[type="text"], input[type="search"], input[type="email"], input:not([type]), textarea')) as any[]) {
+      if (!dom.isVisible(input)) continue;
+      const name = (input.getAttribute('aria-label') || dom.labelFor(input) || input.getAttribute('placeholder') || 'text input').trim();
+      const type = input.getAttribute('type') || 'text';
+      dom.add(input, type === 'search' ? 'searchbox' : 'textbox', name, { value: input.value || undefined });
+    }
+
+    for (const input of Array.from(doc.querySelectorAll('input[type="file"]')) as any[]) {
+      if (!dom.isVisible(input)) continue;
+      const wrappingLabel = input.closest('label');
+      const name = (input.getAttribute('aria-label') || dom.labelFor(input) ||
+        (wrappingLabel ? dom.text(wrappingLabel) : '') || 'file upload').trim();
+      dom.add(input, 'button', name, { type: 'file' });
+    }
+
+    for (const select of Array.from(doc.querySelectorAll('select')) as any[]) {
+      if (!dom.isVisible(select)) continue;
+      const name = (select.getAttribute('aria-label') || dom.labelFor(select) || 'dropdown').trim();
+      dom.add(select, 'combobox', name);
+    }
+
+    for (const toggle of Array.from(doc.querySelectorAll('input[type="checkbox"], input[type="radio"], [role="checkbox"], [role="radio"], [role="switch"]')) as any[]) {
+      if (!dom.isVisible(toggle)) continue;
+      const wrappingLabel = toggle.closest('label');
+      const name = (toggle.getAttribute('aria-label') || dom.labelFor(toggle) ||
+        (wrappingLabel ? dom.text(wrappingLabel) : '') || dom.text(toggle) || toggle.getAttribute('value') || '').trim();
+      if (!name) continue;
+      const role = toggle.getAttribute('role') || (toggle.getAttribute('type') === 'radio' ? 'radio' : 'checkbox');
+      const checked = toggle.tagName === 'INPUT' ? Boolean(toggle.checked) : toggle.getAttribute('aria-checked') === 'true';
+      dom.add(toggle, role, name, { checked });
+    }
+
+    return out;
+  }, maxElements);
+}
+
+function toInteractiveElement(raw: DomElement, ref: string): InteractiveElement {
+  const element: InteractiveElement = { ref, role: raw.role, name: raw.name };
+  if (raw.type !== undefined) element.type = raw.type;
+  if (raw.value !== undefined) element.value = raw.value;
+  if (raw.disabled) element.disabled = true;
+  if (raw.focused) element.focused = true;
+  if (raw.checked !== undefined) element.checked = raw.checked;
+  return element;
+}
+
+/**
+ * Focus, tab order and mouse-only controls of the main frame, for keyboard-only
+ * runs. The tab order is the static one (positive tabindex first, then document
+ * order); focus that script moves elsewhere shows up as the focused element.
+ * Whether focus is visible is judged by comparing the focused element's
+ * outline, shadow, border and colours with an unfocused copy of it.
+ */
+function collectKeyboardState(page: Page): Promise<KeyboardState> {
+  return page.evaluate(({ maxStops, maxUnreachable, maxScan }) => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+    const FOCUSABLE = 'a[href], area[href], button, input:not([type="hidden"]), select, textarea, summary, iframe, [contenteditable=""], [contenteditable="true"], [tabindex]';
+    const CONTROL_ROLES = ['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'combobox', 'slider', 'textbox', 'searchbox'];
+    const COMPOSITES = '[role="tablist"], [role="menu"], [role="menubar"], [role="listbox"], [role="radiogroup"], [role="tree"], [role="grid"], [role="toolbar"]';
+    const FOCUS_STYLES = ['outline-style', 'outline-width', 'outline-color', 'box-shadow', 'border-top-color', 'border-bottom-color', 'border-bottom-width', 'background-color', 'color', 'text-decoration-line'];
+
+    // Object methods rather than const arrows: dev-mode transpilers wrap the latter in
+    // name-preserving helpers that don't exist inside the page
+    const dom = {
+      isShown(el: any): boolean {
+        return el.getClientRects().length > 0
+          && win.getComputedStyle(el).visibility !== 'hidden'
+          && !el.closest('[aria-hidden="true"], [inert]');
+      },
+      text(el: any): string {
+        return String(el.textContent || '').replace(/\s+/g, ' ').trim();
+      },
+      name(el: any): string {
+        const labels = Array.from(el.labels || []).map((label: any) => dom.text(label)).join(' ');
+        const name = el.getAttribute('aria-label') || labels ||
+          (el.tagName === 'SELECT' ? '' : dom.text(el)) ||
+          el.getAttribute('placeholder') || el.getAttribute('title') || el.getAttribute('alt') || el.getAttribute('value') || '';
+        return String(name).replace(/\s+/g, ' ').trim().slice(0, 80);
+      },
+      role(el: any): string {
+        const explicit = (el.getAttribute('role') || '').trim();
+        if (explicit) return explicit.split(/\s+/)[0];
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'a' || tag === 'area') return 'link';
+        if (tag === 'button' || tag === 'summary') return 'button';
+        if (tag === 'select') return 'combobox';
+        if (tag === 'textarea') return 'textbox';
+        if (tag === 'iframe') return 'frame';
+        if (tag === 'input') {
+          const type = (el.getAttribute('type') || 'text').toLowerCase();
+          if (['button', 'submit', 'reset', 'image', 'file'].includes(type)) return 'button';
+          if (type === 'checkbox' || type === 'radio') return type;
+          if (type === 'range') return 'slider';
+          if (type === 'number') return 'spinbutton';
+          if (type === 'search') return 'searchbox';
+          return 'textbox';
+        }
+        return el.isContentEditable ? 'textbox' : 'generic';
+      },
+      describe(el: any): string {
+        const attrs = ['id', 'class', 'type', 'href', 'name', 'role']
+          .filter(attr => el.getAttribute(attr))
+          .map(attr => `${attr}="${String(el.getAttribute(attr)).slice(0, 40)}"`);
+        return `<${[el.tagName.toLowerCase(), ...attrs].join(' ')}>`;
+      },
+      stop(el: any): FocusStop {
+        return {
+          role: dom.role(el),
+          name: dom.name(el),
+          element: dom.describe(el),
+          inModal: el.closest('dialog[open], [aria-modal="true"]') ? true : undefined,
+        };
+      },
+      tabbable(el: any): boolean {
+        if (el.disabled || !el.matches(FOCUSABLE) || !dom.isShown(el)) return false;
+        const tabindex = el.getAttribute('tabindex');
+        if (tabindex !== null && tabindex.trim() !== '' && Number(tabindex) < 0) return false;
+        // Only the checked radio of a group (or the first, when none is) is a tab stop
+        if (el.tagName === 'INPUT' && el.type === 'radio' && el.name && !el.checked) {
+          const group = (Array.from(doc.querySelectorAll('input[type="radio"]')) as any[])
+            .filter(radio => radio.name === el.name && radio.form === el.form);
+          if (group.some(radio => radio.checked) || group[0] !== el) return false;
+        }
+        return true;
+      },
+      // Roving tabindex: the other items of a tab list or menu are reached with arrow keys
+      inComposite(el: any): boolean {
+        const composite = el.closest(COMPOSITES);
+        if (!composite) return false;
+        if (dom.tabbable(composite)) return true;
+        return (Array.from(composite.querySelectorAll(FOCUSABLE)) as any[]).some(item => dom.tabbable(item));
+      },
+      focusVisible(el: any): boolean {
+        const copy = el.cloneNode(false);
+        copy.setAttribute('aria-hidden', 'true');
+        copy.setAttribute('tabindex', '-1');
+        copy.style.position = 'absolute';
+        copy.style.pointerEvents = 'none';
+        el.parentNode.insertBefore(copy, el.nextSibling);
+        try {
+          const focused = win.getComputedStyle(el);
+          const unfocused = win.getComputedStyle(copy);
+          return FOCUS_STYLES.some(prop => focused.getPropertyValue(prop) !== unfocused.getPropertyValue(prop));
+        } finally {
+          copy.remove();
+        }
+      },
+    };
+
+    // A modal <dialog> makes the rest of the page inert
+    const modal = (Array.from(doc.querySelectorAll('dialog[open]')) as any[]).find(dialog => {
+      try {
+        return dialog.matches(':modal');
+      } catch {
+        return false;
+      }
+    });
+    const candidates = (Array.from(doc.querySelectorAll(FOCUSABLE)) as any[])
+      .filter(el => dom.tabbable(el) && (!modal || modal.contains(el)));
+    const ordered = [
+      ...candidates.filter(el => el.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex),
+      ...candidates.filter(el => !(el.tabIndex > 0)),
+    ];
+
+    let active = doc.activeElement;
+    while (active && active.shadowRoot && active.shadowRoot.activeElement) {
+      active = active.shadowRoot.activeElement;
+    }
+    const hasFocus = active && active !== doc.body && active !== doc.documentElement;
+    const focusIndex = hasFocus ? ordered.indexOf(active) : -1;
+
+    const unreachable: FocusStop[] = [];
+    const scanned = (Array.from(doc.querySelectorAll('[onclick], [role], a, div, span, li, td, img, svg')) as any[]).slice(0, maxScan);
+    for (const el of scanned) {
+      if (unreachable.length >= maxUnreachable) break;
+      if (dom.tabbable(el) || el.disabled || el.getAttribute('aria-disabled') === 'true' || !dom.isShown(el)) continue;
+      const role = el.getAttribute('role');
+      const style = win.getComputedStyle(el);
+      const parentCursor = el.parentElement ? win.getComputedStyle(el.parentElement).cursor : '';
+      const clickable = el.hasAttribute('onclick') ||
+        (role && CONTROL_ROLES.includes(role)) ||
+        (style.cursor === 'pointer' && parentCursor !== 'pointer');
+      if (!clickable) continue;
+      // Parts of a control that is reachable, or wrappers around one
+      const host = el.parentElement ? el.parentElement.closest(FOCUSABLE) : null;
+      if (host && dom.tabbable(host)) continue;
+      if ((Array.from(el.querySelectorAll(FOCUSABLE)) as any[]).some(inner => dom.tabbable(inner))) continue;
+      if (dom.inComposite(el)) continue;
+      if (el.tagName === 'LABEL' || el.closest('label')) continue;
+      unreachable.push(dom.stop(el));
+    }
+
+    return {
+      focused: hasFocus ? dom.stop(active) : undefined,
+      focusVisible: hasFocus ? dom.focusVisible(active) : undefined,
+      focusIndex: focusIndex >= 0 && focusIndex < maxStops ? focusIndex : undefined,
+      tabOrder: ordered.slice(0, maxStops).map(el => dom.stop(el)),
+      unreachable,
+    };
+  }, { maxStops: MAX_TAB_STOPS, maxUnreachable: MAX_UNREACHABLE, maxScan: MAX_CLICKABLE_SCAN });
+}
+
+/**
+ * The page as a screen reader reads it: an accessibility tree built from the
+ * DOM, linearized in reading order. Walking the DOM also lets the reading
+ * order be checked against the layout.
+ */
+async function buildScreenReaderView(page: Page, elements: InteractiveElement[]): Promise<ScreenReaderView> {
+  const { tree, problems } = await collectReadingTree(page);
+  const items = linearizeA11yTree(tree).slice(0, MAX_READING_ITEMS);
+
+  if (!items.some(item => item.role === 'heading')) {
+    problems.push({ kind: 'no-headings', message: 'Page has no headings to jump between' });
   }
 
-  // Get links
-  const links = await page.locator('a:visible').all();
-  for (const link of links) {
-    if (interactiveElements.length >= MAX_INTERACTIVE_ELEMENTS) break;
-    const name = await link.textContent() || await link.getAttribute('aria-label') || '';
-    if (name.trim() && name.trim().length > 1) {
-      interactiveElements.push({
-        ref: generateRef('link'),
-        role: 'link',
-        name: name.trim().slice(0, 100),
-      });
+  // Refs for the controls the agent can act on, matched by role, name and occurrence
+  const taken = new Set<InteractiveElement>();
+  for (const item of items) {
+    if (!INTERACTIVE_ROLES.has(item.role) || !item.name) continue;
+    const match = elements.find(el => !taken.has(el) && el.role === item.role && el.name.toLowerCase() === item.name.toLowerCase());
+    if (match) {
+      taken.add(match);
+      item.ref = match.ref;
     }
   }
 
-  // Get text inputs
-  const inputs = await page.locator('input:visible[type="text"], input:visible[type="search"], input:visible[type="email"], input:visible:not([type]), textarea:visible').all();
-  for (const input of inputs) {
-    if (interactiveElements.length >= MAX_INTERACTIVE_ELEMENTS) break;
-    const placeholder = await input.getAttribute('placeholder') || '';
-    const ariaLabel = await input.getAttribute('aria-label') || '';
-    const label = await input.evaluate((el) => {
-      const id = (el as any).id;
-      if (id) {
-        const labelEl = (el as any).ownerDocument.querySelector(`label[for="${id}"]`);
-        if (labelEl) return labelEl.textContent || '';
+  return { items, problems };
+}
+
+/**
+ * Flatten an accessibility tree into what a screen reader announces, in order:
+ * landmarks and lists as they start, headings, controls with their states,
+ * images, and runs of text. Adjacent text under one parent is read as one item.
+ */
+export function linearizeA11yTree(root: A11yNode): ReadingItem[] {
+  const items: ReadingItem[] = [];
+
+  function visit(node: A11yNode): void {
+    const role = node.role?.toLowerCase() || '';
+    const name = node.name?.replace(/\s+/g, ' ').trim() || '';
+
+    if (role === 'heading') {
+      items.push({ role, name, level: node.level });
+      return;
+    }
+    if (INTERACTIVE_ROLES.has(role)) {
+      const states = readingStates(node);
+      items.push(states.length > 0 ? { role, name, states } : { role, name });
+      return;
+    }
+    if (role === 'img' || role === 'image') {
+      items.push({ role: 'img', name });
+      return;
+    }
+    if (LANDMARK_ROLES.has(role)) {
+      items.push({ role, name, landmark: true });
+    } else if (role === 'list') {
+      const count = (node.children ?? []).filter(child => child.role === 'listitem').length;
+      items.push({ role, name, states: [`${count} item${count === 1 ? '' : 's'}`] });
+    } else if (['table', 'dialog', 'alertdialog', 'alert', 'status'].includes(role)) {
+      items.push({ role, name });
+    } else if (!node.children?.length && name && role !== 'webarea' && role !== 'rootwebarea') {
+      // Static text, or a leaf with nothing but its name to read
+      items.push({ role: 'text', name: name.slice(0, MAX_READING_TEXT) });
+      return;
+    }
+
+    let text: string[] = [];
+    const flush = () => {
+      const joined = text.join(' ').replace(/\s+/g, ' ').trim();
+      if (joined) items.push({ role: 'text', name: joined.slice(0, MAX_READING_TEXT) });
+      text = [];
+    };
+    for (const child of node.children ?? []) {
+      const childRole = child.role?.toLowerCase();
+      if ((childRole === 'text' || childRole === 'statictext') && !child.children?.length) {
+        text.push(child.name ?? '');
+        continue;
       }
-      return '';
-    });
-    const name = ariaLabel || label || placeholder || 'text input';
-    const type = await input.getAttribute('type') || 'text';
-    const value = await input.inputValue().catch(() => '');
-
-    interactiveElements.push({
-      ref: generateRef('textbox'),
-      role: type === 'search' ? 'searchbox' : 'textbox',
-      name: name.trim().slice(0, 100),
-      value: value || undefined,
-    });
+      flush();
+      visit(child);
+    }
+    flush();
+  }
+
+  visit(root);
+  return items;
+}
+
+function readingStates(node: A11yNode): string[] {
+  const states: string[] = [];
+  if (node.checked !== undefined) {
+    states.push(node.checked === 'mixed' ? 'partially checked' : node.checked ? 'checked' : 'not checked');
+  }
+  if (node.pressed !== undefined) states.push(node.pressed ? 'pressed' : 'not pressed');
+  if (node.expanded !== undefined) states.push(node.expanded ? 'expanded' : 'collapsed');
+  if (node.selected) states.push('selected');
+  if (node.required) states.push('required');
+  if (node.disabled) states.push('disabled');
+  if (node.value) states.push(`value "${node.value}"`);
+  return states;
+}
+
+/**
+ * Build an accessibility tree for the main frame from the DOM, in document
+ * order, along with problems only the DOM shows: text read in a different
+ * order than it is laid out, focusable elements hidden from screen readers,
+ * and images without a text alternative.
+ */
+function collectReadingTree(page: Page): Promise<{ tree: A11yNode; problems: ReadingProblem[] }> {
+  return page.evaluate(({ maxNodes, maxPerKind }) => {
+    const doc = (globalThis as any).document;
+    const win = (globalThis as any).window;
+    const FOCUSABLE = 'a[href], button, input:not([type="hidden"]), select, textarea, summary, [tabindex], [contenteditable="true"]';
+    const SECTIONING = 'article, aside, main, nav, section';
+    const CONTROL_ROLES = ['button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'option'];
+    const problems: ReadingProblem[] = [];
+    let nodes = 0;
+    let orderProblems = 0;
+    let last: { rect: any; label: string } | null = null;
+
+    // Object methods rather than const arrows: dev-mode transpilers wrap the latter in
+    // name-preserving helpers that don't exist inside the page
+    const dom = {
+      text(el: any): string {
+        return String(el.textContent || '').replace(/\s+/g, ' ').trim();
+      },
+      isHidden(el: any, style: any): boolean {
+        return el.hidden || style.display === 'none' || style.visibility === 'hidden' ||
+          el.getAttribute('aria-hidden') === 'true' || el.hasAttribute('inert') ||
+          (style.display !== 'contents' && el.getClientRects().length === 0);
+      },
+      describe(el: any): string {
+        const attrs = ['id', 'class', 'type', 'href', 'src', 'name', 'role']
+          .filter(attr => el.getAttribute(attr))
+          .map(attr => `${attr}="${String(el.getAttribute(attr)).split('?')[0].slice(-40)}"`);
+        return `<${[el.tagName.toLowerCase(), ...attrs].join(' ')}>`;
+      },
+      role(el: any): string {
+        const explicit = (el.getAttribute('role') || '').trim().split(/\s+/)[0];
+        if (explicit) return explicit === 'presentation' ? 'none' : explicit;
+        const tag = el.tagName.toLowerCase();
+        if (/^h[1-6]$/.test(tag)) return 'heading';
+        if (tag === 'a') return el.hasAttribute('href') ? 'link' : 'generic';
+        if (tag === 'button' || tag === 'summary') return 'button';
+        if (tag === 'select') return el.multiple ? 'listbox' : 'combobox';
+        if (tag === 'textarea') return 'textbox';
+        if (tag === 'input') {
+          const type = (el.getAttribute('type') || 'text').toLowerCase();
+          if (['button', 'submit', 'reset', 'image', 'file'].includes(type)) return 'button';
+          if (type === 'checkbox' || type === 'radio') return type;
+          if (type === 'range') return 'slider';
+          if (type === 'number') return 'spinbutton';
+          if (type === 'search') return 'searchbox';
+          return 'textbox';
+        }
+        if (tag === 'img') return el.getAttribute('alt') === '' ? 'none' : 'img';
+        if (tag === 'nav') return 'navigation';
+        if (tag === 'main') return 'main';
+        if (tag === 'aside') return 'complementary';
+        if (tag === 'header') return el.parentElement?.closest(SECTIONING) ? 'generic' : 'banner';
+        if (tag === 'footer') return el.parentElement?.closest(SECTIONING) ? 'generic' : 'contentinfo';
+        if (tag === 'form') return dom.name(el) ? 'form' : 'generic';
+        if (tag === 'section') return dom.name(el) ? 'region' : 'generic';
+        if (tag === 'ul' || tag === 'ol') return 'list';
+        if (tag === 'li') return 'listitem';
+        if (tag === 'table') return 'table';
+        if (tag === 'dialog') return 'dialog';
+        if (tag === 'p') return 'paragraph';
+        if (el.isContentEditable && !el.parentElement?.isContentEditable) return 'textbox';
+        return 'generic';
+      },
+      // Close enough to the accessible name computation for reading the page
+      name(el: any): string {
+        const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+          .map((id: string) => doc.getElementById(id))
+          .filter(Boolean)
+          .map((node: any) => dom.text(node))
+          .join(' ')
+          .trim();
+        if (labelledBy) return labelledBy;
+        const ariaLabel = (el.getAttribute('aria-label') || '').trim();
+        if (ariaLabel) return ariaLabel;
+        const tag = el.tagName;
+        if (tag === 'IMG') return (el.getAttribute('alt') || '').trim();
+        if (tag === 'INPUT' || tag === 'SELECT' || tag === 'TEXTAREA') {
+          const labels = Array.from(el.labels || []).map((label: any) => dom.text(label)).join(' ').trim();
+          if (labels) return labels;
+          const type = (el.getAttribute('type') || '').toLowerCase();
+          if (type === 'submit' || type === 'reset' || type === 'button') {
+            return (el.getAttribute('value') || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '')).trim();
+          }
+          if (type === 'image') return (el.getAttribute('alt') || '').trim();
+          return (el.getAttribute('title') || el.getAttribute('placeholder') || '').trim();
+        }
+        if (['heading', 'link', 'button', 'tab', 'menuitem', 'option', 'checkbox', 'radio', 'switch'].includes(dom.role(el)) || /^H[1-6]$/.test(tag)) {
+          const text = dom.text(el);
+          if (text) return text;
+          const inner = (Array.from(el.querySelectorAll('img[alt], [aria-label]')) as any[])
+            .map(node => node.getAttribute('alt') || node.getAttribute('aria-label') || '')
+            .join(' ')
+            .trim();
+          if (inner) return inner;
+        }
+        return (el.getAttribute('title') || '').trim();
+      },
+      states(el: any, role: string): Record<string, unknown> {
+        const states: Record<string, unknown> = {};
+        if (role === 'checkbox' || role === 'radio' || role === 'switch') {
+          const aria = el.getAttribute('aria-checked');
+          states.checked = el.tagName === 'INPUT' ? Boolean(el.checked) : aria === 'mixed' ? 'mixed' : aria === 'true';
+        }
+        if (el.hasAttribute('aria-pressed')) states.pressed = el.getAttribute('aria-pressed') === 'true';
+        if (el.hasAttribute('aria-expanded')) states.expanded = el.getAttribute('aria-expanded') === 'true';
+        if (el.getAttribute('aria-selected') === 'true') states.selected = true;
+        if (el.required || el.getAttribute('aria-required') === 'true') states.required = true;
+        if (el.disabled || el.getAttribute('aria-disabled') === 'true') states.disabled = true;
+        if (el.tagName === 'SELECT') {
+          states.value = el.selectedOptions?.[0] ? dom.text(el.selectedOptions[0]) : undefined;
+        } else if ((role === 'textbox' || role === 'searchbox' || role === 'spinbutton') && el.value) {
+          states.value = el.getAttribute('type') === 'password' ? '••••' : String(el.value).slice(0, 100);
+        }
+        return states;
+      },
+      // Compare where each piece of content is drawn with where it's read
+      checkOrder(rect: any, label: string, fixed: boolean): void {
+        if (fixed || !rect || rect.width < 2 || rect.height < 2) return;
+        const previous = last;
+        last = { rect, label };
+        if (!previous || orderProblems >= maxPerKind) return;
+        const prev = previous.rect;
+        const overlapsColumn = rect.left < prev.right && rect.right > prev.left;
+        const sameLine = Math.abs((rect.top + rect.bottom) / 2 - (prev.top + prev.bottom) / 2) < Math.min(rect.height, prev.height) / 2;
+        let where = '';
+        if (rect.bottom <= prev.top && overlapsColumn) where = 'above';
+        else if (sameLine && rect.right <= prev.left) where = 'to the left of';
+        if (!where) return;
+        orderProblems++;
+        problems.push({
+          kind: 'visual-order',
+          message: `${label} is read after ${previous.label} but shown ${where} it`,
+          target: label,
+        });
+      },
+      walk(el: any, fixed: boolean): any[] {
+        if (nodes >= maxNodes) return [];
+        const tag = el.tagName;
+        if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD'].includes(tag)) return [];
+        const style = win.getComputedStyle(el);
+        if (dom.isHidden(el, style)) return [];
+        const isFixed = fixed || style.position === 'fixed' || style.position === 'sticky';
+        const role = dom.role(el);
+        nodes++;
+
+        if (role === 'heading' || role === 'img' || CONTROL_ROLES.includes(role)) {
+          const name = dom.name(el).slice(0, 200);
+          const node: any = { role, name, ...dom.states(el, role) };
+          if (role === 'heading') node.level = Number(el.getAttribute('aria-level')) || Number(tag.slice(1)) || 2;
+          if (role === 'img' && !name && !el.hasAttribute('alt') && problems.filter(p => p.kind === 'image-alt').length < maxPerKind) {
+            problems.push({ kind: 'image-alt', message: 'Image has no text alternative', target: dom.describe(el) });
+          }
+          dom.checkOrder(el.getBoundingClientRect(), name ? `${role} "${name.slice(0, 40)}"` : role, isFixed);
+          return [node];
+        }
+
+        const children: any[] = [];
+        for (const child of Array.from(el.childNodes) as any[]) {
+          if (child.nodeType === 3) {
+            const text = String(child.textContent || '').replace(/\s+/g, ' ').trim();
+            if (!text) continue;
+            children.push({ role: 'text', name: text });
+            const range = doc.createRange();
+            range.selectNodeContents(child);
+            const rect = typeof range.getBoundingClientRect === 'function' ? range.getBoundingClientRect() : null;
+            dom.checkOrder(rect, `"${text.slice(0, 40)}"`, isFixed);
+          } else if (child.nodeType === 1) {
+            children.push(...dom.walk(child, isFixed));
+          }
+        }
+
+        // Inline wrappers read as part of the surrounding text
+        if ((role === 'generic' || role === 'none') && (style.display.startsWith('inline') || style.display === 'contents')) return children;
+        return [{ role, name: role === 'generic' || role === 'none' || role === 'paragraph' || role === 'listitem' ? '' : dom.name(el), children }];
+      },
+    };
+
+    const tree = { role: 'WebArea', name: doc.title, children: doc.body ? dom.walk(doc.body, false) : [] };
+
+    // Keyboard focus lands on these, but the screen reader has nothing to say
+    const hidden = (Array.from(doc.querySelectorAll('[aria-hidden="true"]')) as any[])
+      .flatMap(root => [root, ...Array.from(root.querySelectorAll(FOCUSABLE))] as any[])
+      .filter(el => el.matches(FOCUSABLE) && !el.disabled && !(Number(el.getAttribute('tabindex')) < 0) && el.getClientRects().length > 0)
+      .slice(0, maxPerKind);
+    for (const el of hidden) {
+      problems.push({ kind: 'hidden-focusable', message: 'Focusable element is hidden from screen readers (aria-hidden)', target: dom.describe(el) });
+    }
+
+    return { tree, problems };
+  }, { maxNodes: MAX_READING_NODES, maxPerKind: MAX_READING_PROBLEMS });
+}
+
+/**
+ * Walk the frame tree below the main frame in document order. Invisible frames
+ * (tracking pixels, hidden widgets) are skipped; frames we won't or can't look
+ * into get a reason so the snapshot can say so.
+ */
+async function walkChildFrames(page: Page): Promise<FrameVisit[]> {
+  const visits: FrameVisit[] = [];
+  let inspectable = 0;
+
+  async function walk(parent: Frame, parentPath: string[], depth: number): Promise<void> {
+    for (const frame of parent.childFrames()) {
+      const element = await withTimeout(describeFrameElement(frame), FRAME_TIMEOUT_MS, 'timed out').catch(() => null);
+      if (element && !element.visible) continue;
+
+      const info: FrameInfo = {
+        id: `frame${visits.length + 1}`,
+        url: frame.url(),
+        framePath: element ? [...parentPath, element.selector] : parentPath,
+        inspected: false,
+      };
+      if (element?.name) info.name = element.name;
+      visits.push({ info, frame });
+
+      if (!element) {
+        info.reason = 'frame element not found';
+      } else if (frame.url().startsWith('chrome-error://')) {
+        info.reason = 'failed to load';
+      } else if (depth > MAX_FRAME_DEPTH) {
+        info.reason = 'nested too deeply';
+      } else if (inspectable >= MAX_FRAMES) {
+        info.reason = 'too many frames';
+      } else {
+        inspectable++;
+        await walk(frame, info.framePath, depth + 1);
+      }
+    }
   }
 
-  // Get selects
-  const selects = await page.locator('select:visible').all();
-  for (const select of selects) {
-    if (interactiveElements.length >= MAX_INTERACTIVE_ELEMENTS) break;
-    const ariaLabel = await select.getAttribute('aria-label') || '';
-    const label = await select.evaluate((el) => {
-      const id = (el as any).id;
-      if (id) {
-        const labelEl = (el as any).ownerDocument.querySelector(`label[for="${id}"]`);
-        if (labelEl) return labelEl.textContent || '';
+  await walk(page.mainFrame(), [], 1);
+  return visits;
+}
+
+/**
+ * Describe the <iframe>/<frame> element hosting a frame: a selector that finds it
+ * in its parent document, its title or name, and whether it takes up any space.
+ */
+async function describeFrameElement(frame: Frame): Promise<{ selector: string; name: string; visible: boolean }> {
+  const handle = await frame.frameElement();
+  try {
+    return await handle.evaluate((el: any) => {
+      const doc = el.ownerDocument;
+      const win = doc.defaultView;
+      const tag = el.tagName.toLowerCase();
+      const style = win.getComputedStyle(el);
+      const visible = el.getClientRects().length > 0 && style.visibility !== 'hidden' &&
+        el.offsetWidth > 1 && el.offsetHeight > 1;
+      const name = String(el.getAttribute('title') || el.getAttribute('name') || '').trim().slice(0, 60);
+
+      let selector = `${tag} >> nth=${(Array.from(doc.querySelectorAll(tag)) as any[]).indexOf(el)}`;
+      if (el.id && doc.querySelectorAll(`#${win.CSS.escape(el.id)}`).length === 1) {
+        selector = `#${win.CSS.escape(el.id)}`;
       }
-      return '';
+      return { selector, name, visible };
     });
-    const name = ariaLabel || label || 'dropdown';
+  } finally {
+    await handle.dispose().catch(() => {});
+  }
+}
 
-    interactiveElements.push({
-      ref: generateRef('combobox'),
-      role: 'combobox',
-      name: name.trim().slice(0, 100),
-    });
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function extractContentBlocks(frame: Frame): Promise<ContentBlock[]> {
+  try {
+    return await frame.evaluate(({ maxBlocks, maxBlockChars }) => {
+      const doc = (globalThis as any).document;
+      const blocks: { kind: string; landmark?: string; text: string }[] = [];
+      const seenText = new Set<string>();
+      const claimed = new Set<any>();
+
+      // Helpers are object methods (not const arrows) so dev-mode transpilers don't wrap
+      // them in name-preserving helpers that don't exist inside the page
+      const dom = {
+        normalize(el: any): string {
+          return String(el.innerText ?? el.textContent ?? '').replace(/\s+/g, ' ').trim();
+        },
+        isVisible(el: any): boolean {
+          return el.getClientRects().length > 0;
+        },
+        push(kind: string, text: string, landmark?: string): void {
+          if (blocks.length >= maxBlocks || text.length < 2 || seenText.has(text)) return;
+          seenText.add(text);
+          blocks.push({ kind, landmark, text: text.length > maxBlockChars ? `${text.slice(0, maxBlockChars)}…` : text });
+        },
+      };
+
+      // Alerts and live regions first: error banners, toasts, status text
+      for (const el of Array.from(doc.querySelectorAll('[role="alert"], [role="alertdialog"], [aria-live="assertive"], [role="status"], [aria-live="polite"]')) as any[]) {
+        if (!dom.isVisible(el)) continue;
+        const role = el.getAttribute('role');
+        const kind = role === 'alert' || role === 'alertdialog' || el.getAttribute('aria-live') === 'assertive' ? 'alert' : 'status';
+        claimed.add(el);
+        dom.push(kind, dom.normalize(el));
+      }
+
+      // Landmark roots in priority order; fall back to <body> when the page has none
+      const roots: { el: any; landmark: string }[] = [];
+      for (const el of Array.from(doc.querySelectorAll('main, [role="main"]')) as any[]) {
+        roots.push({ el, landmark: 'main' });
+      }
+      for (const el of Array.from(doc.querySelectorAll('article, [role="article"]')) as any[]) {
+        roots.push({ el, landmark: 'article' });
+      }
+      for (const el of Array.from(doc.querySelectorAll('[role="region"][aria-label], [role="region"][aria-labelledby], section[aria-label], section[aria-labelledby]')) as any[]) {
+        const labelledBy = el.getAttribute('aria-labelledby');
+        const labelEl = labelledBy ? doc.getElementById(labelledBy.split(' ')[0]) : null;
+        const label = (el.getAttribute('aria-label') || (labelEl ? dom.normalize(labelEl) : '')).slice(0, 60);
+        roots.push({ el, landmark: label ? `region "${label}"` : 'region' });
+      }
+      if (roots.length === 0 && doc.body) {
+        roots.push({ el: doc.body, landmark: 'body' });
+      }
+
+      const BLOCK_SELECTOR = 'p, li, dt, dd, blockquote, pre, figcaption, h3, h4, h5, h6, table';
+      const SKIP_SELECTOR = 'nav, [role="navigation"], header, footer, [role="banner"], [role="contentinfo"], script, style, noscript, [aria-hidden="true"]';
+
+      for (const root of roots) {
+        for (const el of Array.from(root.el.querySelectorAll(BLOCK_SELECTOR)) as any[]) {
+          if (blocks.length >= maxBlocks) break;
+          if (claimed.has(el) || el.closest(SKIP_SELECTOR) || !dom.isVisible(el)) continue;
+
+          // Skip blocks nested inside something we've already emitted (li > p, alert > p, table > p)
+          let ancestor = el.parentElement;
+          let nested = false;
+          while (ancestor) {
+            if (claimed.has(ancestor)) { nested = true; break; }
+            ancestor = ancestor.parentElement;
+          }
+          claimed.add(el);
+          if (nested) continue;
+
+          if (el.tagName === 'TABLE') {
+            const caption = el.querySelector('caption');
+            if (caption) dom.push('table', dom.normalize(caption), root.landmark);
+            for (const row of Array.from(el.querySelectorAll('tr')) as any[]) {
+              const cells = (Array.from(row.querySelectorAll('th, td')) as any[])
+                .map((cell) => dom.normalize(cell))
+                .filter((cellText) => cellText.length > 0);
+              if (cells.length > 0) dom.push('table', cells.join(' | '), root.landmark);
+            }
+            continue;
+          }
+
+          dom.push('text', dom.normalize(el), root.landmark);
+        }
+      }
+
+      return blocks;
+    }, { maxBlocks: MAX_CONTENT_BLOCKS, maxBlockChars: MAX_CONTENT_BLOCK_CHARS }) as ContentBlock[];
+  } catch {
+    // Page may be mid-navigation or have a restrictive CSP; content is best-effort
+    return [];
   }
 }
 
+/**
+ * Trim extracted content to a character budget. Alerts and status messages are
+ * kept first (they are usually what changed), then body text in document order.
+ */
+export function budgetContentBlocks(blocks: ContentBlock[], maxChars: number): ContentBlock[] {
+  const priority = (block: ContentBlock) => (block.kind === 'alert' ? 0 : block.kind === 'status' ? 1 : 2);
+  const ordered = blocks
+    .map((block, index) => ({ block, index }))
+    .sort((a, b) => priority(a.block) - priority(b.block) || a.index - b.index);
+
+  const kept: ContentBlock[] = [];
+  let used = 0;
+  for (const { block } of ordered) {
+    // A long block that doesn't fit shouldn't crowd out shorter ones after it
+    if (used + block.text.length > maxChars) continue;
+    kept.push(block);
+    used += block.text.length;
+  }
+  return kept;
+}
+
 function buildCompactText(
   url: string,
   title: string,
   headings: string[],
   navLinks: string[],
-  elements: InteractiveElement[]
+  elements: InteractiveElement[],
+  content: ContentBlock[] = [],
+  tabs: TabInfo[] = [],
+  frames: FrameInfo[] = [],
+  keyboard?: KeyboardState
 ): string {
   const lines: string[] = [];
 
   lines.push(`Page: ${title}`);
   lines.push(`URL: ${url}`);
 
+  if (tabs.length > 0) {
+    lines.push(`\nOpen tabs (${tabs.length}):`);
+    for (const tab of tabs) {
+      lines.push(`${tab.active ? '*' : '-'} [${tab.id}] ${tab.title || '(untitled)'} - ${tab.url}${tab.active ? ' (active)' : ''}`);
+    }
+  }
+
   if (headings.length > 0) {
     lines.push(`\nHeadings: ${headings.join(' > ')}`);
   }
@@ -279,26 +1057,143 @@ function buildCompactText(
     lines.push(`\nNav: ${navLinks.join(', ')}`);
   }
 
+  if (keyboard) {
+    lines.push(...formatKeyboardState(keyboard));
+  }
+
   if (elements.length > 0) {
-    lines.push(`\nInteractive elements (${elements.length}):`);
+    // Keyboard-only runs can't act on refs, so the elements are only listed
+    lines.push(keyboard ? `\nOn the page (${elements.length}):` : `\nInteractive elements (${elements.length}):`);
     for (const el of elements) {
-      let desc = `[${el.ref}] ${el.role}: "${el.name}"`;
+      let desc = keyboard ? `${el.role}: "${el.name}"` : `[${el.ref}] ${el.role}: "${el.name}"`;
+      if (el.type === 'file') {
+        desc += ' [file input]';
+      }
       if (el.value) {
         desc += ` (value: "${el.value}")`;
       }
+      if (el.checked !== undefined) {
+        desc += el.checked ? ' [checked]' : ' [unchecked]';
+      }
       if (el.disabled) {
         desc += ' [disabled]';
       }
       if (el.focused) {
         desc += ' [focused]';
       }
+      if (el.frame) {
+        desc += ` (in ${el.frame})`;
+      }
       lines.push(desc);
     }
   }
 
+  if (frames.length > 0) {
+    lines.push(`\nFrames (${frames.length}):`);
+    for (const frame of frames) {
+      const label = frame.name ? `"${frame.name}" ${frame.url}` : frame.url;
+      lines.push(`- [${frame.id}] ${label}${frame.inspected ? '' : ` (not inspected: ${frame.reason ?? 'unknown'})`}`);
+    }
+  }
+
+  const alerts = content.filter(block => block.kind === 'alert' || block.kind === 'status');
+  if (alerts.length > 0) {
+    lines.push(`\nAlerts/status:`);
+    for (const block of alerts) {
+      lines.push(`! [${block.kind}] ${block.text}`);
+    }
+  }
+
+  const body = content.filter(block => block.kind === 'text' || block.kind === 'table');
+  if (body.length > 0) {
+    lines.push(`\nPage content:`);
+    let landmark: string | undefined;
+    for (const block of body) {
+      if (block.landmark && block.landmark !== landmark) {
+        landmark = block.landmark;
+        lines.push(`(${landmark})`);
+      }
+      lines.push(block.kind === 'table' ? `| ${block.text}` : `- ${block.text}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function buildScreenReaderText(url: string, title: string, view: ScreenReaderView, tabs: TabInfo[] = []): string {
+  const lines: string[] = [];
+
+  lines.push(`Page: ${title}`);
+  lines.push(`URL: ${url}`);
+
+  if (tabs.length > 0) {
+    lines.push(`\nOpen tabs (${tabs.length}):`);
+    for (const tab of tabs) {
+      lines.push(`${tab.active ? '*' : '-'} [${tab.id}] ${tab.title || '(untitled)'} - ${tab.url}${tab.active ? ' (active)' : ''}`);
+    }
+  }
+
+  lines.push(`\nScreen reader output, in reading order (${view.items.length} items):`);
+  for (const item of view.items) {
+    lines.push(formatReadingItem(item));
+  }
   return lines.join('\n');
 }
 
+export function formatReadingItem(item: ReadingItem): string {
+  if (item.role === 'text') return item.name;
+
+  let desc: string;
+  if (item.role === 'heading') {
+    desc = `heading level ${item.level ?? 2}`;
+  } else if (item.role === 'img') {
+    desc = 'image';
+  } else {
+    desc = item.landmark ? `${item.role} landmark` : item.role;
+  }
+  if (item.name) {
+    desc += ` "${item.name}"`;
+  } else if (item.role === 'img') {
+    desc += ', no description';
+  } else if (INTERACTIVE_ROLES.has(item.role)) {
+    desc += ', no name';
+  }
+  if (item.states?.length) desc += `, ${item.states.join(', ')}`;
+  if (item.ref) desc += ` [${item.ref}]`;
+  return desc;
+}
+
+function formatKeyboardState(keyboard: KeyboardState): string[] {
+  const lines: string[] = [];
+  const stop = (s: FocusStop) => `${s.role} "${s.name || s.element}"${s.inModal ? ' (in dialog)' : ''}`;
+
+  if (keyboard.focused) {
+    const position = keyboard.focusIndex !== undefined
+      ? ` (tab stop ${keyboard.focusIndex + 1} of ${keyboard.tabOrder.length})`
+      : ' (not in the tab order)';
+    lines.push(`\nKeyboard focus: ${stop(keyboard.focused)}${position}${keyboard.focusVisible === false ? ' [no visible focus indicator]' : ''}`);
+  } else {
+    lines.push(`\nKeyboard focus: none (Tab moves to the first tab stop)`);
+  }
+
+  if (keyboard.tabOrder.length > 0) {
+    const focusIndex = keyboard.focusIndex ?? -1;
+    const start = Math.max(0, focusIndex - TAB_ORDER_BEFORE);
+    const end = Math.min(keyboard.tabOrder.length, Math.max(focusIndex, 0) + TAB_ORDER_AFTER + 1);
+    lines.push(`Tab order (${keyboard.tabOrder.length} stops):`);
+    if (start > 0) lines.push(`  ... ${start} earlier`);
+    for (let i = start; i < end; i++) {
+      lines.push(`${i === focusIndex ? '>' : ' '} ${i + 1}. ${stop(keyboard.tabOrder[i])}`);
+    }
+    if (end < keyboard.tabOrder.length) lines.push(`  ... ${keyboard.tabOrder.length - end} more`);
+  }
+
+  if (keyboard.unreachable.length > 0) {
+    lines.push(`Mouse-only (not reachable with Tab): ${keyboard.unreachable.map(stop).join(', ')}`);
+  }
+  return lines;
+}
+
 export function getPageKey(snapshot: PageSnapshot): string {
   // Create a stable key for detecting loops (url path + primary heading)
   const urlPath = new URL(snapshot.url).pathname;
@@ -335,3 +1230,63 @@ export function findHelpLink(snapshot: PageSnapshot): InteractiveElement | undef
     el => el.role === 'link' && /\bhelp\b/i.test(el.name)
   );
 }
+
+/**
+ * Build a ref from a fingerprint of role, accessible name and identity attributes.
+ * Identical fingerprints on the same page get an occurrence suffix (_2, _3, ...).
+ */
+export function makeStableRef(
+  role: string,
+  name: string,
+  key: string,
+  seen: Map<string, number>
+): string {
+  const prefix = role.slice(0, 3).toLowerCase();
+  const base = `${prefix}_${fingerprint(`${role}|${name}|${key}`)}`;
+  const count = (seen.get(base) ?? 0) + 1;
+  seen.set(base, count);
+  return count === 1 ? base : `${base}_${count}`;
+}
+
+function fingerprint(input: string): string {
+  // FNV-1a, 32-bit; short base36 keeps refs readable in prompts
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(5, '0').slice(-5);
+}
+
+/**
+ * Resolve an element from the snapshot to the exact Playwright locator recorded
+ * in the ref table. Falls back to role + name (+ occurrence index) when the
+ * stored CSS path no longer matches exactly one node.
+ */
+export async function locateElement(
+  page: Page,
+  snapshot: PageSnapshot,
+  element: InteractiveElement
+): Promise<Locator> {
+  const entry: ElementLocator = snapshot.refTable?.[element.ref] ?? {
+    framePath: [],
+    role: element.role,
+    name: element.name,
+    nth: 0,
+  };
+
+  // Elements inside iframes resolve through a FrameLocator chain
+  let scope: Page | FrameLocator = page;
+  for (const selector of entry.framePath) {
+    scope = scope.frameLocator(selector);
+  }
+
+  if (entry.css) {
+    const byCss = scope.locator(entry.css);
+    if (await byCss.count().catch(() => 0) === 1) {
+      return byCss;
+    }
+  }
+
+  return scope.getByRole(entry.role as any, { name: entry.name, exact: true }).nth(entry.nth);
+}
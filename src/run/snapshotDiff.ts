@@ -0,0 +1,188 @@
+import type { ContentBlockKind, InteractiveElement, PageSnapshot, ProgressLevel, SnapshotDiff } from '../types.js';
+
+const MAX_DIFF_TEXT = 120;
+const MAX_LISTED_ITEMS = 10;
+
+// A view swap adds this many elements alongside its new heading; a modal adds fewer
+const VIEW_CHANGE_ELEMENTS = 5;
+
+/**
+ * Compare the snapshots from before and after an action. Only what changed
+ * is kept, so an empty object means the page looked the same.
+ */
+export function diffSnapshots(before: PageSnapshot, after: PageSnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = {};
+
+  if (before.url !== after.url) {
+    diff.url = { from: before.url, to: after.url };
+  }
+  if (before.title !== after.title) {
+    diff.title = { from: before.title, to: after.title };
+  }
+
+  if (after.dialog && !sameDialog(before, after)) {
+    diff.dialogOpened = after.dialog;
+  }
+  if (before.dialog && !sameDialog(before, after)) {
+    diff.dialogClosed = before.dialog;
+  }
+  // A dialog snapshot has no page content to compare against
+  if (before.dialog || after.dialog) {
+    return diff;
+  }
+
+  setList(diff, 'headingsAdded', subtract(after.headings, before.headings));
+  setList(diff, 'headingsRemoved', subtract(before.headings, after.headings));
+
+  const beforeByRef = new Map(before.interactiveElements.map(el => [el.ref, el]));
+  const afterRefs = new Set(after.interactiveElements.map(el => el.ref));
+  setList(diff, 'elementsAdded', after.interactiveElements.filter(el => !beforeByRef.has(el.ref)).map(describeElement));
+  setList(diff, 'elementsRemoved', before.interactiveElements.filter(el => !afterRefs.has(el.ref)).map(describeElement));
+
+  const valuesChanged: string[] = [];
+  for (const el of after.interactiveElements) {
+    const prev = beforeByRef.get(el.ref);
+    if (!prev) continue;
+    if ((prev.value ?? '') !== (el.value ?? '')) {
+      valuesChanged.push(`${describeElement(el)}: "${clip(prev.value ?? '')}" → "${clip(el.value ?? '')}"`);
+    }
+    if (Boolean(prev.checked) !== Boolean(el.checked)) {
+      valuesChanged.push(`${describeElement(el)}: ${el.checked ? 'checked' : 'unchecked'}`);
+    }
+  }
+  setList(diff, 'valuesChanged', valuesChanged);
+
+  const blockTexts = (snapshot: PageSnapshot, kinds: ContentBlockKind[]) => (snapshot.content ?? [])
+    .filter(block => kinds.includes(block.kind))
+    .map(block => block.text);
+  // Status text that only replaced what was there (a clock ticking, a counter
+  // updating) is kept apart from status text that appeared, like a toast
+  const statusAdded = subtract(blockTexts(after, ['status']), blockTexts(before, ['status']));
+  const statusRemoved = subtract(blockTexts(before, ['status']), blockTexts(after, ['status']));
+  const statusReplaced = statusAdded.length <= statusRemoved.length;
+  setList(diff, 'alertsAdded', [
+    ...subtract(blockTexts(after, ['alert']), blockTexts(before, ['alert'])),
+    ...(statusReplaced ? [] : statusAdded),
+  ]);
+  setList(diff, 'statusChanged', statusReplaced ? statusAdded : []);
+  setList(diff, 'contentAdded', subtract(blockTexts(after, ['text', 'table']), blockTexts(before, ['text', 'table'])));
+
+  return diff;
+}
+
+/**
+ * How far an action moved the agent along, judged from what changed on the
+ * page: a new page or view is major, anything else visible is some. Status
+ * text changing in place doesn't count, or a page with a ticking clock would
+ * never look stuck.
+ */
+export function assessProgress(diff: SnapshotDiff): ProgressLevel {
+  if (diff.url && pathOf(diff.url.from) !== pathOf(diff.url.to)) {
+    return 'major';
+  }
+  if (diff.title) {
+    return 'major';
+  }
+  // Client-side route change: the heading was replaced along with the controls
+  if (diff.headingsAdded && (diff.headingsRemoved || (diff.elementsAdded?.length ?? 0) >= VIEW_CHANGE_ELEMENTS)) {
+    return 'major';
+  }
+  const { statusChanged, ...changes } = diff;
+  return Object.keys(changes).length > 0 ? 'some' : 'none';
+}
+
+/**
+ * One-line summary of a diff: the observed effect of an action, used in step
+ * notes and the model's history.
+ */
+export function describeDiff(diff: SnapshotDiff): string {
+  const parts: string[] = [];
+  if (diff.url) parts.push(`URL changed to ${diff.url.to}`);
+  if (diff.title) parts.push(`title changed to "${diff.title.to}"`);
+  if (diff.dialogOpened) parts.push(`${diff.dialogOpened.type} dialog opened: "${diff.dialogOpened.message}"`);
+  if (diff.dialogClosed) parts.push(`${diff.dialogClosed.type} dialog closed`);
+  if (diff.headingsAdded) parts.push(`new heading ${diff.headingsAdded.map(h => `"${h}"`).join(', ')}`);
+  if (diff.elementsAdded) parts.push(`${count(diff.elementsAdded.length, 'element')} added${sample(diff.elementsAdded)}`);
+  if (diff.elementsRemoved) parts.push(`${count(diff.elementsRemoved.length, 'element')} removed${sample(diff.elementsRemoved)}`);
+  if (diff.valuesChanged) parts.push(diff.valuesChanged.length === 1 ? diff.valuesChanged[0] : `${diff.valuesChanged.length} values changed`);
+  if (diff.alertsAdded) parts.push(`alert "${diff.alertsAdded[0]}"`);
+  if (diff.contentAdded) parts.push(`${count(diff.contentAdded.length, 'new text block')}`);
+  if (diff.statusChanged) parts.push(`status now "${diff.statusChanged[0]}"`);
+  return parts.length > 0 ? parts.join('; ') : 'no visible change';
+}
+
+/**
+ * The full diff, one kind of change per line (prompt and report).
+ */
+export function formatDiffLines(diff: SnapshotDiff): string[] {
+  const lines: string[] = [];
+  const quoted = (items: string[]) => list(items.map(item => `"${item}"`));
+  if (diff.url) lines.push(`URL: ${diff.url.from} → ${diff.url.to}`);
+  if (diff.title) lines.push(`Title: "${diff.title.from}" → "${diff.title.to}"`);
+  if (diff.dialogOpened) lines.push(`Dialog opened: ${diff.dialogOpened.type} "${diff.dialogOpened.message}"`);
+  if (diff.dialogClosed) lines.push(`Dialog closed: ${diff.dialogClosed.type} "${diff.dialogClosed.message}"`);
+  if (diff.headingsAdded) lines.push(`Headings added: ${quoted(diff.headingsAdded)}`);
+  if (diff.headingsRemoved) lines.push(`Headings removed: ${quoted(diff.headingsRemoved)}`);
+  if (diff.elementsAdded) lines.push(`Elements added: ${list(diff.elementsAdded)}`);
+  if (diff.elementsRemoved) lines.push(`Elements removed: ${list(diff.elementsRemoved)}`);
+  if (diff.valuesChanged) lines.push(`Values changed: ${list(diff.valuesChanged)}`);
+  if (diff.alertsAdded) lines.push(`New alerts: ${quoted(diff.alertsAdded)}`);
+  if (diff.contentAdded) lines.push(`New text: ${quoted(diff.contentAdded)}`);
+  if (diff.statusChanged) lines.push(`Status text now: ${quoted(diff.statusChanged)}`);
+  return lines;
+}
+
+type DiffList = 'headingsAdded' | 'headingsRemoved' | 'elementsAdded' | 'elementsRemoved' |
+  'valuesChanged' | 'alertsAdded' | 'statusChanged' | 'contentAdded';
+
+function setList(diff: SnapshotDiff, key: DiffList, items: string[]): void {
+  if (items.length > 0) {
+    diff[key] = items.map(clip);
+  }
+}
+
+// Items in `list` beyond the ones `base` already had (multiset difference)
+function subtract(list: string[], base: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const item of base) remaining.set(item, (remaining.get(item) ?? 0) + 1);
+  return list.filter(item => {
+    const left = remaining.get(item) ?? 0;
+    if (left === 0) return true;
+    remaining.set(item, left - 1);
+    return false;
+  });
+}
+
+function sameDialog(before: PageSnapshot, after: PageSnapshot): boolean {
+  return before.dialog?.type === after.dialog?.type && before.dialog?.message === after.dialog?.message;
+}
+
+function describeElement(el: InteractiveElement): string {
+  return `${el.role} "${el.name}"${el.frame ? ` (in ${el.frame})` : ''}`;
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function clip(text: string): string {
+  return text.length > MAX_DIFF_TEXT ? `${text.slice(0, MAX_DIFF_TEXT - 3)}...` : text;
+}
+
+function list(items: string[]): string {
+  const shown = items.slice(0, MAX_LISTED_ITEMS).join(', ');
+  return items.length > MAX_LISTED_ITEMS ? `${shown} and ${items.length - MAX_LISTED_ITEMS} more` : shown;
+}
+
+// A few names after a count, e.g. ' (button "Save", button "Cancel")'
+function sample(items: string[]): string {
+  return items.length <= 3 ? ` (${items.join(', ')})` : ` (${items.slice(0, 3).join(', ')}, ...)`;
+}
+
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,126 @@
+import type { BrowserContext, Page } from 'playwright';
+import type { TabInfo } from '../types.js';
+import type { EvidenceCollector } from './evidence.js';
+
+/**
+ * Tracks every page in the browser context so the agent can follow popups and
+ * target=_blank links. Tabs get short stable IDs (tab1, tab2, ...) in the order
+ * they opened. Evidence capture follows whichever tab is active.
+ */
+export interface TabManager {
+  readonly active: Page;
+  list(): Promise<TabInfo[]>;
+  switchTo(tab: string): Promise<TabInfo>;
+  close(tab?: string): Promise<void>;
+  // Switch to the newest tab opened since the last call, if any
+  followNewTab(): Promise<TabInfo | null>;
+  dispose(): void;
+}
+
+export function createTabManager(
+  context: BrowserContext,
+  initialPage: Page,
+  evidence: EvidenceCollector
+): TabManager {
+  const pages: Page[] = [];
+  const ids = new Map<Page, string>();
+  let nextId = 1;
+  let active = initialPage;
+  let opened: Page[] = [];
+
+  function register(page: Page): void {
+    if (ids.has(page)) return;
+    ids.set(page, `tab${nextId++}`);
+    pages.push(page);
+    page.on('close', () => forget(page));
+  }
+
+  function forget(page: Page): void {
+    const index = pages.indexOf(page);
+    if (index !== -1) pages.splice(index, 1);
+    opened = opened.filter(p => p !== page);
+
+    // Fall back to the most recently opened remaining tab (e.g. an OAuth popup closing itself)
+    if (page === active && pages.length > 0) {
+      activate(pages[pages.length - 1]);
+    }
+  }
+
+  function activate(page: Page): void {
+    if (page === active) return;
+    evidence.stopCapture(active);
+    active = page;
+    evidence.startCapture(page);
+    void page.bringToFront().catch(() => {});
+  }
+
+  async function describe(page: Page): Promise<TabInfo> {
+    return {
+      id: ids.get(page)!,
+      title: await page.title().catch(() => ''),
+      url: page.url(),
+      active: page === active,
+    };
+  }
+
+  async function find(tab: string): Promise<Page> {
+    const wanted = tab.trim().toLowerCase();
+    const byId = pages.find(p => ids.get(p) === wanted);
+    if (byId) return byId;
+
+    for (const page of pages) {
+      const info = await describe(page);
+      if (info.title.toLowerCase().includes(wanted) || info.url.toLowerCase().includes(wanted)) {
+        return page;
+      }
+    }
+    throw new Error(`No open tab matches "${tab}"`);
+  }
+
+  const onPage = (page: Page) => {
+    register(page);
+    opened.push(page);
+  };
+
+  register(initialPage);
+  for (const page of context.pages()) register(page);
+  context.on('page', onPage);
+
+  return {
+    get active() {
+      return active;
+    },
+
+    list(): Promise<TabInfo[]> {
+      return Promise.all(pages.map(describe));
+    },
+
+    async switchTo(tab: string): Promise<TabInfo> {
+      const page = await find(tab);
+      activate(page);
+      return describe(page);
+    },
+
+    async close(tab?: string): Promise<void> {
+      const page = tab ? await find(tab) : active;
+      if (pages.length <= 1) {
+        throw new Error('Cannot close the last open tab');
+      }
+      await page.close();
+    },
+
+    async followNewTab(): Promise<TabInfo | null> {
+      const page = opened[opened.length - 1];
+      opened = [];
+      if (!page || page.isClosed()) return null;
+
+      await page.waitForLoadState('load', { timeout: 10000 }).catch(() => {});
+      activate(page);
+      return describe(page);
+    },
+
+    dispose(): void {
+      context.off('page', onPage);
+    },
+  };
+}
@@ -1,13 +1,15 @@
 import express, { type Request, type Response, type NextFunction } from 'express';
 import * as path from 'path';
-import { PersonaQuestionGenRequestSchema, RunBatchCreateRequestSchema, RunCreateRequestSchema } from './types.js';
-import { createRunOrchestrator } from './run/runOrchestrator.js';
+import { PersonaQuestionGenRequestSchema, RunBatchCreateRequestSchema, RunCreateRequestSchema, RunReplyRequestSchema, type RunEvent } from './types.js';
+import { createRunOrchestrator, type RunControlResult } from './run/runOrchestrator.js';
 import { renderRunReportHtml } from './report/htmlReport.js';
 import { createGitHubIssue } from './integrations/github.js';
 import * as fs from 'fs/promises';
 import { generatePersonaQuestions } from './persona/generateQuestions.js';
+import { getProvider } from './llm/providers.js';
 
 const PORT = process.env.PORT || 3000;
+const SSE_HEARTBEAT_MS = 15_000;
 const app = express();
 
 app.use(express.json());
@@ -94,7 +96,8 @@ app.post('/personas/questions', async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    const out = await generatePersonaQuestions(parseResult.data);
+    const llm = parseResult.data.options?.llm;
+    const out = await generatePersonaQuestions(parseResult.data, { provider: getProvider(llm?.provider), model: llm?.model });
     res.json(out);
   } catch (error) {
     console.error('Error generating persona questions:', error);
@@ -115,7 +118,11 @@ app.post('/personas/runs', async (req: Request, res: Response): Promise<void> =>
     }
 
     const { baseUrl, persona, count, focus, siteDescription } = parseResult.data;
-    const questions = await generatePersonaQuestions({ baseUrl, persona, count, focus, siteDescription });
+    const llm = parseResult.data.options?.llm;
+    const questions = await generatePersonaQuestions(
+      { baseUrl, persona, count, focus, siteDescription },
+      { provider: getProvider(llm?.provider), model: llm?.model }
+    );
 
     // Allow callers to pass run defaults; keep it simple: accept optional budgets/options/auth at the top-level
     const auth = req.body?.auth;
@@ -184,6 +191,72 @@ app.get('/runs/:runId', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// GET /runs/:runId/events - Live run progress (Server-Sent Events)
+app.get('/runs/:runId/events', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const runId = req.params.runId as string;
+    const artifactsBase = `${req.protocol}://${req.get('host')}/runs/${encodeURIComponent(runId)}/artifacts`;
+
+    let heartbeat: NodeJS.Timeout | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const send = (event: RunEvent): void => {
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+      }
+      res.write(formatSseEvent(event, artifactsBase));
+    };
+
+    const close = (): void => {
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+
+    unsubscribe = orchestrator.subscribe(runId, (event) => {
+      send(event);
+      if (event.type === 'complete') {
+        close();
+      }
+    });
+
+    if (unsubscribe) {
+      heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+      req.on('close', close);
+      return;
+    }
+
+    // Not in progress: replay the outcome of a finished run
+    const report = await orchestrator.getRunReport(runId);
+    if (!report) {
+      res.status(404).json({ error: 'Run not found', runId });
+      return;
+    }
+
+    const at = report.endedAt ?? new Date().toISOString();
+    send({ type: 'status', runId, status: report.status, at });
+    for (const finding of report.findings) {
+      send({ type: 'finding', runId, finding });
+    }
+    send({ type: 'complete', runId, status: report.status, reason: report.summary?.reason, error: report.error, at });
+    res.end();
+  } catch (error) {
+    console.error('Error streaming run events:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Failed to stream run events',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
 // GET /runs/:runId/report - Human-friendly HTML report
 app.get('/runs/:runId/report', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -214,6 +287,37 @@ app.get('/runs/:runId/report', async (req: Request, res: Response): Promise<void
   }
 });
 
+// POST /runs/:runId/cancel - Cancel a pending or running run (keeps a partial report)
+app.post('/runs/:runId/cancel', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.runId as string;
+  await respondToRunControl(res, runId, 'cancel', () => orchestrator.cancelRun(runId), 'Cancellation requested');
+});
+
+// POST /runs/:runId/pause - Pause a running run before its next step
+app.post('/runs/:runId/pause', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.runId as string;
+  await respondToRunControl(res, runId, 'pause', () => orchestrator.pauseRun(runId), 'Run will pause before its next step');
+});
+
+// POST /runs/:runId/resume - Resume a paused run
+app.post('/runs/:runId/resume', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.runId as string;
+  await respondToRunControl(res, runId, 'resume', () => orchestrator.resumeRun(runId), 'Run resumed');
+});
+
+// POST /runs/:runId/reply - Answer the agent's question (human-in-the-loop runs)
+app.post('/runs/:runId/reply', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.runId as string;
+  const parseResult = RunReplyRequestSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid request body', details: parseResult.error.issues });
+    return;
+  }
+
+  const { message } = parseResult.data;
+  await respondToRunControl(res, runId, 'reply to', () => orchestrator.replyToRun(runId, message), 'Reply delivered');
+});
+
 // POST /runs/:runId/issues/github - Create a GitHub issue with repro + evidence
 app.post('/runs/:runId/issues/github', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -274,6 +378,50 @@ app.get('/runs', async (_req: Request, res: Response): Promise<void> => {
   }
 });
 
+async function respondToRunControl(
+  res: Response,
+  runId: string,
+  action: string,
+  control: () => Promise<RunControlResult>,
+  message: string
+): Promise<void> {
+  try {
+    const result = await control();
+    if (result === 'not_found') {
+      res.status(404).json({ error: 'Run not found', runId });
+      return;
+    }
+
+    const report = await orchestrator.getRunReport(runId);
+    if (result === 'not_active') {
+      res.status(409).json({ error: `Cannot ${action} a run with status "${report?.status ?? 'unknown'}"`, runId });
+      return;
+    }
+
+    res.status(202).json({ runId, status: report?.status, message });
+  } catch (error) {
+    console.error(`Error trying to ${action} run:`, error);
+    res.status(500).json({
+      error: `Failed to ${action} run`,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Serialize a run event as an SSE message, adding absolute URLs for
+ * screenshots so clients don't need to know the artifacts layout.
+ */
+function formatSseEvent(event: RunEvent, artifactsBase: string): string {
+  let data: unknown = event;
+  if (event.type === 'step') {
+    data = { ...event, step: { ...event.step, screenshotUrl: `${artifactsBase}/${event.step.screenshot}` } };
+  } else if (event.type === 'finding') {
+    data = { ...event, finding: { ...event.finding, screenshotUrl: `${artifactsBase}/${event.finding.evidence.screenshot}` } };
+  }
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
 // Health check
 app.get('/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -301,6 +449,11 @@ app.listen(PORT, () => {
     console.log(`  GET  /runs                 - List all runs`);
     console.log(`  GET  /runs/:runId          - Get run report (JSON)`);
     console.log(`  GET  /runs/:runId/report   - Human-friendly run report (HTML)`);
+    console.log(`  GET  /runs/:runId/events   - Live run events (SSE)`);
+    console.log(`  POST /runs/:runId/cancel   - Cancel a pending or running run`);
+    console.log(`  POST /runs/:runId/pause    - Pause a running run`);
+    console.log(`  POST /runs/:runId/resume   - Resume a paused run`);
+    console.log(`  POST /runs/:runId/reply    - Answer a run awaiting input`);
     console.log(`  POST /runs/:runId/issues/github - Create GitHub issue from run`);
     console.log(`  GET  /health               - Health check`);
   console.log('');
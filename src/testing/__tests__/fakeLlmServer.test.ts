@@ -0,0 +1,93 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'vitest';
+import { callOpenAiCompatible } from '../../llm/openaiCompatible.js';
+import { startFakeLlmServer, type FakeLlmServer } from '../fakeLlmServer.js';
+import { startFixtureSite } from '../fixtureSite.js';
+import type { LocalServer } from '../http.js';
+
+describe('fake LLM server', () => {
+  let fake: FakeLlmServer;
+
+  beforeAll(async () => {
+    fake = await startFakeLlmServer();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  afterEach(() => {
+    fake.requests.length = 0;
+  });
+
+  test('replays scripted actions in order over the chat completions protocol', async () => {
+    fake.setScript([
+      { type: 'click', target: 'Help Center' },
+      { type: 'done', reason: 'Found it', evidenceSteps: [0] },
+    ]);
+
+    const first = await callOpenAiCompatible('step one', { baseUrl: fake.url, model: 'fake-model' });
+    const second = await callOpenAiCompatible('step two', { baseUrl: `${fake.url}/v1`, json: true });
+    const third = await callOpenAiCompatible('step three', { baseUrl: fake.url });
+
+    expect(JSON.parse(first).action).toEqual({ type: 'click', target: 'Help Center' });
+    expect(JSON.parse(second).action.type).toBe('done');
+    // The last reply repeats once the script runs out
+    expect(third).toBe(second);
+    expect(fake.requests.map(r => r.prompt)).toEqual(['step one', 'step two', 'step three']);
+    expect(fake.requests[0].model).toBe('fake-model');
+  });
+
+  test('passes raw strings through and lets functions answer from the prompt', async () => {
+    fake.setScript([
+      'not json',
+      ({ prompt }) => prompt.includes('Refund')
+        ? { type: 'click', target: 'Refund policy' }
+        : { type: 'back' },
+    ]);
+
+    expect(await callOpenAiCompatible('anything', { baseUrl: fake.url })).toBe('not json');
+    const reply = await callOpenAiCompatible('- [lin_abc12] "Refund policy"', { baseUrl: fake.url });
+    expect(JSON.parse(reply).action).toEqual({ type: 'click', target: 'Refund policy' });
+  });
+
+  test('accepts a replacement script over HTTP', async () => {
+    const resp = await fetch(`${fake.url}/script`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ type: 'openHelp' }]),
+    });
+    expect(resp.status).toBe(200);
+
+    const reply = await callOpenAiCompatible('prompt', { baseUrl: fake.url });
+    expect(JSON.parse(reply).action).toEqual({ type: 'openHelp' });
+  });
+
+  test('fails loudly with an empty script', async () => {
+    fake.setScript([]);
+    await expect(callOpenAiCompatible('prompt', { baseUrl: fake.url })).rejects.toThrow(/no scripted replies/);
+  });
+});
+
+describe('fixture site', () => {
+  let site: LocalServer;
+
+  beforeAll(async () => {
+    site = await startFixtureSite();
+  });
+
+  afterAll(async () => {
+    await site.close();
+  });
+
+  test('serves pages and falls back to the workspace shell for client routes', async () => {
+    const home = await fetch(`${site.url}/`);
+    expect(await home.text()).toContain('<h1>Acme Notes</h1>');
+
+    const route = await fetch(`${site.url}/app/settings`);
+    expect(route.status).toBe(200);
+    expect(await route.text()).toContain('role="dialog"');
+
+    const help = await fetch(`${site.url}/help/refunds.html`);
+    expect(await help.text()).toContain('within 30 days');
+  });
+});
@@ -0,0 +1,97 @@
+import express from 'express';
+import type { AgentAction } from '../types.js';
+import { listenLocal } from './http.js';
+
+/**
+ * Deterministic stand-in for a model server. It speaks the OpenAI
+ * `/v1/chat/completions` protocol, so runs reach it through the regular
+ * `openai-compatible` provider, and replays a script of canned replies.
+ *
+ * A reply is an action (sent as `{"thinking", "action"}` JSON), a raw string
+ * (for exercising the repair loop), or a function of the incoming prompt.
+ * Once the script runs out the last reply repeats.
+ *
+ * The script can also be replaced over HTTP with `PUT /script` and a JSON
+ * array body, which is handy when pointing a dev server at it by hand.
+ */
+
+export interface FakeLlmRequest {
+  model: string;
+  prompt: string;
+}
+
+export type FakeReply =
+  | AgentAction
+  | string
+  | ((request: FakeLlmRequest) => AgentAction | string);
+
+export interface FakeLlmServer {
+  url: string;
+  // Every prompt received, in order
+  requests: FakeLlmRequest[];
+  setScript(replies: FakeReply[]): void;
+  close(): Promise<void>;
+}
+
+export function formatFakeReply(reply: AgentAction | string): string {
+  if (typeof reply === 'string') {
+    return reply;
+  }
+  return JSON.stringify({ thinking: `scripted ${reply.type}`, action: reply });
+}
+
+export async function startFakeLlmServer(script: FakeReply[] = []): Promise<FakeLlmServer> {
+  const requests: FakeLlmRequest[] = [];
+  let replies = [...script];
+  let cursor = 0;
+
+  const app = express();
+  app.use(express.json({ limit: '20mb' }));
+
+  app.post('/v1/chat/completions', (req, res) => {
+    const messages: Array<{ content: unknown }> = Array.isArray(req.body?.messages) ? req.body.messages : [];
+    const request: FakeLlmRequest = {
+      model: String(req.body?.model ?? ''),
+      prompt: messages.map(m => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content))).join('\n'),
+    };
+    requests.push(request);
+
+    if (replies.length === 0) {
+      res.status(500).json({ error: { message: 'Fake LLM has no scripted replies' } });
+      return;
+    }
+
+    const next = replies[Math.min(cursor, replies.length - 1)];
+    cursor++;
+    const content = formatFakeReply(typeof next === 'function' ? next(request) : next);
+
+    res.json({
+      id: `fake-${requests.length}`,
+      object: 'chat.completion',
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    });
+  });
+
+  app.put('/script', (req, res) => {
+    if (!Array.isArray(req.body)) {
+      res.status(400).json({ error: 'Expected a JSON array of replies' });
+      return;
+    }
+    replies = req.body;
+    cursor = 0;
+    res.json({ replies: replies.length });
+  });
+
+  const server = await listenLocal(app);
+
+  return {
+    url: server.url,
+    requests,
+    setScript(next) {
+      replies = [...next];
+      cursor = 0;
+    },
+    close: server.close,
+  };
+}
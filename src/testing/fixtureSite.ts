@@ -0,0 +1,45 @@
+import express from 'express';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { listenLocal, type LocalServer } from './http.js';
+
+/**
+ * Small bundled web app for end-to-end runs: marketing pages, a login form,
+ * a validated contact form, a client-routed workspace with a modal, a
+ * searchable help center, and an account page with a photo upload, a CSV
+ * export and confirm() dialogs.
+ *
+ * Login credentials: test@example.com / secret
+ */
+
+export const FIXTURE_SITE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixture-site');
+
+// Files runs may upload (point UPLOAD_FIXTURES_DIR here)
+export const FIXTURE_UPLOADS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'upload-fixtures');
+
+export const FIXTURE_CREDENTIALS = {
+  username: 'test@example.com',
+  password: 'secret',
+};
+
+export function createFixtureSiteApp(): express.Express {
+  const app = express();
+
+  // Browsers always ask for this; a 404 would show up as a failed request finding
+  app.get('/favicon.ico', (_req, res) => {
+    res.status(204).end();
+  });
+
+  app.use(express.static(FIXTURE_SITE_DIR));
+
+  // Client-side routes in the workspace all load the same document
+  app.get(/^\/app(\/.*)?$/, (_req, res) => {
+    res.sendFile(path.join(FIXTURE_SITE_DIR, 'app.html'));
+  });
+
+  return app;
+}
+
+export function startFixtureSite(): Promise<LocalServer> {
+  return listenLocal(createFixtureSiteApp());
+}
@@ -0,0 +1,25 @@
+import type { Express } from 'express';
+import type { AddressInfo } from 'net';
+
+export interface LocalServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Listen on an ephemeral localhost port so parallel test files never collide.
+ */
+export function listenLocal(app: Express): Promise<LocalServer> {
+  return new Promise((resolve, reject) => {
+    const server = app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((done, fail) => {
+          server.close(error => (error ? fail(error) : done()));
+        }),
+      });
+    });
+    server.on('error', reject);
+  });
+}
@@ -24,15 +24,67 @@ export const ViewportSchema = z.object({
 export const SuccessHintsSchema = z.object({
   mustSeeText: z.array(z.string()).optional(),
   mustEndOnUrlIncludes: z.array(z.string()).optional(),
+  mustDownloadFileMatching: z.string().min(1).optional(), // glob on the downloaded file name, e.g. "invoices*.csv"
 });
 
+export const LLM_PROVIDERS = ['anthropic-sdk', 'claude-cli', 'claude-tmux', 'openai-compatible'] as const;
+
+export const LlmOptionsSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).optional(),           // default: picked from env (see README)
+  model: z.string().regex(/^[A-Za-z0-9._:\/-]+$/).optional(), // e.g. claude-sonnet-4-20250514
+});
+
+// Presence enables human-in-the-loop: the agent may ask an operator for a hint
+export const HumanInTheLoopSchema = z.object({
+  autoEscalateAfter: z.number().int().positive().default(6), // ask automatically after N steps without progress
+  maxWaitMinutes: z.number().positive().default(10),         // continue without a hint after this long
+});
+
+// How long to wait for the page to settle after each action (see "Settling" in the README)
+export const SettleOptionsSchema = z.object({
+  maxMs: z.number().int().positive().default(10000),           // stop waiting after this long
+  networkQuietMs: z.number().int().nonnegative().default(500), // no requests in flight for this long (0 = ignore the network)
+  domQuietMs: z.number().int().nonnegative().default(300),     // no DOM mutations for this long
+  waitForAnimations: z.boolean().default(true),                // wait for finite CSS/Web Animations to finish
+  slowMs: z.number().int().positive().default(3000),           // settle times at or above this are performance findings
+});
+
+// Page timing above these limits becomes a performance finding (see "Page Performance" in the README)
+export const PerformanceThresholdsSchema = z.object({
+  ttfbMs: z.number().int().positive().default(800),                // time to first byte of a page load
+  lcpMs: z.number().int().positive().default(2500),                // largest contentful paint of a page load
+  cls: z.number().positive().default(0.1),                         // cumulative layout shift of one page
+  blockingMs: z.number().int().positive().default(300),            // long-task time over 50ms during one step
+  transferBytes: z.number().int().positive().default(3_000_000),   // bytes fetched during one step
+});
+
+// Accessibility rules run on every step's page (see "Accessibility Audit" in the README)
+export const AccessibilityOptionsSchema = z.object({
+  enabled: z.boolean().default(true),
+  focusTrapProbe: z.boolean().default(false),  // press Tab through each new page to find focus traps (moves focus, then restores it)
+});
+
+// How the agent may perceive and interact with the page (see "Keyboard-Only Mode"
+// and "Screen-Reader Mode" in the README)
+export const RUN_MODES = ['standard', 'keyboard', 'screenReader'] as const;
+
 export const RunOptionsSchema = z.object({
+  mode: z.enum(RUN_MODES).default('standard'),
   headless: z.boolean().default(true),
   viewport: ViewportSchema.default({ width: 1280, height: 800 }),
   recordVideo: z.boolean().default(true),
   recordTrace: z.boolean().default(true),
   networkAllowlist: z.array(z.string()).optional(),
   successHints: SuccessHintsSchema.optional(),
+  vision: z.boolean().default(false), // send the viewport screenshot to the model each step
+  llm: LlmOptionsSchema.optional(),
+  humanInTheLoop: HumanInTheLoopSchema.optional(),
+  // File names under UPLOAD_FIXTURES_DIR the agent may pick for upload actions
+  uploadFixtures: z.array(z.string().regex(/^\w[\w .-]*$/)).optional(),
+  settle: SettleOptionsSchema.default({}),
+  performance: PerformanceThresholdsSchema.default({}),
+  accessibility: AccessibilityOptionsSchema.default({}),
+  copyReview: z.boolean().default(false), // after the run, have the model review the UI text for 'copy' findings
 });
 
 export const RunCreateRequestSchema = z.object({
@@ -43,10 +95,21 @@ export const RunCreateRequestSchema = z.object({
   options: RunOptionsSchema.default({}),
 });
 
+// Operator reply for a run in awaiting_input (POST /runs/:runId/reply)
+export const RunReplyRequestSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+});
+
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
 export type Budgets = z.infer<typeof BudgetsSchema>;
 export type Viewport = z.infer<typeof ViewportSchema>;
 export type SuccessHints = z.infer<typeof SuccessHintsSchema>;
+export type LlmOptions = z.infer<typeof LlmOptionsSchema>;
+export type HumanInTheLoopOptions = z.infer<typeof HumanInTheLoopSchema>;
+export type SettleOptions = z.infer<typeof SettleOptionsSchema>;
+export type PerformanceThresholds = z.infer<typeof PerformanceThresholdsSchema>;
+export type AccessibilityOptions = z.infer<typeof AccessibilityOptionsSchema>;
+export type RunMode = typeof RUN_MODES[number];
 export type RunOptions = z.infer<typeof RunOptionsSchema>;
 export type RunCreateRequest = z.infer<typeof RunCreateRequestSchema>;
 
@@ -68,6 +131,8 @@ export const PersonaQuestionGenRequestSchema = z.object({
   focus: z.string().min(1).optional(),
   // optional: describe what the site/product does (prevents LLM from guessing wrong)
   siteDescription: z.string().min(10).optional(),
+  // optional: run options (/personas/runs); llm also picks the model that writes the questions
+  options: z.object({ llm: LlmOptionsSchema.optional() }).passthrough().optional(),
 });
 
 export const PersonaQuestionGenResponseSchema = z.object({
@@ -96,8 +161,6 @@ export interface RunBatchCreateResponse {
 // Action Types
 // ============================================================================
 
-export type ActionType = 'click' | 'fill' | 'select' | 'scroll' | 'back' | 'wait' | 'search' | 'openHelp' | 'done';
-
 export interface ClickAction {
   type: 'click';
   target: string; // ref ID or text
@@ -145,6 +208,62 @@ export interface DoneAction {
   evidenceSteps: number[];
 }
 
+export interface PressAction {
+  type: 'press';
+  key: string;           // Playwright key or combo, e.g. "Escape", "Control+K", "Shift+Tab"
+  target?: string;       // element to focus first; the focused element otherwise
+}
+
+export interface HoverAction {
+  type: 'hover';
+  target: string;
+}
+
+export interface CheckAction {
+  type: 'check';
+  target: string;
+}
+
+export interface UncheckAction {
+  type: 'uncheck';
+  target: string;
+}
+
+export interface FocusAction {
+  type: 'focus';
+  target: string;
+}
+
+export interface SwitchTabAction {
+  type: 'switchTab';
+  tab: string;           // tab ID from the page state (e.g. "tab2"), or part of its title/URL
+}
+
+export interface CloseTabAction {
+  type: 'closeTab';
+  tab?: string;          // defaults to the active tab
+}
+
+export interface UploadAction {
+  type: 'upload';
+  target: string;        // file input, or the button that opens the file chooser
+  fixture: string;       // one of the run's uploadFixtures
+}
+
+export interface AcceptDialogAction {
+  type: 'acceptDialog';
+  text?: string;         // answer for prompt() dialogs
+}
+
+export interface DismissDialogAction {
+  type: 'dismissDialog';
+}
+
+export interface AskHumanAction {
+  type: 'askHuman';
+  question: string;
+}
+
 export type AgentAction =
   | ClickAction
   | FillAction
@@ -154,20 +273,77 @@ export type AgentAction =
   | WaitAction
   | SearchAction
   | OpenHelpAction
-  | DoneAction;
+  | DoneAction
+  | AskHumanAction
+  | PressAction
+  | HoverAction
+  | CheckAction
+  | UncheckAction
+  | FocusAction
+  | SwitchTabAction
+  | CloseTabAction
+  | UploadAction
+  | AcceptDialogAction
+  | DismissDialogAction;
+
+export type ActionType = AgentAction['type'];
 
 // ============================================================================
 // Snapshot Types
 // ============================================================================
 
 export interface InteractiveElement {
-  ref: string;           // stable reference ID (e.g., "btn_3", "input_7")
+  ref: string;           // stable fingerprint-derived ID (e.g., "btn_k3x9a", "lin_0p2mz_2")
   role: string;          // button, link, textbox, combobox, etc.
   name: string;          // accessible name
   type?: string;         // input type if applicable
   value?: string;        // current value if input
   disabled?: boolean;
   focused?: boolean;
+  checked?: boolean;     // checkboxes, radios and switches
+  frame?: string;        // frame ID (frame1, ...) when the element lives in an iframe
+}
+
+export interface ElementLocator {
+  framePath: string[];   // frame selectors from the main frame down (empty = main frame)
+  css?: string;          // unique CSS path within the frame, when captured from the DOM
+  role: string;          // fallback: getByRole(role, { name, exact }).nth(nth)
+  name: string;
+  nth: number;           // occurrence index among elements with the same role + name
+}
+
+export type RefTable = Record<string, ElementLocator>;
+
+export type ContentBlockKind = 'text' | 'table' | 'alert' | 'status';
+
+export interface ContentBlock {
+  kind: ContentBlockKind;
+  landmark?: string;     // main, article, region "Pricing", etc.
+  text: string;          // normalized text (table rows joined with " | ")
+}
+
+export interface TabInfo {
+  id: string;            // tab1, tab2, ... in the order tabs opened
+  title: string;
+  url: string;
+  active: boolean;
+}
+
+export interface FrameInfo {
+  id: string;            // frame1, frame2, ... in document order
+  url: string;
+  name?: string;         // iframe title or name attribute
+  framePath: string[];   // frame selectors from the main frame down
+  inspected: boolean;
+  reason?: string;       // why the frame couldn't be inspected
+}
+
+export type DialogType = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+export interface PageDialog {
+  type: DialogType;
+  message: string;
+  defaultValue?: string; // prompt() only
 }
 
 export interface PageSnapshot {
@@ -177,11 +353,57 @@ export interface PageSnapshot {
   headings: string[];              // visible h1/h2 text
   navLinks: string[];              // navigation link labels (limited)
   interactiveElements: InteractiveElement[];
+  refTable?: RefTable;             // ref -> exact locator for this step's elements
+  content?: ContentBlock[];        // budgeted main-content extraction (paragraphs, tables, alerts)
+  tabs?: TabInfo[];                // open tabs, when more than one
+  frames?: FrameInfo[];            // visible child frames, inspected or not
+  dialog?: PageDialog;             // JavaScript dialog waiting for an answer (the page is blocked)
+  keyboard?: KeyboardState;        // focus and tab order (keyboard-only runs)
+  screenReader?: ScreenReaderView; // the page as a screen reader reads it (screen-reader runs)
   text: string;                    // compact text representation
   hasSearchBox: boolean;
   hasHelpLink: boolean;
 }
 
+// Where keyboard focus is and where Tab goes from there
+export interface KeyboardState {
+  focused?: FocusStop;        // unset while focus is on the page itself
+  focusVisible?: boolean;     // the focused element is drawn differently than when it isn't focused
+  focusIndex?: number;        // position of the focused element in tabOrder
+  tabOrder: FocusStop[];      // sequential focus order of the main frame (capped)
+  unreachable: FocusStop[];   // controls that take clicks but can't be reached with Tab
+}
+
+export interface FocusStop {
+  role: string;
+  name: string;
+  element: string;     // e.g. <div class="card-action">
+  inModal?: boolean;   // inside an open modal dialog
+}
+
+// What a screen reader announces for the page, in reading order
+export interface ScreenReaderView {
+  items: ReadingItem[];
+  problems: ReadingProblem[];
+}
+
+export interface ReadingItem {
+  role: string;          // heading, link, button, text, img, list, navigation, main, ...
+  name: string;          // accessible name, or the text itself for role 'text'
+  ref?: string;          // matching interactive element, when the agent can act on it
+  level?: number;        // heading level
+  states?: string[];     // checked, expanded, disabled, required, 3 items, ...
+  landmark?: boolean;    // start of a landmark region
+}
+
+export type ReadingProblemKind = 'visual-order' | 'hidden-focusable' | 'image-alt' | 'no-headings';
+
+export interface ReadingProblem {
+  kind: ReadingProblemKind;
+  message: string;
+  target?: string;  // the offending element or text
+}
+
 // ============================================================================
 // Step Log Types
 // ============================================================================
@@ -194,6 +416,32 @@ export interface StepResult {
   newUrl?: string;
   progress: ProgressLevel;
   error?: string;
+  diff?: SnapshotDiff;   // what changed on the page; the basis for progress
+  settle?: SettleTiming; // how long the page took to settle after the action
+}
+
+export type SettleReason = 'load' | 'network' | 'dom' | 'animations';
+
+export interface SettleTiming {
+  ms: number;
+  timedOut: boolean;            // gave up after settle.maxMs
+  waitingOn?: SettleReason[];   // what was still busy when it gave up
+}
+
+// Only the parts that changed are set; an empty diff means no visible change
+export interface SnapshotDiff {
+  url?: { from: string; to: string };
+  title?: { from: string; to: string };
+  headingsAdded?: string[];
+  headingsRemoved?: string[];
+  elementsAdded?: string[];    // role "name", e.g. button "Save"
+  elementsRemoved?: string[];
+  valuesChanged?: string[];    // field values and checked states
+  alertsAdded?: string[];      // alert/status text (toasts, validation messages)
+  statusChanged?: string[];    // status text that replaced earlier status text (clocks, counters)
+  contentAdded?: string[];     // other main-content text (expanded panels, tab content)
+  dialogOpened?: PageDialog;
+  dialogClosed?: PageDialog;
 }
 
 export interface StepErrors {
@@ -214,6 +462,77 @@ export interface StepLog {
     screenshot: string;
   };
   errors: StepErrors;
+  usedVision?: boolean;  // viewport screenshot was sent to the model for this decision
+  repairs?: RepairAttempt[];  // rejected model replies before the action was accepted
+  humanInput?: HumanInput;    // set on askHuman steps
+  downloads?: DownloadRecord[];  // files the step's action downloaded
+  dialogs?: DialogRecord[];      // JavaScript dialogs that opened since the previous step
+  performance?: StepPerformance; // page timing since the previous step
+  accessibility?: A11yViolation[];  // accessibility rule violations on the step's page
+}
+
+export type A11yRuleId =
+  | 'button-name'
+  | 'link-name'
+  | 'label'
+  | 'heading-order'
+  | 'landmark-main'
+  | 'duplicate-link-name'
+  | 'focus-trap';
+
+export interface A11yViolation {
+  rule: A11yRuleId;
+  message: string;
+  target?: string;  // the offending element, e.g. <button class="icon-close">
+}
+
+// Browser performance entries recorded since the previous step
+export interface StepPerformance {
+  navigation?: NavigationTiming;  // set when a new document loaded
+  cls: number;                    // layout shift not caused by input
+  longTasks: number;
+  blockingMs: number;             // long-task time over 50ms each
+  transferBytes: number;          // cross-origin resources without Timing-Allow-Origin count as 0
+}
+
+export interface NavigationTiming {
+  url: string;
+  ttfbMs: number;
+  domContentLoadedMs: number;
+  loadMs?: number;                // unset when the load event hadn't finished
+  lcpMs?: number;
+}
+
+export interface DialogRecord extends PageDialog {
+  openedAt: string;
+  unexpected?: boolean;  // opened on its own rather than in response to the step's action
+}
+
+export interface DownloadRecord {
+  step: number;
+  filename: string;      // saved name under artifacts/downloads/
+  path: string;          // relative to the run directory, e.g. "artifacts/downloads/invoices.csv"
+  url: string;
+  bytes?: number;
+  error?: string;        // set when the download failed or never finished
+}
+
+export interface HumanInput {
+  question: string;
+  reply: string | null;  // null when nobody answered in time
+  auto: boolean;         // escalated by the loop rather than asked by the model
+}
+
+export interface AwaitingInput {
+  question: string;
+  step: number;
+  askedAt: string;
+}
+
+export interface RepairAttempt {
+  attempt: number;
+  error: string;       // why the reply was rejected (parse error, unknown ref, ...)
+  response: string;    // the offending reply, truncated
 }
 
 // ============================================================================
@@ -233,7 +552,7 @@ export interface HelpLadderState {
 // Finding Types
 // ============================================================================
 
-export type FindingType = 'discoverability' | 'copy' | 'validation' | 'bug' | 'performance';
+export type FindingType = 'discoverability' | 'copy' | 'validation' | 'bug' | 'performance' | 'accessibility';
 export type Severity = 'low' | 'med' | 'high';
 
 export interface Finding {
@@ -251,7 +570,7 @@ export interface Finding {
 // Run Report Types
 // ============================================================================
 
-export type RunStatus = 'pending' | 'running' | 'success' | 'fail' | 'partial';
+export type RunStatus = 'pending' | 'running' | 'paused' | 'awaiting_input' | 'success' | 'fail' | 'partial' | 'cancelled';
 
 export interface RunMetrics {
   steps: number;
@@ -261,12 +580,30 @@ export interface RunMetrics {
   stuckEvents: number;
   consoleErrors: number;
   failedRequests: number;
+  repairAttempts: number;
   durationMs: number;
+  performance?: PerformanceMetrics;  // set when the browser reported page timing
 }
 
+export interface PerformanceMetrics {
+  pageLoads: number;
+  medianTtfbMs?: number;
+  maxTtfbMs?: number;
+  medianLcpMs?: number;
+  maxLcpMs?: number;
+  maxCls: number;          // worst page, summing its shifts across steps
+  longTasks: number;
+  blockingMs: number;
+  transferBytes: number;
+}
+
+// Machine-readable reason for outcomes clients need to tell apart from the reason text
+export type RunReasonCode = 'budget_exceeded';  // the time or step budget ran out
+
 export interface RunSummary {
-  outcome: 'success' | 'fail' | 'partial';
+  outcome: 'success' | 'fail' | 'partial' | 'cancelled';
   reason: string;
+  reasonCode?: RunReasonCode;
   completionEvidence: string[];
 }
 
@@ -275,6 +612,7 @@ export interface RunArtifacts {
   video?: string;
   stepsJson: string;
   screenshotsDir: string;
+  downloads?: string[];  // e.g. ["artifacts/downloads/invoices.csv"]
 }
 
 export interface RunReport {
@@ -288,9 +626,45 @@ export interface RunReport {
   metrics?: RunMetrics;
   findings: Finding[];
   artifacts: RunArtifacts;
+  llm?: { provider: string; model?: string };  // which model made the decisions
+  mode?: RunMode;                 // how the agent perceived and used the page (standard when omitted)
+  readingOrder?: ReadingOrderSummary;  // screen-reader runs: problems reading the visited pages
+  awaitingInput?: AwaitingInput;  // the operator question, while status is awaiting_input
   error?: string;
 }
 
+export interface ReadingOrderSummary {
+  pages: number;  // distinct pages the agent read
+  problems: {
+    kind: ReadingProblemKind;
+    title: string;
+    count: number;       // each problem counted once per page
+    pages: number;
+    examples: string[];
+  }[];
+}
+
+// ============================================================================
+// Live Run Events (GET /runs/:runId/events)
+// ============================================================================
+
+export interface RunStepEvent {
+  i: number;
+  timestamp: string;
+  url: string;
+  pageTitle: string;
+  action: AgentAction;
+  result: StepResult;
+  screenshot: string;  // relative to the run's artifacts dir
+  usedVision?: boolean;
+}
+
+export type RunEvent =
+  | { type: 'status'; runId: string; status: RunStatus; awaitingInput?: AwaitingInput; at: string }
+  | { type: 'step'; runId: string; step: RunStepEvent }
+  | { type: 'finding'; runId: string; finding: Finding }
+  | { type: 'complete'; runId: string; status: RunStatus; reason?: string; error?: string; at: string };
+
 // ============================================================================
 // Destructive Action Blocklist
 // ============================================================================
@@ -315,7 +689,7 @@ export const DESTRUCTIVE_KEYWORDS = [
 export interface StepSummary {
   i: number;
   action: string;
-  result: string;
+  result: string;      // observed effect, e.g. 'no visible change' or 'new heading "Billing"'
   url: string;
 }
 
@@ -323,12 +697,20 @@ export interface DecisionContext {
   goal: string;
   currentSnapshot: PageSnapshot;
   recentHistory: StepSummary[];  // last N steps
+  lastStepDiff?: SnapshotDiff;   // page changes between the last step's snapshot and this one
   ladderState: HelpLadderState;
   budgets: {
     stepsRemaining: number;
     timeRemainingMs: number;
   };
   successHints?: SuccessHints;
+  viewportImage?: string;  // base64 PNG of the current viewport (vision mode only)
+  repairFeedback?: RepairAttempt[];  // previous rejected replies for this step
+  canAskHuman?: boolean;   // askHuman is offered (human-in-the-loop runs only)
+  operatorHint?: string;   // latest reply from the human operator
+  uploadFixtures?: string[];  // files the upload action may use
+  keyboardOnly?: boolean;     // actions limited to keyboard navigation (keyboard-only runs)
+  screenReader?: boolean;     // the page is only heard, not seen (screen-reader runs)
 }
 
 // ============================================================================
@@ -345,5 +727,6 @@ export interface RunState {
   ladderState: HelpLadderState;
   visitedPages: Map<string, number>;  // url+heading -> count
   artifactsDir: string;
+  awaitingInput?: AwaitingInput;  // set while the run waits for POST /runs/:runId/reply
   report?: RunReport;
 }